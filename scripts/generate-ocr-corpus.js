@@ -0,0 +1,50 @@
+// Renders the sample screenshots in src/tests/ocr-corpus from its ground-truth.json.
+// They are drawn, not captured from the game: plain text in the default regions, with a coloured frame
+// for rare bounties, so the OCR regression harness can be run from a fresh clone.
+// Run with: node scripts/generate-ocr-corpus.js
+const sharp = require('sharp');
+const fs = require('fs');
+const path = require('path');
+
+const corpusDir = path.join(__dirname, '..', 'src', 'tests', 'ocr-corpus');
+
+const WIDTH = 1280;
+const HEIGHT = 760;
+
+const FRAME_COLOURS = { uncommon: '#3fbf4f', rare: '#3f7fdf', epic: '#a64fdf' };
+
+const escape = (text) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+function drawRegion(region, lines, rarity) {
+  const frame = rarity
+    ? `<rect x="${region.x + 2}" y="${region.y + 2}" width="${region.width - 4}" height="${region.height - 4}" fill="none" stroke="${FRAME_COLOURS[rarity]}" stroke-width="8"/>`
+    : '';
+  const text = lines.map((line, i) =>
+    `<text x="${region.x + 20}" y="${region.y + 26 + i * 22}" font-family="DejaVu Sans, Arial, sans-serif" font-size="16" fill="#f0e6d2">${escape(line)}</text>`
+  ).join('');
+  return `<rect x="${region.x}" y="${region.y}" width="${region.width}" height="${region.height}" fill="#2a2118"/>${frame}${text}`;
+}
+
+async function main() {
+  const truth = JSON.parse(fs.readFileSync(path.join(corpusDir, 'ground-truth.json'), 'utf8'));
+  for (const shot of truth.screenshots) {
+    const regions = { ...truth.regions, ...(shot.regions || {}) };
+    let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}"><rect width="${WIDTH}" height="${HEIGHT}" fill="#14110d"/>`;
+    if (shot.boardOpen) {
+      svg += drawRegion(regions.bountyBoardTitleRegion, ['GUILD BOUNTIES']);
+    }
+    for (const [key, lines] of Object.entries(shot.text)) {
+      const expected = shot.expected[key];
+      svg += drawRegion(regions[key], lines, expected && expected.rarity);
+    }
+    svg += '</svg>';
+
+    await sharp(Buffer.from(svg)).png({ compressionLevel: 9 }).toFile(path.join(corpusDir, shot.file));
+    console.log(`Rendered ${shot.file}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
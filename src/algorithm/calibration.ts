@@ -0,0 +1,165 @@
+//@ts-nocheck
+import { edgeKey } from "./gps";
+import { bountyBoard, markets, portals } from "./nodes";
+import pathfinder from "./pathfinder";
+
+/**
+ * @typedef {Object} SellObservation
+ * @property {string} item The bounty that was sold
+ * @property {number} elapsedSeconds Seconds from the start of the run until the sale was detected
+ */
+
+/**
+ * @typedef {Object} SegmentObservation
+ * @property {string[]} edges Keys ({@link edgeKey}) of the edges walked between two detected sales
+ * @property {number} estimatedSeconds Walking time the graph predicted for those edges
+ * @property {number} actualSeconds Walking time the player took (total time minus buying, selling, teleports and encounters)
+ */
+
+/**
+ * @typedef {Object} EdgeAdjustment
+ * @property {number} factor Multiplier applied to the measured edge weight
+ * @property {number} samples Number of segments that contributed to the factor
+ */
+
+/** Learned factors are kept within this range so a bad run can't make an edge unusable */
+export const MIN_EDGE_FACTOR = 0.5;
+export const MAX_EDGE_FACTOR = 2;
+
+/** How far each observation moves an edge's factor towards what was measured (0-1) */
+export const DEFAULT_SMOOTHING = 0.2;
+
+// Segments with less walking than this are dominated by OCR detection delay, so they are ignored
+const MIN_SEGMENT_WALK_SECONDS = 10;
+
+// A segment this far off the estimate means the player did something else on the way (AFK, detour)
+const MAX_SEGMENT_RATIO = 3;
+
+const nodesByName = new Map();
+for (const location of [bountyBoard, ...Object.values(markets), ...Object.values(portals)]) {
+  nodesByName.set(location.name, location.node);
+}
+
+/**
+ * Splits a completed run into segments between detected sales and compares the predicted
+ * walking time of each segment with how long the player actually took.
+ *
+ * Buying, selling, teleporting and the encounters planned for hostile edges take a fixed amount
+ * of time, so that is taken out of both sides and whatever is left is put down to walking the
+ * edges in between.
+ *
+ * @param {import("./pathfinder").Action[]} actions The route that was followed, as returned by {@link Pathfinder#findBestRoute}
+ * @param {SellObservation[]} sells When each sale was detected, in the order they happened
+ * @param {import("./gps").default} gps GPS for the same graph (and adjustments) the route was planned with
+ * @param {Object} [timings] (Optional) Action times, defaults to the {@link Pathfinder} values
+ * @param {number} [timings.timeToBuy]
+ * @param {number} [timings.timeToSell]
+ * @returns {SegmentObservation[]} One entry per usable segment
+ */
+export function attributeRunError(actions, sells, gps, timings = {}) {
+  const { timeToBuy = pathfinder.timeToBuy, timeToSell = pathfinder.timeToSell } = timings;
+  const unmatched = sells.slice();
+  const observations = [];
+
+  let currentNode = bountyBoard.node;
+  let anchorSeconds = 0;
+  let segmentEdges = [];
+  let segmentWalk = 0;
+  let segmentFixed = 0;
+  let boughtAtStop = false;
+
+  for (const action of actions) {
+    if (action.type !== "buy" && action.type !== "sell") {
+      continue; // Teleports are part of the travel between stops, the run ending is never observed
+    }
+
+    const node = nodesByName.get(action.location);
+    if (node === undefined) {
+      return []; // Route from a different version of the game data
+    }
+
+    if (node !== currentNode) {
+      const path = gps.path(currentNode, node);
+      for (let i = 1; i < path.length; i++) {
+        const walk = gps.walkingEdgeWeight(path[i - 1], path[i]);
+        if (walk === null) {
+          segmentFixed += gps.distance(path[i - 1], path[i]).distance;
+        } else {
+          segmentWalk += walk;
+          segmentEdges.push(edgeKey(path[i - 1], path[i]));
+          // Adjustments only scale the walk, so the encounter time planned for the hop is fixed
+          segmentFixed += gps.hopEncounter(path[i - 1], path[i])?.counted ?? 0;
+        }
+      }
+      currentNode = node;
+      boughtAtStop = false;
+    }
+
+    if (action.type === "buy") {
+      if (!boughtAtStop) {
+        segmentFixed += timeToBuy; // Buying more than one item takes no extra time
+        boughtAtStop = true;
+      }
+      continue;
+    }
+
+    segmentFixed += timeToSell;
+
+    // Sales that weren't detected just make the next segment longer
+    const index = unmatched.findIndex((sell) => sell.item === action.item);
+    if (index === -1) {
+      continue;
+    }
+    const [sell] = unmatched.splice(index, 1);
+
+    const actualWalk = sell.elapsedSeconds - anchorSeconds - segmentFixed;
+    const ratio = actualWalk / segmentWalk;
+    if (
+      segmentWalk >= MIN_SEGMENT_WALK_SECONDS &&
+      ratio >= 1 / MAX_SEGMENT_RATIO &&
+      ratio <= MAX_SEGMENT_RATIO
+    ) {
+      observations.push({
+        edges: segmentEdges,
+        estimatedSeconds: segmentWalk,
+        actualSeconds: actualWalk,
+      });
+    }
+
+    anchorSeconds = sell.elapsedSeconds;
+    segmentEdges = [];
+    segmentWalk = 0;
+    segmentFixed = 0;
+  }
+
+  return observations;
+}
+
+/**
+ * Folds segment observations into per-edge adjustments with an exponential moving average.
+ * Every edge in a segment moves towards the ratio measured for that segment.
+ *
+ * @param {Object<string, EdgeAdjustment>} adjustments Current adjustments, keyed by {@link edgeKey}. Not modified
+ * @param {SegmentObservation[]} observations From {@link attributeRunError}
+ * @param {number} [smoothing] (Optional) Weight of each new observation, defaults to {@link DEFAULT_SMOOTHING}
+ * @returns {Object<string, EdgeAdjustment>} The updated adjustments
+ */
+export function applyObservations(adjustments, observations, smoothing = DEFAULT_SMOOTHING) {
+  const updated = { ...adjustments };
+
+  for (const { edges, estimatedSeconds, actualSeconds } of observations) {
+    // The estimate already includes the current factors, so the ratio is relative to them
+    const ratio = actualSeconds / estimatedSeconds;
+    for (const key of new Set(edges)) {
+      const current = updated[key] ?? { factor: 1, samples: 0 };
+      const target = current.factor * ratio;
+      const factor = current.factor + smoothing * (target - current.factor);
+      updated[key] = {
+        factor: Math.min(MAX_EDGE_FACTOR, Math.max(MIN_EDGE_FACTOR, factor)),
+        samples: current.samples + 1,
+      };
+    }
+  }
+
+  return updated;
+}
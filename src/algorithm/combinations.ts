@@ -1,9 +1,91 @@
 //@ts-nocheck
+/**
+ * Lazily generates every distinct combination of a given size from an array.
+ * Duplicate items are treated as a multiset, so two Carrots on the board only produce
+ * combinations that differ in how many Carrots they take. For example, given the array
+ * ['a', 'a', 'b'] and a size of 2, the combinations are:
+ * ['a', 'a'], ['a', 'b']
+ *
+ * Nothing is materialised up front: callers can stop iterating at any point.
+ *
+ * @param {string[]} array The array to generate combinations from
+ * @param {number} size The size of the combinations
+ * @returns {Generator<string[]>} Combinations, each a new array
+ */
+export function* kCombinations(array, size) {
+  const { values, counts } = countValues(array);
+
+  // available[i] = how many items are left from index i onwards, to skip dead branches
+  const available = new Array(values.length + 1).fill(0);
+  for (let i = values.length - 1; i >= 0; i--) {
+    available[i] = available[i + 1] + counts[i];
+  }
+  if (size < 0 || size > available[0]) {
+    return;
+  }
+
+  // taken[i] = how many copies of values[i] the current combination uses
+  const taken = new Array(values.length).fill(0);
+
+  function* generate(index, remaining) {
+    if (remaining === 0) {
+      const combo = [];
+      for (let i = 0; i < index; i++) {
+        for (let t = 0; t < taken[i]; t++) {
+          combo.push(values[i]);
+        }
+      }
+      yield combo;
+      return;
+    }
+    if (available[index] < remaining) {
+      return;
+    }
+
+    for (let take = Math.min(counts[index], remaining); take >= 0; take--) {
+      taken[index] = take;
+      yield* generate(index + 1, remaining - take);
+    }
+    taken[index] = 0;
+  }
+
+  yield* generate(0, size);
+}
+
+/**
+ * Counts the distinct combinations {@link kCombinations} would generate, without generating them
+ * @param {string[]} array The array to generate combinations from
+ * @param {number} size The size of the combinations
+ * @returns {number}
+ */
+export function countCombinations(array, size) {
+  if (size < 0) {
+    return 0;
+  }
+  const { counts } = countValues(array);
+
+  // ways[k] = number of ways to pick k items from the values seen so far
+  let ways = new Array(size + 1).fill(0);
+  ways[0] = 1;
+  for (const count of counts) {
+    const next = new Array(size + 1).fill(0);
+    for (let k = 0; k <= size; k++) {
+      for (let take = 0; take <= count && take <= k; take++) {
+        next[k] += ways[k - take];
+      }
+    }
+    ways = next;
+  }
+  return ways[size];
+}
+
 /**
  * Generate all possible combinations of a given size from an array.
  * For example, given the array ['a', 'b', 'c'] and a size of 2, the possible combinations are:
  * [['a', 'b'], ['a', 'c'], ['b', 'c']]
  *
+ * Prefer {@link kCombinations} for large inputs, this collects every combination into memory.
+ *
  * @param {string[]} array The array to generate combinations from
  * @param {number} size The size of the combinations
  * @param {boolean} [uniqueCombinationsOnly] (Optional) If true, only unique combinations will be returned.
@@ -11,35 +93,84 @@
  * @returns {string[][]} An array of combinations
  */
 const combinations = (array, size, uniqueCombinationsOnly = true) => {
-  let result = [];
+  if (uniqueCombinationsOnly) {
+    return [...kCombinations(array, size)];
+  }
 
-  const generate = (current, remaining) => {
-    result.push(current);
+  // Every positional combination, duplicates included
+  return [...kCombinations(array.map((_, index) => index), size)].map((indices) =>
+    indices.map((index) => array[index]),
+  );
+};
 
-    for (let i = 0; i < remaining.length; i++) {
-      generate([...current, remaining[i]], remaining.slice(i + 1));
-    }
+/**
+ * Keeps the highest scoring items from a stream without holding the whole stream in memory
+ * @template T
+ * @param {Iterable<T>} items Items to choose from, e.g. from {@link kCombinations}
+ * @param {number} limit Maximum number of items to keep
+ * @param {(item: T) => number} score Higher is better
+ * @returns {T[]} Up to `limit` items, best first
+ */
+export function takeBest(items, limit, score) {
+  // Min-heap on score, so the worst kept item is always at the root
+  const heap = [];
+  const scores = [];
+
+  const swap = (a, b) => {
+    [heap[a], heap[b]] = [heap[b], heap[a]];
+    [scores[a], scores[b]] = [scores[b], scores[a]];
   };
 
-  generate([], array);
+  const siftDown = (i) => {
+    for (;;) {
+      let smallest = i;
+      const left = 2 * i + 1;
+      const right = left + 1;
+      if (left < heap.length && scores[left] < scores[smallest]) smallest = left;
+      if (right < heap.length && scores[right] < scores[smallest]) smallest = right;
+      if (smallest === i) return;
+      swap(i, smallest);
+      i = smallest;
+    }
+  };
 
-  result = result.filter((r) => r.length === size);
+  if (limit <= 0) {
+    return [];
+  }
 
-  if (uniqueCombinationsOnly) {
-    const uniqueResults = [];
-    const uniqueResultsSet = new Set();
-    for (let r of result) {
-      const sorted = r.slice().sort();
-      const key = sorted.join(",");
-      if (!uniqueResultsSet.has(key)) {
-        uniqueResults.push(r);
-        uniqueResultsSet.add(key);
+  for (const item of items) {
+    const itemScore = score(item);
+    if (heap.length < limit) {
+      heap.push(item);
+      scores.push(itemScore);
+      for (let i = heap.length - 1; i > 0 && scores[(i - 1) >> 1] > scores[i]; i = (i - 1) >> 1) {
+        swap(i, (i - 1) >> 1);
       }
+    } else if (itemScore > scores[0]) {
+      heap[0] = item;
+      scores[0] = itemScore;
+      siftDown(0);
     }
-    return uniqueResults;
   }
 
-  return result;
-};
+  const order = heap.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+  return order.map((i) => heap[i]);
+}
+
+function countValues(array) {
+  const values = [];
+  const counts = [];
+  const indexOf = new Map();
+  for (const item of array) {
+    if (indexOf.has(item)) {
+      counts[indexOf.get(item)]++;
+    } else {
+      indexOf.set(item, values.length);
+      values.push(item);
+      counts.push(1);
+    }
+  }
+  return { values, counts };
+}
 
 export default combinations;
@@ -0,0 +1,230 @@
+//@ts-nocheck
+import { PriorityQueue } from "@datastructures-js/priority-queue";
+
+/**
+ * Version of the serialized matrix format. Bump when the layout below changes so
+ * stale files on disk are rebuilt instead of being misread.
+ */
+export const DISTANCE_MATRIX_VERSION = 1;
+
+/**
+ * @typedef {Object} SerializedDistanceMatrix
+ * @property {number} version Format version, see {@link DISTANCE_MATRIX_VERSION}
+ * @property {string} signature Hash of the adjacency map the matrix was built from
+ * @property {number[]} nodes Node ids, in index order
+ * @property {number[]} distances Row-major n*n shortest distances (-1 = unreachable)
+ * @property {number[]} next Row-major n*n next-hop node index (-1 = unreachable)
+ */
+
+/**
+ * All-pairs shortest paths over the GPS graph.
+ *
+ * Built once with a Dijkstra from every node, then answers distance and path
+ * queries with table lookups. Paths are reconstructed from a next-hop table so
+ * the whole thing stays small enough to write to disk and share between processes.
+ */
+class DistanceMatrix {
+  #nodes;
+  #indexOf;
+  #distances;
+  #next;
+  #signature;
+
+  constructor(nodes, distances, next, signature) {
+    this.#nodes = nodes;
+    this.#indexOf = new Map(nodes.map((node, index) => [node, index]));
+    this.#distances = distances;
+    this.#next = next;
+    this.#signature = signature;
+  }
+
+  /**
+   * Computes the matrix for an adjacency map
+   * @param {Map<number, [number, number][]>} adjacencyMap Node -> [neighbor, weight] pairs
+   * @returns {DistanceMatrix}
+   */
+  static fromAdjacencyMap(adjacencyMap) {
+    const nodeSet = new Set(adjacencyMap.keys());
+    for (const neighbors of adjacencyMap.values()) {
+      for (const [neighbor] of neighbors) {
+        nodeSet.add(neighbor);
+      }
+    }
+    const nodes = [...nodeSet].sort((a, b) => a - b);
+    const n = nodes.length;
+    const indexOf = new Map(nodes.map((node, index) => [node, index]));
+
+    const distances = new Float64Array(n * n).fill(-1);
+    const next = new Int32Array(n * n).fill(-1);
+
+    for (let source = 0; source < n; source++) {
+      const previous = DistanceMatrix.#dijkstra(adjacencyMap, nodes, indexOf, source, distances);
+
+      // Walk each target back to the source to find the first hop
+      for (let target = 0; target < n; target++) {
+        if (target === source) {
+          next[source * n + target] = target;
+          continue;
+        }
+        if (distances[source * n + target] < 0) {
+          continue;
+        }
+        let hop = target;
+        while (previous[hop] !== source) {
+          hop = previous[hop];
+        }
+        next[source * n + target] = hop;
+      }
+    }
+
+    return new DistanceMatrix(nodes, distances, next, DistanceMatrix.signatureOf(adjacencyMap));
+  }
+
+  /**
+   * Restores a matrix written by {@link DistanceMatrix#toJSON}
+   * @param {SerializedDistanceMatrix} data
+   * @returns {DistanceMatrix|null} The matrix, or null if the data is malformed or from another format version
+   */
+  static fromJSON(data) {
+    if (!data || data.version !== DISTANCE_MATRIX_VERSION || !Array.isArray(data.nodes)) {
+      return null;
+    }
+    const n = data.nodes.length;
+    if (!Array.isArray(data.distances) || data.distances.length !== n * n) {
+      return null;
+    }
+    if (!Array.isArray(data.next) || data.next.length !== n * n) {
+      return null;
+    }
+    return new DistanceMatrix(
+      data.nodes,
+      Float64Array.from(data.distances),
+      Int32Array.from(data.next),
+      data.signature,
+    );
+  }
+
+  /**
+   * Hashes an adjacency map so a serialized matrix can be checked against the graph it is loaded for
+   * @param {Map<number, [number, number][]>} adjacencyMap
+   * @returns {string}
+   */
+  static signatureOf(adjacencyMap) {
+    const parts = [];
+    const sortedNodes = [...adjacencyMap.keys()].sort((a, b) => a - b);
+    for (const node of sortedNodes) {
+      const neighbors = adjacencyMap
+        .get(node)
+        .map(([neighbor, weight]) => `${neighbor}:${weight}`)
+        .sort();
+      parts.push(`${node}>${neighbors.join(",")}`);
+    }
+
+    // FNV-1a, good enough to detect graph changes
+    let hash = 0x811c9dc5;
+    const text = parts.join(";");
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return `${hash.toString(16)}-${text.length}`;
+  }
+
+  get signature() {
+    return this.#signature;
+  }
+
+  get size() {
+    return this.#nodes.length;
+  }
+
+  /**
+   * Returns the shortest distance between two nodes
+   * @param {number} node1
+   * @param {number} node2
+   * @returns {number}
+   */
+  distance(node1, node2) {
+    const from = this.#indexOf.get(node1);
+    const to = this.#indexOf.get(node2);
+    const distance = from === undefined || to === undefined ? -1 : this.#distances[from * this.#nodes.length + to];
+    if (distance < 0) {
+      throw new Error(`No path found between ${node1} and ${node2}`);
+    }
+    return distance;
+  }
+
+  /**
+   * Returns the nodes visited on the shortest path between two nodes, including both ends
+   * @param {number} node1
+   * @param {number} node2
+   * @returns {number[]}
+   */
+  path(node1, node2) {
+    if (node1 === node2) {
+      return [node1];
+    }
+    this.distance(node1, node2); // Throws if unreachable
+
+    const n = this.#nodes.length;
+    const target = this.#indexOf.get(node2);
+    let current = this.#indexOf.get(node1);
+    const path = [node1];
+    while (current !== target) {
+      current = this.#next[current * n + target];
+      path.push(this.#nodes[current]);
+    }
+    return path;
+  }
+
+  /**
+   * @returns {SerializedDistanceMatrix}
+   */
+  toJSON() {
+    return {
+      version: DISTANCE_MATRIX_VERSION,
+      signature: this.#signature,
+      nodes: this.#nodes,
+      distances: Array.from(this.#distances),
+      next: Array.from(this.#next),
+    };
+  }
+
+  static #dijkstra(adjacencyMap, nodes, indexOf, source, distances) {
+    const n = nodes.length;
+    const row = source * n;
+    const previous = new Int32Array(n).fill(-1);
+    const best = new Float64Array(n).fill(Number.MAX_SAFE_INTEGER);
+    best[source] = 0;
+
+    const pq = new PriorityQueue((a, b) => a.distance - b.distance);
+    pq.enqueue({ distance: 0, index: source });
+
+    while (pq.size() > 0) {
+      const { index, distance } = pq.dequeue();
+      if (distance > best[index]) {
+        continue;
+      }
+      distances[row + index] = distance;
+
+      const neighbors = adjacencyMap.get(nodes[index]) ?? [];
+      for (const [neighbor, weight] of neighbors) {
+        const neighborIndex = indexOf.get(neighbor);
+        const newDistance = distance + weight;
+
+        // Only consider this path if it improves the known shortest distance
+        if (newDistance >= best[neighborIndex]) {
+          continue;
+        }
+
+        best[neighborIndex] = newDistance;
+        previous[neighborIndex] = index;
+        pq.enqueue({ distance: newDistance, index: neighborIndex });
+      }
+    }
+
+    return previous;
+  }
+}
+
+export default DistanceMatrix;
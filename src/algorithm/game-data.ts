@@ -0,0 +1,391 @@
+//@ts-nocheck
+import * as fs from "fs";
+import * as builtInPack from "./data/game-data.json";
+import { getGameDataOverridePath } from "../app/utils/paths";
+
+/**
+ * Game data packs hold everything about the game world the pathfinder needs: the bounty board,
+ * portals, markets, the edges between nodes and the bounties. The pack shipped with the app is
+ * `data/game-data.json`; a user can add an override pack (see {@link getGameDataOverridePath})
+ * to pick up new game content without waiting for an app release.
+ *
+ * @typedef {Object} GameDataPack
+ * @property {number} formatVersion Layout of the pack, see {@link GAME_DATA_FORMAT_VERSION}
+ * @property {string} dataVersion Revision of the game data, e.g. "2025.1"
+ * @property {{ name: string, node: number }} bountyBoard
+ * @property {Object<string, { name: string, node: number, teleportTime: number }>} portals
+ * @property {Object<string, { name: string, node: number }>} markets
+ * @property {{ quests: Object<string, Unlock>, skills: Object<string, Unlock>, items: Object<string, Unlock> }} unlocks
+ *    Everything an edge can require, see {@link PlayerState}
+ * @property {Object[]} edges See {@link edges}
+ * @property {Object<string, { name: string, level: number, kp: number, seller: string, buyer: string }>} bounties
+ *    `seller` and `buyer` are keys of `markets`
+ * @property {Object<string, [number, number]>} [coordinates] Where each node is drawn on the map in the
+ *    settings window, keyed by node. Nodes without one are laid out automatically (see {@link layoutMap})
+ */
+
+/**
+ * A quest, skill or item in the pack's `unlocks`
+ * @typedef {Object} Unlock
+ * @property {string} name Shown in settings
+ * @property {boolean | number} [default] Used until the player sets it: whether a quest is completed or an
+ *    item is had (default false), or a skill's level (default `max`)
+ * @property {number} [max] Highest level of a skill
+ */
+
+/**
+ * Newest pack layout this version of the app can read.
+ * Version 2 replaced the `detective` and `quest` fields of edges with `requires`
+ */
+export const GAME_DATA_FORMAT_VERSION = 2;
+
+const EDGE_FLAGS = ["directed", "portal", "hostile"];
+
+const UNLOCK_KINDS = ["quests", "skills", "items"];
+
+function edgeId(edge) {
+  return `${edge.nodes[0]}-${edge.nodes[1]}`;
+}
+
+function isObject(value) {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isNode(value) {
+  return Number.isInteger(value) && value > 0;
+}
+
+/**
+ * @param {GameDataPack["unlocks"]} unlocks
+ * @returns {string[]} What's wrong with the pack's unlocks
+ */
+export function validateUnlocks(unlocks) {
+  if (!isObject(unlocks)) {
+    return ["unlocks: Expected an object"];
+  }
+  const errors = [];
+  for (const kind of UNLOCK_KINDS) {
+    if (!isObject(unlocks[kind])) {
+      errors.push(`unlocks.${kind}: Expected an object`);
+      continue;
+    }
+    for (const [key, unlock] of Object.entries(unlocks[kind])) {
+      const path = `unlocks.${kind}.${key}`;
+      if (!isObject(unlock) || typeof unlock.name !== "string") {
+        errors.push(`${path}: Expected a name`);
+      } else if (kind === "skills" && !isNode(unlock.max)) {
+        errors.push(`${path}.max: Expected the highest level`);
+      } else if ("default" in unlock && typeof unlock.default !== (kind === "skills" ? "number" : "boolean")) {
+        errors.push(`${path}.default: Expected ${kind === "skills" ? "a level" : "true or false"}`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * @param {import("./unlocks").Requirements} requires An edge's requirements
+ * @param {GameDataPack["unlocks"]} unlocks
+ * @param {string} path Where the requirements are, for the messages
+ * @returns {string[]} What's wrong with the requirements
+ */
+export function validateRequirements(requires, unlocks, path) {
+  if (!isObject(requires)) {
+    return [`${path}: Expected an object`];
+  }
+  const errors = [];
+  const known = (kind, key) => isObject(unlocks) && isObject(unlocks[kind]) && isObject(unlocks[kind][key]);
+  for (const kind of ["quests", "items"]) {
+    if (!(kind in requires)) continue;
+    if (!Array.isArray(requires[kind])) {
+      errors.push(`${path}.${kind}: Expected a list`);
+      continue;
+    }
+    for (const key of requires[kind]) {
+      if (!known(kind, key)) errors.push(`${path}.${kind}: ${JSON.stringify(key)} isn't in unlocks.${kind}`);
+    }
+  }
+  if ("skills" in requires) {
+    if (!isObject(requires.skills)) {
+      errors.push(`${path}.skills: Expected an object`);
+    } else {
+      for (const [key, level] of Object.entries(requires.skills)) {
+        if (!known("skills", key)) errors.push(`${path}.skills: ${JSON.stringify(key)} isn't in unlocks.skills`);
+        else if (typeof level !== "number") errors.push(`${path}.skills.${key}: Expected a level`);
+      }
+    }
+  }
+  for (const key of Object.keys(requires)) {
+    if (!UNLOCK_KINDS.includes(key)) errors.push(`${path}.${key}: Expected quests, skills or items`);
+  }
+  return errors;
+}
+
+/**
+ * Checks a pack is complete and consistent: every field has the right type, every bounty's seller and
+ * buyer is a market, every edge requirement is one of the `unlocks`, every market, portal and the bounty
+ * board are on the graph, and every node of the graph can be reached from the bounty board (ignoring requirements)
+ * @param {GameDataPack} pack
+ * @returns {string[]} What's wrong with the pack, empty if it can be used
+ */
+export function validateGameData(pack) {
+  const errors = [];
+
+  if (!isObject(pack)) {
+    return ["Expected an object"];
+  }
+  if (!Number.isInteger(pack.formatVersion) || pack.formatVersion > GAME_DATA_FORMAT_VERSION) {
+    errors.push(`formatVersion: Expected a version up to ${GAME_DATA_FORMAT_VERSION}, found ${JSON.stringify(pack.formatVersion)}`);
+  }
+  if (typeof pack.dataVersion !== "string") {
+    errors.push("dataVersion: Expected text");
+  }
+
+  const places = [];
+  if (!isObject(pack.bountyBoard) || typeof pack.bountyBoard.name !== "string" || !isNode(pack.bountyBoard.node)) {
+    errors.push("bountyBoard: Expected a name and node");
+  } else {
+    places.push(["bountyBoard", pack.bountyBoard]);
+  }
+  for (const [group, extra] of [["portals", "teleportTime"], ["markets", null]]) {
+    if (!isObject(pack[group])) {
+      errors.push(`${group}: Expected an object`);
+      continue;
+    }
+    for (const [key, place] of Object.entries(pack[group])) {
+      if (!isObject(place) || typeof place.name !== "string" || !isNode(place.node)) {
+        errors.push(`${group}.${key}: Expected a name and node`);
+      } else if (extra && typeof place[extra] !== "number") {
+        errors.push(`${group}.${key}.${extra}: Expected a number`);
+      } else {
+        places.push([`${group}.${key}`, place]);
+      }
+    }
+  }
+
+  errors.push(...validateUnlocks(pack.unlocks));
+
+  // Directed edges that lead out of each node
+  const graph = new Map();
+  const link = (from, to) => {
+    if (!graph.has(from)) graph.set(from, new Set());
+    if (!graph.has(to)) graph.set(to, new Set());
+    graph.get(from).add(to);
+  };
+  const seen = new Set();
+  if (!Array.isArray(pack.edges)) {
+    errors.push("edges: Expected a list");
+  } else {
+    pack.edges.forEach((edge, i) => {
+      if (!isObject(edge) || !Array.isArray(edge.nodes) || edge.nodes.length !== 2 || !edge.nodes.every(isNode)) {
+        errors.push(`edges[${i}]: Expected two nodes`);
+        return;
+      }
+      const id = edgeId(edge);
+      if (seen.has(id)) errors.push(`edges[${i}]: Edge ${id} is listed twice`);
+      seen.add(id);
+
+      for (const flag of EDGE_FLAGS) {
+        if (flag in edge && typeof edge[flag] !== "boolean") errors.push(`edges[${i}].${flag}: Expected true or false`);
+      }
+      if ("detective" in edge || "quest" in edge) {
+        errors.push(`edges[${i}]: Edge ${id} uses "detective" or "quest", which are now written as "requires"`);
+      }
+      if ("requires" in edge) {
+        errors.push(...validateRequirements(edge.requires, pack.unlocks, `edges[${i}].requires`));
+      }
+      if (edge.hostile && (typeof edge.chanceOfEncounter !== "number" || typeof edge.timeToResolve !== "number")) {
+        errors.push(`edges[${i}]: Hostile edge ${id} needs chanceOfEncounter and timeToResolve`);
+      }
+      if (typeof edge.weight !== "number") errors.push(`edges[${i}].weight: Expected a number`);
+
+      link(edge.nodes[0], edge.nodes[1]);
+      if (!edge.directed) link(edge.nodes[1], edge.nodes[0]);
+    });
+  }
+
+  for (const [name, place] of places) {
+    if (!graph.has(place.node)) errors.push(`${name}: Node ${place.node} isn't on any edge`);
+  }
+
+  if (!isObject(pack.bounties)) {
+    errors.push("bounties: Expected an object");
+  } else {
+    const names = new Set();
+    for (const [key, bounty] of Object.entries(pack.bounties)) {
+      if (!isObject(bounty) || typeof bounty.name !== "string" || typeof bounty.level !== "number" || typeof bounty.kp !== "number") {
+        errors.push(`bounties.${key}: Expected a name, level and kp`);
+        continue;
+      }
+      if (names.has(bounty.name)) errors.push(`bounties.${key}: Name ${bounty.name} is used by another bounty`);
+      names.add(bounty.name);
+      for (const role of ["seller", "buyer"]) {
+        if (!isObject(pack.markets) || !isObject(pack.markets[bounty[role]])) {
+          errors.push(`bounties.${key}.${role}: ${JSON.stringify(bounty[role])} isn't a market`);
+        }
+      }
+    }
+  }
+
+  if ("coordinates" in pack) {
+    if (!isObject(pack.coordinates)) {
+      errors.push("coordinates: Expected an object");
+    } else {
+      for (const [node, point] of Object.entries(pack.coordinates)) {
+        if (!isNode(Number(node)) || !Array.isArray(point) || point.length !== 2 || !point.every((v) => typeof v === "number")) {
+          errors.push(`coordinates.${node}: Expected a node and [x, y]`);
+        }
+      }
+    }
+  }
+
+  // Portals can be teleported to from anywhere, so they are reachable too
+  if (isObject(pack.bountyBoard) && graph.has(pack.bountyBoard.node)) {
+    const reached = new Set([pack.bountyBoard.node]);
+    for (const [name, place] of places) {
+      if (name.startsWith("portals.") && graph.has(place.node)) reached.add(place.node);
+    }
+    const queue = [...reached];
+    while (queue.length > 0) {
+      for (const next of graph.get(queue.shift())) {
+        if (!reached.has(next)) {
+          reached.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    const unreachable = [...graph.keys()].filter((node) => !reached.has(node)).sort((a, b) => a - b);
+    if (unreachable.length > 0) {
+      errors.push(`Nodes can't be reached from the bounty board: ${unreachable.join(", ")}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Rewrites a version 1 edge's `detective` level and `quest` as `requires`
+ * @param {Object} edge
+ * @returns {Object} The edge, or a new one if it had to change
+ */
+export function upgradeEdge(edge) {
+  if (!isObject(edge) || !("detective" in edge || "quest" in edge)) return edge;
+  const { detective, quest, ...rest } = edge;
+  const requires = { ...rest.requires };
+  if (detective !== undefined) requires.skills = { ...requires.skills, detective };
+  if (quest !== undefined) requires.quests = [...(requires.quests ?? []), quest];
+  return { ...rest, requires };
+}
+
+/**
+ * Applies an override pack on top of a base pack. Portals, markets, bounties and coordinates are merged
+ * by key, so an override can change a single field (e.g. `{ "bounties": { "CARROTS": { "kp": 10 } } }`).
+ * Unlocks are merged by kind and key the same way.
+ * Edges replace the edge with the same `nodes` in the same order, and `"removed": true` deletes it.
+ * Overrides written for version 1 can still be applied, their edges are upgraded with {@link upgradeEdge}
+ * @param {GameDataPack} base
+ * @param {Partial<GameDataPack>} override
+ * @returns {GameDataPack} A new pack
+ * @throws If the override is for a newer version of the app
+ */
+export function mergeGameData(base, override) {
+  if (override.formatVersion > GAME_DATA_FORMAT_VERSION) {
+    throw new Error(`formatVersion: Expected a version up to ${GAME_DATA_FORMAT_VERSION}, found ${override.formatVersion}`);
+  }
+  const merged = JSON.parse(JSON.stringify(base));
+  merged.dataVersion = override.dataVersion ? `${base.dataVersion}+${override.dataVersion}` : base.dataVersion;
+  if (override.bountyBoard) {
+    merged.bountyBoard = { ...merged.bountyBoard, ...override.bountyBoard };
+  }
+
+  for (const group of ["portals", "markets", "bounties"]) {
+    for (const [key, value] of Object.entries(override[group] ?? {})) {
+      merged[group][key] = { ...merged[group][key], ...value };
+    }
+  }
+
+  for (const kind of UNLOCK_KINDS) {
+    for (const [key, value] of Object.entries(override.unlocks?.[kind] ?? {})) {
+      merged.unlocks[kind][key] = { ...merged.unlocks[kind][key], ...value };
+    }
+  }
+
+  if (override.coordinates) {
+    merged.coordinates = { ...merged.coordinates, ...override.coordinates };
+  }
+
+  for (const edge of override.edges ?? []) {
+    const { removed, ...rest } = upgradeEdge(edge);
+    const index = merged.edges.findIndex((e) => edgeId(e) === edgeId(edge));
+    if (removed) {
+      if (index >= 0) merged.edges.splice(index, 1);
+    } else if (index >= 0) {
+      merged.edges[index] = rest;
+    } else {
+      merged.edges.push(rest);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Loads the built-in pack with the user's override pack applied, if there is one.
+ * An override that can't be read, or that makes the data invalid, is ignored with its errors reported
+ * @param {string | null} overridePath
+ * @returns {{ pack: GameDataPack, overrideApplied: boolean, errors: string[] }}
+ * @throws If the built-in pack is invalid
+ */
+export function loadGameData(overridePath) {
+  const builtIn = JSON.parse(JSON.stringify(builtInPack.default ?? builtInPack));
+  const builtInErrors = validateGameData(builtIn);
+  if (builtInErrors.length > 0) {
+    throw new Error(`Built-in game data is invalid: ${builtInErrors.join("; ")}`);
+  }
+
+  if (!overridePath || !fs.existsSync(overridePath)) {
+    return { pack: builtIn, overrideApplied: false, errors: [] };
+  }
+
+  let errors;
+  try {
+    const override = JSON.parse(fs.readFileSync(overridePath, "utf8"));
+    if (!isObject(override)) {
+      throw new Error("Expected an object");
+    }
+    const merged = mergeGameData(builtIn, override);
+    errors = validateGameData(merged);
+    if (errors.length === 0) {
+      console.log(`[game-data] Applied override pack ${overridePath} (data ${merged.dataVersion})`);
+      return { pack: merged, overrideApplied: true, errors };
+    }
+  } catch (err) {
+    errors = [err instanceof Error ? err.message : String(err)];
+  }
+
+  for (const error of errors) {
+    console.warn(`[game-data] Ignoring override pack ${overridePath}: ${error}`);
+  }
+  return { pack: builtIn, overrideApplied: false, errors };
+}
+
+const loaded = loadGameData(getGameDataOverridePath());
+
+/**
+ * The game data in use, loaded once per process
+ * @type {GameDataPack}
+ */
+export const gameData = loaded.pack;
+
+/**
+ * Which data is in use and any problems with the override pack, for the settings window
+ * @returns {{ dataVersion: string, overridePath: string, overrideApplied: boolean, errors: string[] }}
+ */
+export function getGameDataStatus() {
+  return {
+    dataVersion: gameData.dataVersion,
+    overridePath: getGameDataOverridePath(),
+    overrideApplied: loaded.overrideApplied,
+    errors: loaded.errors,
+  };
+}
@@ -1,28 +1,74 @@
 //@ts-nocheck
-import { PriorityQueue } from "@datastructures-js/priority-queue";
+import DistanceMatrix from "./distance-matrix";
 import { edges, portals } from "./nodes";
+import { meetsRequirements, resolvePlayerState } from "./unlocks";
+import { AVOID_HOSTILE_PENALTY, encounterOf, resolveRisk, RiskMode } from "./risk";
 
 /**
  * @typedef {Object} DistanceResult
  * @property {number} distance The shortest distance between two nodes
  * @property {number[]} path The path between the two nodes, where each number represents a node
+ * @property {import("./risk").Encounter[]} encounters Encounters risked on the hostile edges of the path
  */
 
+/**
+ * Key identifying an edge regardless of direction, used for {@link GPS} edge adjustments.
+ * Both halves of a directed pair share a key, so they share one adjustment
+ * @param {number} node1
+ * @param {number} node2
+ * @returns {string}
+ */
+export function edgeKey(node1, node2) {
+  return node1 < node2 ? `${node1}-${node2}` : `${node2}-${node1}`;
+}
+
 /**
  * Calculates the shortest path between two nodes
  * For more information on nodes, see:
  *    {@link markets}
  *    {@link edges}
  *    {@link portals}
+ *
+ * Distances come from an all-pairs {@link DistanceMatrix}. Pass a serialized matrix
+ * (see {@link GPS#toJSON}) to skip computing it; it is ignored if it was built for a different graph.
+ *
+ * Edge adjustments scale the walking time of individual edges, keyed by {@link edgeKey}
+ * (e.g. `{ "21-22": 1.15 }` for a player who takes 15% longer than the measured time).
+ * They change the edge weights, so they are covered by the matrix signature too.
+ *
+ * Risk settings decide how hostile edges are weighed when choosing paths, see {@link RiskMode}.
+ * Distances are times either way: the average time of the path, or the time with every encounter
+ * in {@link RiskMode.WORST_CASE}. In {@link RiskMode.AVOID_HOSTILE} they are the times of paths chosen
+ * with a penalty, so going via another node can be quicker than the distance between two nodes.
  */
 class GPS {
   #adjacencyMap;
   #cache;
+  #hops;
+  #matrix;
+  #risk;
+  #walkingEdges;
 
-  constructor(detectiveLevel, battleOfFortuneholdCompleted) {
+  /**
+   * @param {import("./unlocks").PlayerState} [playerState] Quests, skills and items the player has unlocked,
+   *    which decide the edges that can be used. Defaults to the game data's defaults
+   * @param {import("./distance-matrix").SerializedDistanceMatrix} [serializedMatrix]
+   * @param {Object<string, number>} [edgeAdjustments]
+   * @param {import("./risk").RiskSettings} [risk] Defaults to average encounter times
+   */
+  constructor(playerState = {}, serializedMatrix = null, edgeAdjustments = {}, risk = {}) {
     this.#adjacencyMap = new Map();
     this.#cache = new Map();
-    this.#buildAdjacencyMap(detectiveLevel, battleOfFortuneholdCompleted);
+    this.#hops = new Map();
+    this.#risk = resolveRisk(risk);
+    this.#walkingEdges = new Set();
+    this.#buildAdjacencyMap(resolvePlayerState(playerState), edgeAdjustments);
+
+    const loaded = serializedMatrix ? DistanceMatrix.fromJSON(serializedMatrix) : null;
+    this.#matrix =
+      loaded && loaded.signature === DistanceMatrix.signatureOf(this.#adjacencyMap)
+        ? loaded
+        : DistanceMatrix.fromAdjacencyMap(this.#adjacencyMap);
   }
 
   /**
@@ -35,84 +81,83 @@ class GPS {
     const key = `${node1}-${node2}`;
 
     if (!this.#cache.has(key)) {
-      const distance = this.#distance(node1, node2);
-      this.#cache.set(key, distance);
+      const path = this.#matrix.path(node1, node2);
+      const hops = path.slice(1).map((node, i) => this.#hops.get(`${path[i]}-${node}`));
+      this.#cache.set(key, {
+        // The matrix includes the penalty paths were chosen with, which isn't time spent
+        distance:
+          this.#risk.mode === RiskMode.AVOID_HOSTILE
+            ? hops.reduce((sum, hop) => sum + hop.time, 0)
+            : this.#matrix.distance(node1, node2),
+        path,
+        encounters: hops.filter((hop) => hop.encounter).map((hop) => hop.encounter),
+      });
     }
 
     return this.#cache.get(key);
   }
 
-  getCacheSize() {
-    return this.#cache.size;
+  /**
+   * Returns the nodes visited on the shortest path between two nodes, including both ends
+   * @param {number} node1
+   * @param {number} node2
+   * @returns {number[]}
+   */
+  path(node1, node2) {
+    return this.distance(node1, node2).path;
   }
 
-  #distance(node1, node2) {
-    if (node1 === node2) {
-      return { distance: 0, path: [node1] };
-    }
-
-    const pq = new PriorityQueue((a, b) => a.distance - b.distance);
-    pq.enqueue({ distance: 0, node: node1 });
-
-    const distances = new Map();
-    const previous = new Map();
-
-    for (let node of this.#adjacencyMap.keys()) {
-      distances.set(node, Number.MAX_SAFE_INTEGER);
-      previous.set(node, null);
+  /**
+   * Returns the walking time of a single hop if it walks along one of the {@link edges}.
+   * Encounters aren't included, see {@link GPS#hopEncounter}
+   * @param {number} node1
+   * @param {number} node2
+   * @returns {number | null} The (adjusted) walking time, or null if the hop is a teleport or not an edge
+   */
+  walkingEdgeWeight(node1, node2) {
+    if (!this.#walkingEdges.has(edgeKey(node1, node2))) {
+      return null;
     }
+    return this.#hops.get(`${node1}-${node2}`)?.walk ?? null;
+  }
 
-    distances.set(node1, 0);
-
-    while (pq.size() > 0) {
-      const { node, distance } = pq.dequeue();
-
-      if (node === node2) {
-        const path = this.#reconstructPath(previous, node1, node2);
-        return {
-          distance,
-          path,
-        };
-      }
-
-      if (distance > distances.get(node)) {
-        continue;
-      }
-
-      const neighbors = this.#adjacencyMap.get(node);
-      for (let [neighbor, weight] of neighbors) {
-        const newDistance = distance + weight;
-
-        // Only consider this path if it improves the known shortest distance
-        if (newDistance >= distances.get(neighbor)) {
-          continue;
-        }
-
-        distances.set(neighbor, newDistance);
-        previous.set(neighbor, node);
+  /**
+   * Returns the encounter risked on a single hop
+   * @param {number} node1
+   * @param {number} node2
+   * @returns {import("./risk").Encounter | null} Null if the hop isn't a hostile edge
+   */
+  hopEncounter(node1, node2) {
+    return this.#hops.get(`${node1}-${node2}`)?.encounter ?? null;
+  }
 
-        pq.enqueue({
-          node: neighbor,
-          distance: distance + weight,
-        });
-      }
-    }
+  getCacheSize() {
+    return this.#cache.size;
+  }
 
-    throw new Error(`No path found between ${node1} and ${node2}`);
+  /**
+   * Hash of the graph this instance was built for, used to validate matrices loaded from disk
+   * @returns {string}
+   */
+  get signature() {
+    return this.#matrix.signature;
   }
 
-  #reconstructPath(previous, start, target) {
-    const path = [];
-    let current = target;
-    while (current !== null) {
-      path.push(current);
-      current = previous.get(current);
-    }
-    path.reverse();
-    return path[0] === start ? path : [];
+  /**
+   * Serializes the distance matrix so other processes can load it instead of recomputing
+   * @returns {import("./distance-matrix").SerializedDistanceMatrix}
+   */
+  toJSON() {
+    return this.#matrix.toJSON();
   }
 
-  #addEdge(node1, node2, weight) {
+  /**
+   * @param {number} weight What the hop costs when choosing paths
+   * @param {number} [time] Seconds the hop takes, if not the weight
+   * @param {import("./risk").Encounter | null} [encounter] Encounter risked on the hop
+   * @param {number} [walk] Seconds spent walking, the time without the encounter
+   */
+  #addEdge(node1, node2, weight, time = weight, encounter = null, walk = time) {
     if (!this.#adjacencyMap.has(node1)) {
       this.#adjacencyMap.set(node1, []);
     }
@@ -130,32 +175,31 @@ class GPS {
     }
 
     neighbors.push([node2, weight]);
+    this.#hops.set(`${node1}-${node2}`, { time, walk, encounter });
   }
 
-  #buildAdjacencyMap(detectiveLevel, battleOfFortuneholdCompleted) {
+  #buildAdjacencyMap(playerState, edgeAdjustments) {
     for (const edge of edges) {
       const [node1, node2] = edge.nodes;
 
-      // If an edge requires a detective level that is higher than the current detective level, skip the edge
-      if (edge.detective > detectiveLevel) {
+      // If an edge needs a quest, skill level or item the player doesn't have, skip the edge
+      if (!meetsRequirements(edge.requires, playerState)) {
         continue;
       }
 
-      // If an edge requires a quest to be completed that is not yet complete, skip the edge
-      // (Battle of Fortunehold is the only quest that affects the graph as of now)
-      if (edge.quest && !battleOfFortuneholdCompleted) {
-        continue;
-      }
+      // Learned adjustments only scale the walk, not the time spent on encounters
+      const walkTime = edge.weight * (edgeAdjustments[edgeKey(node1, node2)] ?? 1);
 
-      // If an edge is in a hostile zone, add additional weight to the edge to represent the chance of an encounter
-      const weight = edge.hostile
-        ? edge.weight + edge.chanceOfEncounter * edge.timeToResolve
-        : edge.weight;
+      // If an edge is in a hostile zone, add the time of an encounter: on average, or all of it in the worst case
+      const encounter = encounterOf(edge, this.#risk);
+      const time = encounter ? walkTime + encounter.counted : walkTime;
+      const weight = encounter && this.#risk.mode === RiskMode.AVOID_HOSTILE ? time + AVOID_HOSTILE_PENALTY : time;
 
-      this.#addEdge(node1, node2, weight);
+      this.#walkingEdges.add(edgeKey(node1, node2));
+      this.#addEdge(node1, node2, weight, time, encounter, walkTime);
 
       if (!edge.directed) {
-        this.#addEdge(node2, node1, weight);
+        this.#addEdge(node2, node1, weight, time, encounter, walkTime);
       }
     }
 
@@ -0,0 +1,269 @@
+//@ts-nocheck
+import { validateGameData, validateRequirements, validateUnlocks } from "./game-data";
+import { meetsRequirements, playerStateKey } from "./unlocks";
+
+/**
+ * @typedef {Object} GraphFinding
+ * @property {"error" | "warning"} severity Errors change routing (an edge is ignored, a market can't be
+ *    reached); warnings break the authoring conventions or look like typos
+ * @property {string} check Which check found it, e.g. "duplicates"
+ * @property {string} message
+ */
+
+/**
+ * Directed weights more than this many times apart are probably a typo
+ */
+export const MAX_DIRECTED_WEIGHT_RATIO = 3;
+
+function edgeLabel(edge) {
+  return `[${edge.nodes[0]}, ${edge.nodes[1]}]`;
+}
+
+/**
+ * The hops an edge adds to the graph, the same way {@link GPS} adds them
+ * @returns {Array<[number, number]>}
+ */
+function hopsOf(edge) {
+  const [node1, node2] = edge.nodes;
+  return edge.directed ? [[node1, node2]] : [[node1, node2], [node2, node1]];
+}
+
+/**
+ * Edges must be written lower node first (unless directed) and listed in order of their first node
+ */
+function checkOrdering(edges, findings) {
+  let previous = null;
+  for (const edge of edges) {
+    const [node1, node2] = edge.nodes;
+    if (!edge.directed && node1 > node2) {
+      findings.push({ severity: "warning", check: "ordering", message: `${edgeLabel(edge)} should be written as [${node2}, ${node1}]` });
+    }
+    const first = edge.directed ? node1 : Math.min(node1, node2);
+    if (previous !== null && first < previous) {
+      findings.push({ severity: "warning", check: "ordering", message: `${edgeLabel(edge)} is listed after edges of node ${previous}` });
+    }
+    previous = Math.max(previous ?? first, first);
+  }
+}
+
+/**
+ * Hops added twice: {@link GPS} keeps the first and silently ignores the rest
+ */
+function checkDuplicates(edges, findings) {
+  const addedBy = new Map();
+  for (const edge of edges) {
+    for (const [from, to] of hopsOf(edge)) {
+      const key = `${from}->${to}`;
+      const first = addedBy.get(key);
+      if (first) {
+        findings.push({
+          severity: "error",
+          check: "duplicates",
+          message: `${edgeLabel(edge)} repeats ${from} -> ${to} from ${edgeLabel(first)}, so it's ignored for that direction`,
+        });
+      } else {
+        addedBy.set(key, edge);
+      }
+    }
+  }
+}
+
+/**
+ * Missing weights and hostile fields are errors in {@link validateGameData}; this finds the opposite
+ */
+function checkFields(edges, findings) {
+  for (const edge of edges) {
+    if (!edge.hostile && (edge.chanceOfEncounter !== undefined || edge.timeToResolve !== undefined)) {
+      findings.push({ severity: "warning", check: "fields", message: `${edgeLabel(edge)} has encounter fields but isn't hostile, so they're ignored` });
+    }
+  }
+}
+
+/**
+ * Directed edges come in pairs with different weights; a missing half makes a one-way path
+ */
+function checkDirectedPairs(edges, findings) {
+  const directed = new Map(edges.filter((e) => e.directed).map((e) => [`${e.nodes[0]}-${e.nodes[1]}`, e]));
+  for (const edge of directed.values()) {
+    const [node1, node2] = edge.nodes;
+    const reverse = directed.get(`${node2}-${node1}`);
+    if (!reverse) {
+      const undirected = edges.some((e) => !e.directed && e.nodes.includes(node1) && e.nodes.includes(node2));
+      if (!undirected) {
+        findings.push({ severity: "warning", check: "directed", message: `${edgeLabel(edge)} has no [${node2}, ${node1}], so it's one-way` });
+      }
+      continue;
+    }
+    // Report each pair once
+    if (node1 > node2) continue;
+    if (edge.weight === reverse.weight) {
+      findings.push({ severity: "warning", check: "directed", message: `${edgeLabel(edge)} and ${edgeLabel(reverse)} have the same weight, so they could be one undirected edge` });
+    } else if (Math.max(edge.weight, reverse.weight) > MAX_DIRECTED_WEIGHT_RATIO * Math.min(edge.weight, reverse.weight)) {
+      findings.push({
+        severity: "warning",
+        check: "directed",
+        message: `${edgeLabel(edge)} (${edge.weight}s) and ${edgeLabel(reverse)} (${reverse.weight}s) differ by more than ${MAX_DIRECTED_WEIGHT_RATIO}x`,
+      });
+    }
+  }
+}
+
+/**
+ * Nodes the map has to lay out itself because they have no coordinates, and coordinates left over from
+ * nodes that are no longer on the graph
+ */
+function checkCoordinates(pack, edges, findings) {
+  const coordinates = pack.coordinates ?? {};
+  const nodes = new Set(edges.flatMap((e) => e.nodes));
+  const missing = [...nodes].filter((node) => !(node in coordinates)).sort((a, b) => a - b);
+  if (missing.length > 0) {
+    findings.push({ severity: "warning", check: "coordinates", message: `Nodes ${missing.join(", ")} have no coordinates, so the map places them automatically` });
+  }
+  const unused = Object.keys(coordinates).map(Number).filter((node) => !nodes.has(node));
+  if (unused.length > 0) {
+    findings.push({ severity: "warning", check: "coordinates", message: `Coordinates for nodes ${unused.join(", ")} aren't used, they aren't on any edge` });
+  }
+}
+
+/**
+ * Nodes reachable from `start` with the edges {@link GPS} would use for this player
+ */
+function reachableFrom(pack, start, playerState) {
+  const graph = new Map();
+  for (const edge of pack.edges) {
+    if (!meetsRequirements(edge.requires, playerState)) continue;
+    for (const [from, to] of hopsOf(edge)) {
+      if (!graph.has(from)) graph.set(from, []);
+      graph.get(from).push(to);
+    }
+  }
+  // Portals can be teleported to from any node
+  const portals = Object.values(pack.portals).map((p) => p.node);
+
+  const reached = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const node = queue.shift();
+    for (const next of [...(graph.get(node) ?? []), ...(graph.has(node) ? portals : [])]) {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return reached;
+}
+
+/**
+ * Player states where the graph changes: each skill just below every level an edge needs and at its
+ * maximum (with the other skills at theirs), each with and without the quests and items edges need
+ * @returns {Array<import("./unlocks").PlayerState>} Resolved states
+ */
+export function playerStates(pack) {
+  const requires = pack.edges.map((e) => e.requires ?? {});
+  const maxSkills = Object.fromEntries(Object.entries(pack.unlocks.skills).map(([key, skill]) => [key, skill.max]));
+  const allOf = (kind, value) => Object.fromEntries(Object.keys(pack.unlocks[kind]).map((key) => [key, value]));
+
+  const skillStates = [];
+  for (const skill of new Set(requires.flatMap((r) => Object.keys(r.skills ?? {})))) {
+    const levels = [...new Set(requires.map((r) => r.skills?.[skill]).filter((level) => typeof level === "number").map((level) => level - 1))]
+      .filter((level) => level >= 1)
+      .sort((a, b) => a - b);
+    levels.push(maxSkills[skill]);
+    skillStates.push(...levels.map((level) => ({ ...maxSkills, [skill]: level })));
+  }
+  if (skillStates.length === 0) skillStates.push(maxSkills);
+
+  const toggles = (kind) => (requires.some((r) => r[kind]?.length > 0) ? [false, true] : [true]);
+  const states = [];
+  const seen = new Set();
+  for (const skills of skillStates) {
+    for (const questsCompleted of toggles("quests")) {
+      for (const hasItems of toggles("items")) {
+        const state = { quests: allOf("quests", questsCompleted), skills, items: allOf("items", hasItems) };
+        const key = playerStateKey(state);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        states.push(state);
+      }
+    }
+  }
+  return states;
+}
+
+/**
+ * A state from {@link playerStates} as text, e.g. "Detective 50, quests not completed"
+ */
+function describeState(pack, state) {
+  const requires = pack.edges.map((e) => e.requires ?? {});
+  const parts = [];
+  for (const skill of new Set(requires.flatMap((r) => Object.keys(r.skills ?? {})))) {
+    parts.push(`${pack.unlocks.skills[skill]?.name ?? skill} ${state.skills[skill]}`);
+  }
+  if (requires.some((r) => r.quests?.length > 0)) {
+    parts.push(Object.values(state.quests).every(Boolean) ? "quests completed" : "quests not completed");
+  }
+  if (requires.some((r) => r.items?.length > 0)) {
+    parts.push(Object.values(state.items).every(Boolean) ? "all items" : "no items");
+  }
+  return parts.join(", ") || "Any player";
+}
+
+/**
+ * Markets that can't be reached from the bounty board, or can't get back to it, for each player state
+ */
+function checkReachability(pack, findings) {
+  const board = pack.bountyBoard.node;
+  for (const state of playerStates(pack)) {
+    const fromBoard = reachableFrom(pack, board, state);
+    const stranded = [];
+    for (const [key, market] of Object.entries(pack.markets)) {
+      const there = fromBoard.has(market.node);
+      const back = there && reachableFrom(pack, market.node, state).has(board);
+      if (there && back) continue;
+
+      const bounties = Object.entries(pack.bounties)
+        .filter(([, b]) => b.seller === key || b.buyer === key)
+        .map(([bountyKey]) => bountyKey);
+      stranded.push(`${market.name} (${there ? "no way back to the board" : "unreachable"}${bounties.length > 0 ? `; ${bounties.join(", ")}` : ""})`);
+    }
+    if (stranded.length > 0) {
+      findings.push({
+        severity: "error",
+        check: "reachability",
+        message: `${describeState(pack, state)}: ${stranded.join(", ")}`,
+      });
+    }
+  }
+}
+
+/**
+ * Checks the world graph of a game data pack against the conventions documented on {@link edges}
+ * and for problems that only show up at runtime, like a market that can't be reached
+ * ("No path found") at some skill level or without some quest or item. Includes the errors that stop the pack
+ * from loading (see {@link validateGameData})
+ * @param {import("./game-data").GameDataPack} pack
+ * @returns {GraphFinding[]}
+ */
+export function lintGraph(pack) {
+  const findings = validateGameData(pack).map((message) => ({ severity: "error", check: "pack", message }));
+
+  // Malformed entries are reported above; check the rest
+  const unlocksValid = validateUnlocks(pack.unlocks).length === 0;
+  const edges = (Array.isArray(pack.edges) ? pack.edges : []).filter(
+    (edge) =>
+      edge && Array.isArray(edge.nodes) && edge.nodes.length === 2 &&
+      (edge.requires === undefined || (unlocksValid && validateRequirements(edge.requires, pack.unlocks, "").length === 0))
+  );
+  checkOrdering(edges, findings);
+  checkDuplicates(edges, findings);
+  checkFields(edges, findings);
+  checkDirectedPairs(edges, findings);
+  if (pack.coordinates && typeof pack.coordinates === "object") {
+    checkCoordinates(pack, edges, findings);
+  }
+  if (pack.bountyBoard && pack.markets && pack.portals && pack.bounties && unlocksValid) {
+    checkReachability({ ...pack, edges }, findings);
+  }
+  return findings;
+}
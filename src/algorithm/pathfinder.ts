@@ -1,11 +1,18 @@
 //@ts-nocheck
-import { PriorityQueue } from "@datastructures-js/priority-queue";
-
 import GPS from "./gps";
-import combinations from "./combinations";
+import { countCombinations, kCombinations, takeBest } from "./combinations";
+import { solveRoute } from "./route-solver";
+import { routeSpread } from "./risk";
 import { BountyStatus } from "./bounties";
 import { bountyBoard, portals } from "./nodes";
-import { bounties as bountyData } from "./bounties";
+import {
+  bounties as bountyData,
+  DEFAULT_BOUNTY_QUANTITY,
+  DEFAULT_INVENTORY_SPACE,
+  getBountyKp,
+  isBountyAvailable,
+  MAX_MERCHANT_LEVEL,
+} from "./bounties";
 
 /**
  * @typedef {Object} Action
@@ -21,21 +28,52 @@ import { bounties as bountyData } from "./bounties";
  * @property {string[]} bounties Keys from {@link bountyData} representing the best bounties to complete
  * @property {Action[]} actions Actions to take to complete the bounties
  * @property {number} distance The total distance (time in seconds) it will take to complete the bounties
+ * @property {number} variance Variance of the time in seconds², from the encounters on hostile edges
+ * @property {number} p90 Time in seconds that 90% of runs finish within
  */
 
 /**
  * @typedef {Object} FindBestRouteResult
  * @property {Action[]} actions Actions to take to complete the bounties
- * @property {number} distance The total distance (time in seconds) it will take to complete the bounties
+ * @property {number} distance The total distance (time in seconds) it will take to complete the bounties.
+ *  With {@link RiskMode.WORST_CASE} this assumes every encounter happens, otherwise it's the average
+ * @property {number} variance Variance of the time in seconds², from the encounters on hostile edges
+ * @property {number} p90 Time in seconds that 90% of runs finish within
  */
 
+/**
+ * How a run ends once the final item has been sold
+ *
+ * RETURN_TO_BOARD: Walk back to the Guild Bounty Board
+ * END_ANYWHERE: Stop at the last market, the player makes their own way back
+ * END_AT_PORTAL: Teleport to the portal closest to the Guild Bounty Board
+ */
+export const RunEnding = {
+  RETURN_TO_BOARD: "return-to-board",
+  END_ANYWHERE: "end-anywhere",
+  END_AT_PORTAL: "end-at-portal",
+};
+
+/**
+ * Lazily applies a function to every item of an iterable
+ * @template T, R
+ * @param {Iterable<T>} items
+ * @param {(item: T) => R} fn
+ * @returns {Generator<R>}
+ */
+function* mapIterable(items, fn) {
+  for (const item of items) {
+    yield fn(item);
+  }
+}
+
 /**
  * Determines the best route to take to make all deliveries
  */
 class Pathfinder {
   includeTeleportSteps = true; // Whether to include teleport steps in the path
   includeWalkingSteps = false; // Whether to include walking steps in the path
-  inventorySpace = 24; // The maximum number of items that can be carried at once
+  inventorySpace = DEFAULT_INVENTORY_SPACE; // The maximum number of items that can be carried at once
   timeToBuy = 3; // The time in seconds it takes to buy an item
   timeToSell = 4; // The time in seconds it takes to sell an item
 
@@ -60,64 +98,87 @@ class Pathfinder {
    * @param {string[]} bounties An array of keys from {@link bountyData}
    *   These are be the bounties the player has already accepted
    *   E.g, [CARROTS, SOAP, ...]
-   * @param {number} detectiveLevel Level of players Detective skill, used to determine any additional rooms which can be accessed
-   * @param {boolean} battleOfFortuneholdCompleted Whether the player has completed the Battle of Fortunehold quest which unlocks an additional room
-   * @param {boolean} roundTrip Whether to return to the bounty board after completing all deliveries
+   * @param {import("./unlocks").PlayerState} playerState Quests, skill levels and items the player has, used to determine
+   *   any additional rooms which can be accessed
+   * @param {string | boolean} runEnding A {@link RunEnding} value describing how the run ends after the final sale.
+   *  For backwards compatibility `true` is treated as RETURN_TO_BOARD and `false` as END_ANYWHERE
    * @param {number} [numResults=5] (Optional) The number of bounty combinations return.
    *  If there are less than 5 possible combinations, all will be returned
    * @param {Object} [pruningOptions] (Optional) Options for pruning the search space
    * @param {number} [pruningOptions.maxCombinations=400] Maximum combinations to consider for large bounty sets
-   * @param {number} [pruningOptions.maxEvaluations=150] Maximum combinations to evaluate before stopping
+   * @param {number} [pruningOptions.maxEvaluations=Infinity] Maximum combinations to evaluate before stopping
    * @param {number} [pruningOptions.pruningThreshold=0.95] Threshold for pruning based on efficiency (0-1, where 1 = no pruning)
+   * @param {number} [merchantLevel] (Optional) Level of players Merchant skill, used to skip locked bounties and scale KP.
+   *  Defaults to {@link MAX_MERCHANT_LEVEL}
+   * @param {Object<string, number>} [bountyQuantities] (Optional) Items each bounty asks for, keyed by bounty.
+   *  Bounties not listed ask for {@link DEFAULT_BOUNTY_QUANTITY}
+   * @param {AbortSignal} [signal] (Optional) Stops the search, throwing the abort reason, when aborted
+   * @param {import("./risk").RiskSettings} [risk] (Optional) How hostile edges are weighed, defaults to average encounter times
    * @returns {FindBestBountiesResult[]} An array of objects containing the top {@link numResults} best bounties to complete
    */
   findBestBounties(
     bounties,
-    detectiveLevel,
-    battleOfFortuneholdCompleted,
-    roundTrip,
+    playerState,
+    runEnding,
     numResults = 5,
     pruningOptions = {},
+    merchantLevel = MAX_MERCHANT_LEVEL,
+    bountyQuantities = {},
+    signal = null,
+    risk = {},
   ) {
     const {
       maxCombinations = 400,
-      maxEvaluations = 150,
+      maxEvaluations = Infinity,
       pruningThreshold = 0.95,
     } = pruningOptions;
     let results = [];
 
-    const gps = new GPS(detectiveLevel, battleOfFortuneholdCompleted);
+    const gps = new GPS(playerState, null, {}, risk);
+
+    // Bounties above the players Merchant level cannot be accepted, so never suggest them
+    bounties = bounties.filter((bounty) => isBountyAvailable(bounty, merchantLevel));
 
     // Always aim for exactly 6 bounties (max inventory)
     // We want to maximize total KP, not KP/D efficiency, so always use maxComboSize
     const maxComboSize = Math.min(bounties.length, 6);
-    const combos = combinations(bounties, maxComboSize);
-    
+    const totalCombos = countCombinations(bounties, maxComboSize);
+
     if (maxCombinations === Infinity) {
-      console.log(`[optimal] Checking all combinations of size ${maxComboSize}, total combinations: ${combos.length}`);
+      console.log(`[optimal] Checking all combinations of size ${maxComboSize}, total combinations: ${totalCombos}`);
     }
 
-    // Pre-calculate KP and estimated distance for each combo
-    const comboData = combos.map((combo) => {
-      const kp = combo.reduce((acc, bounty) => acc + bountyData[bounty].kp, 0);
+    // Calculate KP and estimated distance for each combo as it is generated
+    const toComboData = (combo) => {
+      const kp = combo.reduce((acc, bounty) => acc + getBountyKp(bounty, merchantLevel), 0);
       const estimatedDistance = this.#estimateMinDistance(combo, gps);
-      
+
       return {
         combo,
         kp,
         estimatedDistance,
         estimatedEfficiency: kp / estimatedDistance,
       };
-    });
-
-    // Sort by estimated efficiency - this is much better than just KP
-    comboData.sort((a, b) => b.estimatedEfficiency - a.estimatedEfficiency);
+    };
+
+    // Exhaustive searches stream combinations straight into the solver. Otherwise only the
+    // maxCombinations with the best estimated efficiency are kept, best first
+    const comboData =
+      maxCombinations === Infinity
+        ? mapIterable(kCombinations(bounties, maxComboSize), toComboData)
+        : takeBest(
+            mapIterable(kCombinations(bounties, maxComboSize), toComboData),
+            maxCombinations,
+            (data) => data.estimatedEfficiency,
+          );
 
     const startTimestamp = Date.now();
     let evaluated = 0;
     let skipped = 0;
 
     for (const { combo, kp, estimatedEfficiency } of comboData) {
+      signal?.throwIfAborted();
+
       // Early termination only if pruning is enabled
       if (pruningThreshold < 1.0 && results.length >= numResults) {
         const worstResult = results[results.length - 1];
@@ -125,23 +186,24 @@ class Pathfinder {
         
         // Use configurable pruning threshold
         if (estimatedEfficiency < worstEfficiency * pruningThreshold) {
-          skipped = comboData.length - evaluated;
+          skipped = totalCombos - evaluated;
           break;
         }
       }
 
       // Also skip if we've evaluated enough and have good results (only if maxEvaluations is finite)
       if (maxEvaluations < Infinity && evaluated >= maxEvaluations && results.length >= numResults) {
-        skipped = comboData.length - evaluated;
+        skipped = totalCombos - evaluated;
         break;
       }
 
+      // A combo only makes the list if it beats the worst KP/D so far, which caps its distance
       const threshold =
         results.length >= numResults
-          ? results[results.length - 1].distance
+          ? kp / (results[results.length - 1].kp / results[results.length - 1].distance)
           : Number.MAX_SAFE_INTEGER;
 
-      const route = this.findBestRoute(combo, gps, threshold, roundTrip);
+      const route = this.findBestRoute(combo, gps, threshold, runEnding, combo.map((bounty) => bountyQuantities[bounty]));
       evaluated++;
 
       if (route === null) {
@@ -152,20 +214,26 @@ class Pathfinder {
         bounties: combo,
         actions: route.actions,
         distance: route.distance,
+        variance: route.variance,
+        p90: route.p90,
         kp,
       });
 
       // Keep only the best numResults, sorted by efficiency
+      results.sort((a, b) => b.kp / b.distance - a.kp / a.distance);
       if (results.length > numResults) {
-        results.sort((a, b) => b.kp / b.distance - a.kp / a.distance);
         results = results.slice(0, numResults);
       }
     }
 
+    if (skipped === 0) {
+      skipped = totalCombos - evaluated;
+    }
+
     results.sort((a, b) => b.kp / b.distance - a.kp / a.distance);
     
     const elapsed = Date.now() - startTimestamp;
-    console.log(`[perf] findBestBounties: ${(elapsed / 1000).toFixed(2)}s evaluated=${evaluated} skipped=${skipped} total=${comboData.length}`);
+    console.log(`[perf] findBestBounties: ${(elapsed / 1000).toFixed(2)}s evaluated=${evaluated} skipped=${skipped} total=${totalCombos}`);
     
     return results;
   }
@@ -175,196 +243,223 @@ class Pathfinder {
    * @param {string[]} bounties An array containing bounties {@link bountyData}. E.g, [CARROTS, SOAP, ...]
    * @param {GPS} gps An instance of the Gps class
    * @param {number} threshold This method will "give up" on paths that are longer than this distance
-   * @param {boolean} roundTrip Whether to return to the bounty board after completing all deliveries
+   * @param {string | boolean} runEnding A {@link RunEnding} value describing how the run ends after the final sale
+   * @param {(number | null | undefined)[]} [quantities] (Optional) Items each of the bounties asks for, in the same order,
+   *  so two slots offering the same bounty can differ. Unknown ones ask for {@link DEFAULT_BOUNTY_QUANTITY}
    * @returns {FindBestRouteResult | null}
    *  Returns an object containing the actions to take and the total distance
    *  Returns null if no route is found that is shorter than the threshold
    */
-  findBestRoute(bounties, gps, threshold = Number.MAX_SAFE_INTEGER, roundTrip) {
-    const pq = new PriorityQueue((a, b) => a.distance - b.distance);
-    const visited = new Map();
-    let bestDistance = threshold;
-
-    pq.enqueue({
-      distance: 0,
-      previousNode: null,
-      currentNode: bountyBoard.node,
-      bountyStates: [...new Array(bounties.length)].map(
-        () => BountyStatus.NOT_STARTED,
-      ),
-      actions: [],
+  findBestRoute(bounties, gps, threshold = Number.MAX_SAFE_INTEGER, runEnding, quantities) {
+    runEnding = this.#normalizeRunEnding(runEnding);
+    const slots = bounties.map((_, i) => quantities?.[i] ?? DEFAULT_BOUNTY_QUANTITY);
+
+    const solution = solveRoute(
+      {
+        startNode: bountyBoard.node,
+        sellerNodes: bounties.map((bounty) => bountyData[bounty].seller.node),
+        buyerNodes: bounties.map((bounty) => bountyData[bounty].buyer.node),
+        slots,
+        inventorySpace: this.inventorySpace,
+        timeToBuy: this.timeToBuy,
+        timeToSell: this.timeToSell,
+        travelTime: (node1, node2) => gps.distance(node1, node2).distance,
+        endingCost: (node) => this.#runEndingCost(gps, node, runEnding),
+      },
+      threshold,
+    );
+
+    if (solution === null) {
+      return null;
+    }
+
+    return this.#buildRoute(bounties, gps, solution.stops, solution.purchases, runEnding);
+  }
+
+  /**
+   * Replays a sequence of stops from {@link solveRoute} into the actions the player takes
+   * @param {string[]} bounties An array containing bounties {@link bountyData}
+   * @param {GPS} gps An instance of the Gps class
+   * @param {number[]} stops Nodes to stop at after leaving the bounty board, in order
+   * @param {number[][]} purchases Indices of the bounties bought at the bounty board, then at each stop
+   * @param {string} runEnding A {@link RunEnding} value
+   * @returns {FindBestRouteResult}
+   */
+  #buildRoute(bounties, gps, stops, purchases, runEnding) {
+    const bountyStates = bounties.map(() => BountyStatus.NOT_STARTED);
+    const actions = [];
+    const encounters = [];
+
+    let previousNode = null;
+    let currentNode = bountyBoard.node;
+    let distance = this.#visit(bounties, purchases[0], bountyStates, gps, actions, previousNode, currentNode, 0);
+
+    stops.forEach((nextNode, i) => {
+      const leg = gps.distance(currentNode, nextNode);
+      distance += leg.distance;
+      encounters.push(...leg.encounters);
+      previousNode = currentNode;
+      currentNode = nextNode;
+      distance = this.#visit(bounties, purchases[i + 1], bountyStates, gps, actions, previousNode, currentNode, distance);
     });
 
-    while (pq.size() > 0) {
-      const {
-        distance: originalDistance,
-        previousNode,
-        currentNode,
-        bountyStates: originalBountyStates,
-        actions: originalActions,
-      } = pq.dequeue();
-
-      // Early pruning: if this path is already longer than our best, skip it
-      if (originalDistance >= bestDistance) {
+    distance = this.#addRunEndingSteps(gps, actions, encounters, currentNode, distance, runEnding);
+    return { actions, distance, ...routeSpread(distance, encounters) };
+  }
+
+  /**
+   * Sells everything possible at a location, then buys the bounties the route picked for this stop
+   * @param {string[]} bounties An array containing bounties {@link bountyData}
+   * @param {number[]} toBuy Indices of the bounties to buy here, chosen by {@link solveRoute} to fit the inventory
+   * @param {number[]} bountyStates {@link BountyStatus} of each bounty, updated in place
+   * @param {GPS} gps An instance of the Gps class
+   * @param {Action[]} actions An array of actions, updated in place
+   * @param {number | null} previousNode Node of the previous stop
+   * @param {number} currentNode Node of the current stop
+   * @param {number} distance The total distance of the run so far
+   * @returns {number} The total distance of the run after this stop
+   */
+  #visit(bounties, toBuy, bountyStates, gps, actions, previousNode, currentNode, distance) {
+    let numItemsBought = 0;
+    let numItemsSold = 0;
+
+    // Sell everything we can at the current location
+    // It is important to sell items before purchasing to free up inventory space
+    for (let i = 0; i < bounties.length; i++) {
+      const bounty = bounties[i];
+      if (currentNode !== bountyData[bounty].buyer.node) {
         continue;
       }
 
-      // Avoid mutating the original arrays by creating copies
-      const bountyStates = [...originalBountyStates];
-      const actions = [...originalActions];
-
-      // Check if we have already found a shorter path to this location with the same deliveries
-      const visitedKey = `${currentNode}-${bountyStates}`;
-      if (
-        visited.has(visitedKey) &&
-        visited.get(visitedKey) <= originalDistance
-      ) {
+      if (bountyStates[i] !== BountyStatus.IN_PROGRESS) {
         continue;
       }
-      visited.set(visitedKey, originalDistance);
-
-      let distance = originalDistance;
-      let numItemsBought = 0;
-      let numItemsSold = 0;
-
-      // Sell everything we can at the current location
-      // It is important to sell items before purchasing to free up inventory space
-      for (let i = 0; i < bounties.length; i++) {
-        const bounty = bounties[i];
-        if (currentNode !== bountyData[bounty].buyer.node) {
-          continue;
-        }
 
-        if (bountyStates[i] !== BountyStatus.IN_PROGRESS) {
-          continue;
-        }
+      if (numItemsBought + numItemsSold === 0) {
+        this.#addTravelSteps(gps, actions, previousNode, currentNode);
+      }
 
-        if (numItemsBought + numItemsSold === 0) {
-          this.#addTravelSteps(gps, actions, previousNode, currentNode);
-        }
+      numItemsSold += 1;
+      distance += this.timeToSell;
 
-        numItemsSold += 1;
-        distance += this.timeToSell;
+      actions.push({
+        type: "sell",
+        item: bounty,
+        location: bountyData[bounty].buyer.name,
+        distance,
+      });
+      bountyStates[i] = BountyStatus.COMPLETED;
+    }
 
-        actions.push({
-          type: "sell",
-          item: bounty,
-          location: bountyData[bounty].buyer.name,
-          distance,
-        });
-        bountyStates[i] = BountyStatus.COMPLETED;
+    // Buy what the route picked for this location
+    for (const i of toBuy) {
+      const bounty = bounties[i];
+      if (numItemsBought + numItemsSold === 0) {
+        this.#addTravelSteps(gps, actions, previousNode, currentNode);
       }
 
-      // Buy everything we can at the current location
-      for (let i = 0; i < bounties.length; i++) {
-        if (!this.#canPurchaseMoreItems(bountyStates)) {
-          break;
-        }
+      if (numItemsBought === 0) {
+        distance += this.timeToBuy; // Buying more than one item takes no extra time
+      }
+      numItemsBought += 1;
 
-        const bounty = bounties[i];
-        if (currentNode !== bountyData[bounty].seller.node) {
-          continue;
-        }
+      actions.push({
+        type: "buy",
+        item: bounty,
+        location: bountyData[bounty].seller.name,
+        distance: distance,
+      });
+      bountyStates[i] = BountyStatus.IN_PROGRESS;
+    }
 
-        if (bountyStates[i] !== BountyStatus.NOT_STARTED) {
-          continue;
-        }
+    return distance;
+  }
 
-        if (numItemsBought + numItemsSold === 0) {
-          this.#addTravelSteps(gps, actions, previousNode, currentNode);
-        }
+  /**
+   * Converts the legacy `roundTrip` boolean into a {@link RunEnding} value
+   * @param {string | boolean | undefined} runEnding
+   * @returns {string} A {@link RunEnding} value
+   */
+  #normalizeRunEnding(runEnding) {
+    if (runEnding === true || runEnding === undefined) {
+      return RunEnding.RETURN_TO_BOARD;
+    }
+    if (runEnding === false) {
+      return RunEnding.END_ANYWHERE;
+    }
+    return runEnding;
+  }
 
-        if (numItemsBought === 0) {
-          distance += this.timeToBuy; // Buying more than one item takes no extra time
-        }
-        numItemsBought += 1;
+  /**
+   * Time needed to end the run after the final sale, matching {@link Pathfinder#addRunEndingSteps}
+   * @param {GPS} gps An instance of the Gps class
+   * @param {number} node Node where the final item was sold (reference {@link edges})
+   * @param {string} runEnding A {@link RunEnding} value
+   * @returns {number}
+   */
+  #runEndingCost(gps, node, runEnding) {
+    if (runEnding === RunEnding.RETURN_TO_BOARD) {
+      return node === bountyBoard.node ? 0 : gps.distance(node, bountyBoard.node).distance;
+    }
+    if (runEnding === RunEnding.END_AT_PORTAL) {
+      const portal = this.getPortalClosestToBoard(gps);
+      return node === portal.node ? 0 : portal.teleportTime;
+    }
+    return 0;
+  }
 
+  /**
+   * Updates the actions array with the steps needed to end the run after the final sale
+   * @param {GPS} gps An instance of the Gps class
+   * @param {Action[]} actions An array of actions
+   * @param {import("./risk").Encounter[]} encounters Encounters risked on the run so far, updated in place
+   * @param {number} currentNode Node where the final item was sold (reference {@link edges})
+   * @param {number} distance The total distance of the run so far
+   * @param {string} runEnding A {@link RunEnding} value
+   * @returns {number} The total distance of the run including the ending
+   */
+  #addRunEndingSteps(gps, actions, encounters, currentNode, distance, runEnding) {
+    if (runEnding === RunEnding.RETURN_TO_BOARD && currentNode !== bountyBoard.node) {
+      const leg = gps.distance(currentNode, bountyBoard.node);
+      distance += leg.distance;
+      encounters.push(...leg.encounters);
+      this.#addTravelSteps(gps, actions, currentNode, bountyBoard.node);
+      actions.push({
+        type: "return",
+        location: bountyBoard.name,
+        distance,
+      });
+    } else if (runEnding === RunEnding.END_AT_PORTAL) {
+      const portal = this.getPortalClosestToBoard(gps);
+      if (currentNode !== portal.node) {
+        distance += portal.teleportTime;
         actions.push({
-          type: "buy",
-          item: bounty,
-          location: bountyData[bounty].seller.name,
-          distance: distance,
+          type: "teleport",
+          location: portal.name,
+          distance,
         });
-        bountyStates[i] = BountyStatus.IN_PROGRESS;
-      }
-
-      // Give up on paths that are too long
-      if (distance >= bestDistance) {
-        continue;
       }
+    }
 
-      if (this.#deliveriesCompleted(bountyStates)) {
-        if (roundTrip && currentNode !== bountyBoard.node) {
-          distance += gps.distance(currentNode, bountyBoard.node).distance;
-          this.#addTravelSteps(gps, actions, currentNode, bountyBoard.node);
-          actions.push({
-            type: "return",
-            location: bountyBoard.name,
-            distance,
-          });
-          
-          if (distance < bestDistance) {
-            bestDistance = distance;
-            return { actions, distance };
-          }
-        } else {
-          if (distance < bestDistance) {
-            bestDistance = distance;
-            return { actions, distance };
-          }
-        }
-      }
+    return distance;
+  }
 
-      // Enqueue next purchase locations
-      if (this.#canPurchaseMoreItems(bountyStates)) {
-        bounties
-          .filter((b, i) => bountyStates[i] === BountyStatus.NOT_STARTED)
-          .forEach((bounty) => {
-            const nextNode = bountyData[bounty].seller.node;
-            const { distance: nextDistance } = gps.distance(
-              currentNode,
-              nextNode,
-            );
-            const newDistance = distance + nextDistance;
-            
-            // Skip if this would exceed our best distance
-            if (newDistance < bestDistance) {
-              pq.enqueue({
-                distance: newDistance,
-                previousNode: currentNode,
-                currentNode: nextNode,
-                bountyStates,
-                actions,
-              });
-            }
-          });
+  /**
+   * Finds the portal with the shortest walk back to the bounty board
+   * @param {GPS} gps An instance of the Gps class
+   * @returns {Object} An entry from {@link portals}
+   */
+  getPortalClosestToBoard(gps) {
+    let closest = null;
+    let closestDistance = Number.MAX_SAFE_INTEGER;
+    for (const portal of Object.values(portals)) {
+      const { distance } = gps.distance(portal.node, bountyBoard.node);
+      if (distance < closestDistance) {
+        closest = portal;
+        closestDistance = distance;
       }
-
-      // Enqueue next sell locations
-      bounties
-        .filter((d, i) => bountyStates[i] === BountyStatus.IN_PROGRESS)
-        .forEach((bounty) => {
-          const nextNode = bountyData[bounty].buyer.node;
-          const { distance: nextDistance } = gps.distance(
-            currentNode,
-            nextNode,
-          );
-          const newDistance = distance + nextDistance;
-          
-          // Skip if this would exceed our best distance
-          if (newDistance < bestDistance) {
-            pq.enqueue({
-              distance: newDistance,
-              previousNode: currentNode,
-              currentNode: nextNode,
-              bountyStates,
-              actions,
-            });
-          }
-        });
     }
-    
-    return null;
+    return closest;
   }
 
   /**
@@ -375,7 +470,7 @@ class Pathfinder {
    * @param {number} endNode Name of the ending location, (reference {@link edges})
    */
   #addTravelSteps(gps, actions, startNode, endNode) {
-    const { path } = gps.distance(startNode, endNode);
+    const path = gps.path(startNode, endNode);
     if (path.length < 2) {
       return;
     }
@@ -410,32 +505,6 @@ class Pathfinder {
       }
     }
   }
-
-  /**
-   * Determines if more items can be purchased / carried in the inventory
-   * @param {number[]} bountyStates An array of {@link BountyStatus} values representing the state of each bounty
-   * @returns {boolean} True if more items can be purchased, false otherwise
-   */
-  #canPurchaseMoreItems(bountyStates) {
-    let availableSpace = this.inventorySpace;
-
-    for (const state of bountyStates) {
-      if (state === BountyStatus.IN_PROGRESS) {
-        availableSpace -= 6;
-      }
-    }
-
-    return availableSpace >= 6;
-  }
-
-  /**
-   * Determines if all deliveries have been completed
-   * @param {number[]} bountyStates An array of {@link BountyStatus} values representing the state of each bounty
-   * @returns {boolean} True if all deliveries have been completed, false otherwise
-   */
-  #deliveriesCompleted(bountyStates) {
-    return bountyStates.every((state) => state === BountyStatus.COMPLETED);
-  }
 }
 
 export default new Pathfinder();
@@ -0,0 +1,103 @@
+//@ts-nocheck
+
+/**
+ * How hostile edges (see {@link edges}) are weighed when planning routes
+ */
+export const RiskMode = {
+  /** Every hostile edge costs its average encounter time, the fastest routes on average */
+  EXPECTED: "expected",
+  /** Walk around hostile edges unless the way around is much longer ({@link AVOID_HOSTILE_PENALTY}) */
+  AVOID_HOSTILE: "avoid-hostile",
+  /** Plan as if every hostile edge has an encounter, the most consistent times */
+  WORST_CASE: "worst-case",
+};
+
+/**
+ * Seconds a hostile edge costs on top of its time in {@link RiskMode.AVOID_HOSTILE}, so it's only taken when
+ * the way around is longer than this. Only paths are chosen with it, route times don't include it
+ */
+export const AVOID_HOSTILE_PENALTY = 60;
+
+/**
+ * @typedef {Object} RiskSettings
+ * @property {string} [mode] A {@link RiskMode} value. Default: expected
+ * @property {number} [encounterChance] Multiplies each hostile edge's `chanceOfEncounter` (capped at 1).
+ *    Default: 1
+ * @property {number} [encounterTime] Multiplies each hostile edge's `timeToResolve`, e.g. 2 for a player whose
+ *    fights take twice as long. Default: 1
+ */
+
+/**
+ * A possible encounter on a hop of a route
+ * @typedef {Object} Encounter
+ * @property {number} chance Chance of the encounter happening
+ * @property {number} time Seconds it takes when it happens
+ * @property {number} counted Seconds of it included in the hop's time: the average, or all of it in
+ *    {@link RiskMode.WORST_CASE}
+ */
+
+/**
+ * Fills in the defaults of risk settings
+ * @param {RiskSettings} [risk]
+ * @returns {{ mode: string, encounterChance: number, encounterTime: number }}
+ */
+export function resolveRisk(risk = {}) {
+  const mode = Object.values(RiskMode).includes(risk.mode) ? risk.mode : RiskMode.EXPECTED;
+  return {
+    mode,
+    encounterChance: Math.max(0, risk.encounterChance ?? 1),
+    encounterTime: Math.max(0, risk.encounterTime ?? 1),
+  };
+}
+
+/**
+ * The encounter a player risks on a hostile edge
+ * @param {Object} edge An entry of {@link edges}
+ * @param {RiskSettings} resolved From {@link resolveRisk}
+ * @returns {Encounter | null} Null if the edge isn't hostile
+ */
+export function encounterOf(edge, resolved) {
+  if (!edge.hostile) return null;
+  const chance = Math.min(1, edge.chanceOfEncounter * resolved.encounterChance);
+  const time = edge.timeToResolve * resolved.encounterTime;
+  const counted = resolved.mode === RiskMode.WORST_CASE ? (chance > 0 ? time : 0) : chance * time;
+  return { chance, time, counted };
+}
+
+/**
+ * How much a route's time can vary, from the encounters it risks
+ * @param {number} distance The route's time, including the `counted` part of every encounter
+ * @param {Encounter[]} encounters Every encounter risked along the route, once per time the hop is walked
+ * @returns {{ variance: number, p90: number }} Variance in seconds², and the time 90% of runs finish within
+ */
+export function routeSpread(distance, encounters) {
+  if (encounters.length === 0) {
+    return { variance: 0, p90: distance };
+  }
+
+  let base = distance;
+  let variance = 0;
+  // Chance of each total encounter time, in tenths of a second so equal totals add up
+  let outcomes = new Map([[0, 1]]);
+  for (const { chance, time, counted } of encounters) {
+    base -= counted;
+    variance += chance * (1 - chance) * time * time;
+    const next = new Map();
+    for (const [total, probability] of outcomes) {
+      const hit = total + Math.round(time * 10);
+      next.set(total, (next.get(total) ?? 0) + probability * (1 - chance));
+      next.set(hit, (next.get(hit) ?? 0) + probability * chance);
+    }
+    outcomes = next;
+  }
+
+  let cumulative = 0;
+  for (const total of [...outcomes.keys()].sort((a, b) => a - b)) {
+    cumulative += outcomes.get(total);
+    // Allow for rounding errors in the sum
+    if (cumulative >= 0.9 - 1e-9) {
+      return { variance, p90: base + total / 10 };
+    }
+  }
+  return { variance, p90: base + Math.max(...outcomes.keys()) / 10 };
+}
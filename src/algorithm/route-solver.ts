@@ -0,0 +1,380 @@
+//@ts-nocheck
+/**
+ * @typedef {Object} RouteProblem
+ * @property {number} startNode Node the run starts from (reference {@link edges})
+ * @property {number[]} sellerNodes Node where each bounty item is bought
+ * @property {number[]} buyerNodes Node where each bounty item is sold
+ * @property {number[]} slots Inventory slots each bounty takes up while carried
+ * @property {number} inventorySpace Total inventory slots
+ * @property {number} timeToBuy Time in seconds for a stop where at least one item is bought
+ * @property {number} timeToSell Time in seconds to sell one item
+ * @property {(node1: number, node2: number) => number} travelTime Shortest travel time between two nodes
+ * @property {(node: number) => number} endingCost Time to end the run after the final sale at a node
+ */
+
+/**
+ * @typedef {Object} RouteSolution
+ * @property {number[]} stops Nodes visited after the start node, in order. Something is bought or sold at every stop
+ * @property {number[][]} purchases Bounties (indices into the problem's arrays) bought at the start node and at
+ *    each of the stops, so `purchases[0]` is the start and `purchases[i + 1]` is `stops[i]`
+ * @property {number} distance The total distance (time in seconds) including the run ending
+ */
+
+/** Largest number of bounties a single route can hold, the state table grows as 4^n */
+export const MAX_ROUTE_BOUNTIES = 10;
+
+// Scratch buffers shared between calls. A state's entries are only valid when its stamp
+// matches the current generation, so nothing has to be cleared between solves.
+let bestCost = new Float64Array(0);
+let estimate = new Float64Array(0);
+let parent = new Int32Array(0);
+let stamp = new Int32Array(0);
+let estimateStamp = new Int32Array(0);
+let generation = 0;
+
+let heapF = new Float64Array(1024);
+let heapG = new Float64Array(1024);
+let heapId = new Int32Array(1024);
+let heapSize = 0;
+
+/**
+ * Finds the shortest route that buys and sells every bounty.
+ *
+ * Exact A* over (location, per-bounty status) states. Statuses are packed into an integer as
+ * two bitsets, `inProgress | completed << n` (bounties in neither are not started yet), and the
+ * state id is `mask * numLocations + location`, so costs and parent pointers live in flat typed
+ * arrays instead of copied arrays.
+ *
+ * At every stop the player sells everything they can, which only frees up inventory, and then buys
+ * any set of the bounties on offer there that fits. Each set is its own next state, since leaving a bounty
+ * for later can make room for one that is better to carry now.
+ *
+ * The heuristic is admissible: remaining sell time, one buy per seller location still to visit,
+ * and the furthest location still to visit plus the cheapest way to end the run from there, with
+ * travel times taken over the quickest chain of stops so they're never more than a route spends.
+ *
+ * @param {RouteProblem} problem
+ * @param {number} [threshold] Only routes strictly shorter than this are returned
+ * @returns {RouteSolution | null} The optimal route, or null if none is shorter than the threshold
+ */
+export function solveRoute(problem, threshold = Number.MAX_SAFE_INTEGER) {
+  const { startNode, sellerNodes, buyerNodes, slots, inventorySpace, timeToBuy, timeToSell } = problem;
+  const numBounties = sellerNodes.length;
+  if (numBounties > MAX_ROUTE_BOUNTIES) {
+    throw new Error(`Routes are limited to ${MAX_ROUTE_BOUNTIES} bounties, got ${numBounties}`);
+  }
+  const allBounties = (1 << numBounties) - 1;
+
+  // Only the start and the markets involved matter, everything else is just travel
+  const locations = [startNode];
+  const locationIndex = (node) => {
+    let index = locations.indexOf(node);
+    if (index === -1) {
+      index = locations.length;
+      locations.push(node);
+    }
+    return index;
+  };
+  const sellerLoc = sellerNodes.map(locationIndex);
+  const buyerLoc = buyerNodes.map(locationIndex);
+  const numLocations = locations.length;
+
+  // Bounties bought / sold at each location
+  const buysAt = new Int32Array(numLocations);
+  const sellsAt = new Int32Array(numLocations);
+  for (let i = 0; i < numBounties; i++) {
+    buysAt[sellerLoc[i]] |= 1 << i;
+    sellsAt[buyerLoc[i]] |= 1 << i;
+  }
+
+  // Inventory slots used by each set of carried bounties
+  const slotsUsed = new Float64Array(1 << numBounties);
+  for (let set = 1; set <= allBounties; set++) {
+    const lowest = 31 - Math.clz32(set & -set);
+    slotsUsed[set] = slotsUsed[set & (set - 1)] + slots[lowest];
+  }
+
+  const travel = new Float64Array(numLocations * numLocations);
+  for (let a = 0; a < numLocations; a++) {
+    for (let b = 0; b < numLocations; b++) {
+      travel[a * numLocations + b] = a === b ? 0 : problem.travelTime(locations[a], locations[b]);
+    }
+  }
+  const ending = locations.map((node) => problem.endingCost(node));
+
+  // Travel times needn't obey the triangle inequality (paths avoiding hostile edges can take longer than
+  // going via another stop), so the heuristic uses the shortest time over chains of stops instead
+  const shortest = travel.slice();
+  for (let k = 0; k < numLocations; k++) {
+    for (let a = 0; a < numLocations; a++) {
+      for (let b = 0; b < numLocations; b++) {
+        const via = shortest[a * numLocations + k] + shortest[k * numLocations + b];
+        if (via < shortest[a * numLocations + b]) shortest[a * numLocations + b] = via;
+      }
+    }
+  }
+
+  // Cheapest way to finish the run after visiting a location: travel to some final sale, then end
+  const toEnd = new Float64Array(numLocations);
+  for (let v = 0; v < numLocations; v++) {
+    let best = numBounties === 0 ? ending[v] : Number.MAX_SAFE_INTEGER;
+    for (const f of buyerLoc) {
+      best = Math.min(best, shortest[v * numLocations + f] + ending[f]);
+    }
+    toEnd[v] = best;
+  }
+
+  const completedMask = allBounties << numBounties;
+  const numStates = (1 << (2 * numBounties)) * numLocations;
+  prepareScratch(numStates);
+  heapSize = 0;
+
+  // Settles a stop: sells everything it can, then calls `onStop` with the resulting mask and the time
+  // spent for every set of purchases that fits. Stops where nothing happens are skipped
+  const visit = (loc, mask, onStop) => {
+    let inProgress = mask & allBounties;
+    let completed = mask >> numBounties;
+
+    const sold = inProgress & sellsAt[loc];
+    inProgress ^= sold;
+    completed |= sold;
+    const sellCost = popCount(sold) * timeToSell;
+
+    const buyable = buysAt[loc] & ~inProgress & ~completed;
+    // When everything left fits at once, space never runs out and buying all of it now is never worse
+    if (slotsUsed[allBounties & ~completed] <= inventorySpace) {
+      if (buyable) onStop((inProgress | buyable) | (completed << numBounties), sellCost + timeToBuy);
+      else if (sold) onStop(inProgress | (completed << numBounties), sellCost);
+      return;
+    }
+
+    // Walks every subset of `buyable`, the empty set last
+    for (let bought = buyable; ; bought = (bought - 1) & buyable) {
+      if (bought === 0) {
+        if (sold) onStop(inProgress | (completed << numBounties), sellCost);
+        break;
+      }
+      if (slotsUsed[inProgress | bought] <= inventorySpace) {
+        // Buying more than one item takes no extra time
+        onStop((inProgress | bought) | (completed << numBounties), sellCost + timeToBuy);
+      }
+    }
+  };
+
+  const heuristic = (loc, mask) => {
+    if (mask === completedMask) {
+      return ending[loc];
+    }
+    const completed = mask >> numBounties;
+    const notStarted = allBounties & ~(mask & allBounties) & ~completed;
+    let remaining = allBounties & ~completed;
+
+    let sellerLocsToVisit = 0;
+    let furthest = 0;
+    let actionTime = popCount(remaining) * timeToSell;
+    while (remaining) {
+      const bit = remaining & -remaining;
+      remaining ^= bit;
+      const i = 31 - Math.clz32(bit);
+      furthest = Math.max(furthest, shortest[loc * numLocations + buyerLoc[i]] + toEnd[buyerLoc[i]]);
+      if (notStarted & bit) {
+        sellerLocsToVisit |= 1 << sellerLoc[i];
+        furthest = Math.max(furthest, shortest[loc * numLocations + sellerLoc[i]] + toEnd[sellerLoc[i]]);
+      }
+    }
+    actionTime += popCount(sellerLocsToVisit) * timeToBuy;
+    return actionTime + furthest;
+  };
+
+  // Heuristic values only depend on the state, so compute each one once
+  const estimateFor = (id, loc, mask) => {
+    if (estimateStamp[id] !== generation) {
+      estimateStamp[id] = generation;
+      estimate[id] = heuristic(loc, mask);
+    }
+    return estimate[id];
+  };
+
+  let bound = threshold;
+  let bestGoal = -1;
+
+  // The run starts at the start node whether or not anything happens there
+  const startState = 0;
+  relax(startState, -1, 0, estimateFor(startState, 0, 0), bound);
+  visit(0, 0, (startMask, cost) => {
+    const id = startMask * numLocations;
+    relax(id, startState, cost, cost + estimateFor(id, 0, startMask), bound);
+  });
+
+  while (heapSize > 0) {
+    const f = heapF[0];
+    const g = heapG[0];
+    const id = heapId[0];
+    popHeap();
+
+    if (f >= bound) break;
+
+    // Goal entries are stored as -(state + 1) with g already including the run ending
+    if (id < 0) {
+      bestGoal = -id - 1;
+      bound = g;
+      break;
+    }
+    if (g > bestCost[id]) continue; // Stale entry
+
+    const loc = id % numLocations;
+    const mask = (id - loc) / numLocations;
+
+    if (mask === completedMask) {
+      const total = g + ending[loc];
+      if (total < bound) {
+        pushHeap(total, total, -(id + 1));
+      }
+      continue;
+    }
+
+    // Next stops are sellers of bounties not yet started and buyers of items being carried
+    const inProgress = mask & allBounties;
+    const notStarted = allBounties & ~inProgress & ~(mask >> numBounties);
+    let candidates = 0;
+    for (let i = 0; i < numBounties; i++) {
+      const bit = 1 << i;
+      if (inProgress & bit) {
+        candidates |= 1 << buyerLoc[i];
+      } else if (notStarted & bit && slotsUsed[inProgress | bit] <= inventorySpace) {
+        candidates |= 1 << sellerLoc[i];
+      }
+    }
+    candidates &= ~(1 << loc);
+
+    while (candidates) {
+      const next = 31 - Math.clz32(candidates);
+      candidates &= ~(1 << next);
+
+      const arrive = g + travel[loc * numLocations + next];
+      visit(next, mask, (nextMask, cost) => {
+        const nextG = arrive + cost;
+        const nextId = nextMask * numLocations + next;
+        if (nextG + estimateFor(nextId, next, nextMask) < bound) {
+          relax(nextId, id, nextG, nextG + estimate[nextId], bound);
+        }
+      });
+    }
+  }
+
+  if (bestGoal === -1) {
+    return null;
+  }
+
+  // Bounties bought at a stop are the ones started there
+  const started = (state) => {
+    const mask = (state - (state % numLocations)) / numLocations;
+    return (mask & allBounties) | (mask >> numBounties);
+  };
+  const stops = [];
+  const purchases = [];
+  let startPurchases = [];
+  for (let state = bestGoal; parent[state] !== -1; state = parent[state]) {
+    const bought = started(state) & ~started(parent[state]);
+    const indices = [];
+    for (let i = 0; i < numBounties; i++) {
+      if (bought & (1 << i)) indices.push(i);
+    }
+    // Only the stop made at the start node itself comes straight from the start state without moving
+    if (parent[state] === startState && state % numLocations === 0) {
+      startPurchases = indices;
+    } else {
+      stops.push(locations[state % numLocations]);
+      purchases.push(indices);
+    }
+  }
+  stops.reverse();
+  purchases.push(startPurchases);
+  purchases.reverse();
+
+  return { stops, purchases, distance: bound };
+}
+
+function popCount(bits) {
+  let count = 0;
+  while (bits) {
+    bits &= bits - 1;
+    count++;
+  }
+  return count;
+}
+
+function relax(id, from, g, f, bound) {
+  if (f >= bound) return;
+  if (stamp[id] === generation && bestCost[id] <= g) return;
+  stamp[id] = generation;
+  bestCost[id] = g;
+  parent[id] = from;
+  pushHeap(f, g, id);
+}
+
+function prepareScratch(numStates) {
+  if (bestCost.length < numStates) {
+    bestCost = new Float64Array(numStates);
+    estimate = new Float64Array(numStates);
+    parent = new Int32Array(numStates);
+    stamp = new Int32Array(numStates);
+    estimateStamp = new Int32Array(numStates);
+    generation = 0;
+  }
+  generation++;
+  if (generation === 0x7fffffff) {
+    stamp.fill(0);
+    estimateStamp.fill(0);
+    generation = 1;
+  }
+}
+
+function pushHeap(f, g, id) {
+  if (heapSize === heapF.length) {
+    const grow = (array) => {
+      const bigger = new array.constructor(array.length * 2);
+      bigger.set(array);
+      return bigger;
+    };
+    heapF = grow(heapF);
+    heapG = grow(heapG);
+    heapId = grow(heapId);
+  }
+
+  let i = heapSize++;
+  while (i > 0) {
+    const up = (i - 1) >> 1;
+    if (heapF[up] <= f) break;
+    heapF[i] = heapF[up];
+    heapG[i] = heapG[up];
+    heapId[i] = heapId[up];
+    i = up;
+  }
+  heapF[i] = f;
+  heapG[i] = g;
+  heapId[i] = id;
+}
+
+function popHeap() {
+  heapSize--;
+  if (heapSize === 0) return;
+
+  const f = heapF[heapSize];
+  const g = heapG[heapSize];
+  const id = heapId[heapSize];
+  let i = 0;
+  for (;;) {
+    let child = 2 * i + 1;
+    if (child >= heapSize) break;
+    if (child + 1 < heapSize && heapF[child + 1] < heapF[child]) child++;
+    if (heapF[child] >= f) break;
+    heapF[i] = heapF[child];
+    heapG[i] = heapG[child];
+    heapId[i] = heapId[child];
+    i = child;
+  }
+  heapF[i] = f;
+  heapG[i] = g;
+  heapId[i] = id;
+}
@@ -0,0 +1,82 @@
+//@ts-nocheck
+import { gameData } from "./game-data";
+
+/**
+ * Quests, skill levels and items open up parts of the world. Every unlock is named in the game data
+ * pack's `unlocks`, edges list the ones they need in `requires` (see {@link edges}), and the player's
+ * progress is a {@link PlayerState}, so a new unlock is added with data alone.
+ *
+ * @typedef {Object} Requirements
+ * @property {string[]} [quests] Quests that must be completed, keys of `unlocks.quests`
+ * @property {Object<string, number>} [skills] Lowest level needed, keyed by `unlocks.skills`
+ * @property {string[]} [items] Items the player must have, keys of `unlocks.items`
+ */
+
+/**
+ * What the player has unlocked. Unlocks that aren't listed take their `default` from the pack,
+ * so a state saved before an unlock was added still works
+ * @typedef {Object} PlayerState
+ * @property {Object<string, boolean>} [quests] Whether each quest is completed
+ * @property {Object<string, number>} [skills] Level of each skill
+ * @property {Object<string, boolean>} [items] Whether the player has each item
+ */
+
+/**
+ * Fills in every unlock of the pack, ignoring ones the pack doesn't know
+ * @param {PlayerState} [state] Defaults to the pack's defaults
+ * @param {import("./game-data").GameDataPack} [pack] Defaults to the game data in use
+ * @returns {{ quests: Object<string, boolean>, skills: Object<string, number>, items: Object<string, boolean> }}
+ */
+export function resolvePlayerState(state = {}, pack = gameData) {
+  const resolved = { quests: {}, skills: {}, items: {} };
+  for (const kind of ["quests", "items"]) {
+    for (const [key, unlock] of Object.entries(pack.unlocks[kind])) {
+      resolved[kind][key] = state[kind]?.[key] ?? unlock.default ?? false;
+    }
+  }
+  for (const [key, skill] of Object.entries(pack.unlocks.skills)) {
+    const level = state.skills?.[key] ?? skill.default ?? skill.max;
+    resolved.skills[key] = Math.max(1, Math.min(skill.max, level));
+  }
+  return resolved;
+}
+
+/**
+ * Whether a player can use an edge
+ * @param {Requirements | undefined} requires The edge's requirements
+ * @param {PlayerState} resolved From {@link resolvePlayerState}
+ * @returns {boolean}
+ */
+export function meetsRequirements(requires, resolved) {
+  if (!requires) return true;
+  return (
+    (requires.quests ?? []).every((quest) => resolved.quests[quest]) &&
+    Object.entries(requires.skills ?? {}).every(([skill, level]) => resolved.skills[skill] >= level) &&
+    (requires.items ?? []).every((item) => resolved.items[item])
+  );
+}
+
+/**
+ * Stable text for a resolved state, for cache keys: the same unlocks always give the same key
+ * @param {PlayerState} resolved From {@link resolvePlayerState}
+ * @returns {string}
+ */
+export function playerStateKey(resolved) {
+  const sorted = (values) => Object.keys(values).sort().map((key) => [key, values[key]]);
+  return JSON.stringify([sorted(resolved.quests), sorted(resolved.skills), sorted(resolved.items)]);
+}
+
+/**
+ * Requirements as text for reports, e.g. "Detective 83, Battle of Fortunehold"
+ * @param {Requirements} requires
+ * @param {import("./game-data").GameDataPack} [pack] Defaults to the game data in use
+ * @returns {string}
+ */
+export function describeRequirements(requires, pack = gameData) {
+  const nameOf = (kind, key) => pack.unlocks[kind][key]?.name ?? key;
+  return [
+    ...Object.entries(requires.skills ?? {}).map(([skill, level]) => `${nameOf("skills", skill)} ${level}`),
+    ...(requires.quests ?? []).map((quest) => nameOf("quests", quest)),
+    ...(requires.items ?? []).map((item) => nameOf("items", item)),
+  ].join(", ");
+}
@@ -0,0 +1,208 @@
+//@ts-nocheck
+import { gameData } from "./game-data";
+
+/**
+ * @typedef {Object} MapNode
+ * @property {number} node
+ * @property {number} x
+ * @property {number} y
+ * @property {"board" | "portal" | "market" | "door"} kind Doors are the nodes between rooms, see {@link edges}
+ * @property {string} [name] Name of the bounty board, portal or market
+ * @property {boolean} placed True if the position was laid out automatically because the pack has none
+ */
+
+/**
+ * @typedef {Object} WorldMap
+ * @property {string} dataVersion
+ * @property {number} width
+ * @property {number} height
+ * @property {MapNode[]} nodes
+ * @property {Array<{ nodes: [number, number], directed: boolean, hostile: boolean, portal: boolean }>} edges
+ */
+
+/**
+ * @typedef {Object} RouteLeg
+ * @property {number} step Index of the step the leg leads to
+ * @property {string} type The step's type, e.g. "buy"
+ * @property {string | number} location The step's location
+ * @property {number[]} nodes Nodes passed on the way, from where the previous step was to this one.
+ *    A teleport is just the two ends, and a step at the same place as the previous one is just that node
+ */
+
+/** Size of the area the map layout fits in */
+export const MAP_WIDTH = 1000;
+export const MAP_HEIGHT = 700;
+
+const LAYOUT_ITERATIONS = 400;
+const MARGIN = 30;
+
+function graphNodes(pack) {
+  return [...new Set(pack.edges.flatMap((edge) => edge.nodes))].sort((a, b) => a - b);
+}
+
+/**
+ * Positions every node of the graph for drawing. Nodes with `coordinates` in the pack stay where they
+ * are; the rest are placed by a force-directed layout (connected nodes pull together, all nodes push
+ * apart) that starts from their placed neighbours. The layout is deterministic, so the same pack always
+ * draws the same map.
+ * @param {import("./game-data").GameDataPack} pack
+ * @returns {Map<number, { x: number, y: number, placed: boolean }>}
+ */
+export function layoutMap(pack) {
+  const nodes = graphNodes(pack);
+  const neighbours = new Map(nodes.map((node) => [node, new Set()]));
+  for (const [node1, node2] of pack.edges.map((edge) => edge.nodes)) {
+    neighbours.get(node1).add(node2);
+    neighbours.get(node2).add(node1);
+  }
+
+  const positions = new Map();
+  for (const node of nodes) {
+    const fixed = pack.coordinates?.[node];
+    if (fixed) positions.set(node, { x: fixed[0], y: fixed[1], placed: false });
+  }
+  const free = nodes.filter((node) => !positions.has(node));
+  if (free.length === 0) return positions;
+
+  // Start next to the placed neighbours, or on a circle if there are none
+  free.forEach((node, i) => {
+    const placed = [...neighbours.get(node)].map((n) => positions.get(n)).filter(Boolean);
+    const angle = (2 * Math.PI * i) / free.length;
+    if (placed.length > 0) {
+      positions.set(node, {
+        x: placed.reduce((sum, p) => sum + p.x, 0) / placed.length + 20 * Math.cos(angle),
+        y: placed.reduce((sum, p) => sum + p.y, 0) / placed.length + 20 * Math.sin(angle),
+        placed: true,
+      });
+    } else {
+      positions.set(node, {
+        x: MAP_WIDTH / 2 + (MAP_WIDTH / 3) * Math.cos(angle),
+        y: MAP_HEIGHT / 2 + (MAP_HEIGHT / 3) * Math.sin(angle),
+        placed: true,
+      });
+    }
+  });
+
+  // Fruchterman-Reingold, cooling linearly
+  const k = Math.sqrt((MAP_WIDTH * MAP_HEIGHT) / nodes.length) * 0.8;
+  for (let iteration = 0; iteration < LAYOUT_ITERATIONS; iteration++) {
+    const temperature = (MAP_WIDTH / 10) * (1 - iteration / LAYOUT_ITERATIONS);
+    const moves = new Map(free.map((node) => [node, { x: 0, y: 0 }]));
+
+    for (const node of free) {
+      const p = positions.get(node);
+      const move = moves.get(node);
+      for (const other of nodes) {
+        if (other === node) continue;
+        const q = positions.get(other);
+        const dx = p.x - q.x || 0.01;
+        const dy = p.y - q.y || 0.01;
+        const distance = Math.max(0.01, Math.hypot(dx, dy));
+        let force = (k * k) / distance;
+        if (neighbours.get(node).has(other)) force -= (distance * distance) / k;
+        move.x += (dx / distance) * force;
+        move.y += (dy / distance) * force;
+      }
+    }
+
+    for (const node of free) {
+      const p = positions.get(node);
+      const move = moves.get(node);
+      const length = Math.hypot(move.x, move.y);
+      if (length === 0) continue;
+      const step = Math.min(length, temperature);
+      p.x += (move.x / length) * step;
+      p.y += (move.y / length) * step;
+    }
+  }
+
+  // With nothing fixed the whole layout is scaled to fit, otherwise the placed nodes are kept inside
+  const fit = { x: (x) => x, y: (y) => y };
+  if (free.length === nodes.length) {
+    const xs = free.map((node) => positions.get(node).x);
+    const ys = free.map((node) => positions.get(node).y);
+    const [minX, minY] = [Math.min(...xs), Math.min(...ys)];
+    const scaleX = (MAP_WIDTH - 2 * MARGIN) / (Math.max(...xs) - minX || 1);
+    const scaleY = (MAP_HEIGHT - 2 * MARGIN) / (Math.max(...ys) - minY || 1);
+    fit.x = (x) => MARGIN + (x - minX) * scaleX;
+    fit.y = (y) => MARGIN + (y - minY) * scaleY;
+  }
+  for (const node of free) {
+    const p = positions.get(node);
+    p.x = Math.round(Math.min(MAP_WIDTH - MARGIN, Math.max(MARGIN, fit.x(p.x))));
+    p.y = Math.round(Math.min(MAP_HEIGHT - MARGIN, Math.max(MARGIN, fit.y(p.y))));
+  }
+  return positions;
+}
+
+/**
+ * Everything the settings window needs to draw the world: positioned nodes with the bounty board,
+ * portals and markets named, and the edges between them
+ * @param {import("./game-data").GameDataPack} [pack] Defaults to the game data in use
+ * @returns {WorldMap}
+ */
+export function buildWorldMap(pack = gameData) {
+  const places = new Map();
+  places.set(pack.bountyBoard.node, { kind: "board", name: pack.bountyBoard.name });
+  for (const portal of Object.values(pack.portals)) places.set(portal.node, { kind: "portal", name: portal.name });
+  for (const market of Object.values(pack.markets)) places.set(market.node, { kind: "market", name: market.name });
+
+  const positions = layoutMap(pack);
+  return {
+    dataVersion: pack.dataVersion,
+    width: MAP_WIDTH,
+    height: MAP_HEIGHT,
+    nodes: [...positions.entries()].map(([node, p]) => ({
+      node,
+      x: p.x,
+      y: p.y,
+      kind: places.get(node)?.kind ?? "door",
+      ...(places.has(node) ? { name: places.get(node).name } : {}),
+      placed: p.placed,
+    })),
+    edges: pack.edges.map((edge) => ({
+      nodes: edge.nodes,
+      directed: !!edge.directed,
+      hostile: !!edge.hostile,
+      portal: !!edge.portal,
+    })),
+  };
+}
+
+/**
+ * Node of a step's location: walk steps are already a node, the rest name the board, a portal or a market
+ * @param {string | number} location
+ * @param {import("./game-data").GameDataPack} pack
+ * @returns {number | undefined}
+ */
+function nodeOf(location, pack) {
+  if (typeof location === "number") return location;
+  if (location === pack.bountyBoard.name) return pack.bountyBoard.node;
+  const place = [...Object.values(pack.portals), ...Object.values(pack.markets)].find((p) => p.name === location);
+  return place?.node;
+}
+
+/**
+ * Expands a route into the nodes walked for each step, the same way {@link Pathfinder} planned it
+ * @param {import("./pathfinder").Action[]} actions The route, as returned by {@link Pathfinder#findBestRoute}
+ * @param {import("./gps").default} gps GPS for the graph the route was planned with
+ * @param {string | number} [start] Where the player is before the first step, defaults to the bounty board
+ * @param {import("./game-data").GameDataPack} [pack] Defaults to the game data in use
+ * @returns {RouteLeg[]} One leg per action. Actions at an unknown location have no nodes
+ */
+export function routeLegs(actions, gps, start = gameData.bountyBoard.node, pack = gameData) {
+  let current = nodeOf(start, pack) ?? pack.bountyBoard.node;
+  return actions.map((action, step) => {
+    const node = nodeOf(action.location, pack);
+    let nodes = [];
+    if (node !== undefined) {
+      if (node === current) {
+        nodes = [node];
+      } else {
+        nodes = action.type === "teleport" ? [current, node] : gps.path(current, node);
+      }
+      current = node;
+    }
+    return { step, type: action.type, location: action.location, nodes };
+  });
+}
@@ -0,0 +1,241 @@
+import { Config, ConfigIssue } from './types';
+import { validateConfig } from './schema';
+import { CONFIG_VERSION, migrateConfig } from './migrations';
+import { WindowSize, getProfileKey, nearestProfile, toRelative } from '../ui/region-manager';
+
+export const BUNDLE_FORMAT = 'brighter-merchant-settings';
+
+/**
+ * Parts of a config that can be shared. Machine-specific settings (OCR engine, recording,
+ * update checks) are never exported.
+ */
+export type BundleSection = 'settings' | 'shortcuts' | 'regions';
+
+const SECTION_KEYS: { [section in BundleSection]: (keyof Config)[] } = {
+  settings: [
+    'chatBoxFontSize',
+    'inventorySpace',
+    'merchantLevel',
+    'pathfindingQuality',
+    'playerState',
+    'routingRisk',
+    'runEnding',
+    'travelCalibration',
+  ],
+  shortcuts: ['keyboardShortcuts'],
+  regions: ['regions', 'regionProfiles'],
+};
+
+export const BUNDLE_SECTIONS = Object.keys(SECTION_KEYS) as BundleSection[];
+
+/**
+ * Portable export of part of a profile's config, for sharing a region layout or shortcut set
+ */
+export interface SettingsBundle {
+  format: typeof BUNDLE_FORMAT;
+  appVersion: string;
+  exportedAt: string;
+  /** Name of the profile it was exported from */
+  profile: string;
+  /** Version of the config layout, so older bundles are migrated like config files */
+  configVersion: number;
+  sections: BundleSection[];
+  config: Config;
+}
+
+export interface ImportOptions {
+  sections: BundleSection[];
+  /** 'merge' keeps saved window sizes the bundle doesn't have, 'replace' keeps only the bundle's */
+  regionProfiles: 'merge' | 'replace';
+  /** Current game window, whose saved profile would otherwise win over imported regions */
+  windowSize?: WindowSize | null;
+}
+
+export interface BundleChange {
+  section: BundleSection;
+  path: string;
+  current: string;
+  incoming: string;
+}
+
+export function createBundle(config: Config, profile: string, appVersion: string, sections: BundleSection[]): SettingsBundle {
+  const exported: { [key: string]: any } = {};
+  for (const section of sections) {
+    for (const key of SECTION_KEYS[section]) {
+      if (config[key] !== undefined) exported[key] = config[key];
+    }
+  }
+  return {
+    format: BUNDLE_FORMAT,
+    appVersion,
+    exportedAt: new Date().toISOString(),
+    profile,
+    configVersion: config.configVersion ?? CONFIG_VERSION,
+    sections,
+    config: JSON.parse(JSON.stringify(exported)),
+  };
+}
+
+/**
+ * Read an exported bundle, migrating and validating its config like a config file.
+ * Only the sections it was exported with are kept; invalid values are fixed or dropped and reported.
+ * @throws If the text isn't a settings bundle
+ */
+export function parseBundle(text: string, file: string): { bundle: SettingsBundle; issues: ConfigIssue[] } {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Not valid JSON: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!raw || raw.format !== BUNDLE_FORMAT || !raw.config || typeof raw.config !== 'object') {
+    throw new Error("Not a Brighter Merchant settings export");
+  }
+
+  const sections = (Array.isArray(raw.sections) ? raw.sections : []).filter((s: string): s is BundleSection => s in SECTION_KEYS);
+  if (sections.length === 0) {
+    throw new Error('The export contains no settings');
+  }
+
+  const issues: ConfigIssue[] = [];
+  const version = Number.isInteger(raw.configVersion) ? raw.configVersion : 1;
+  if (version > CONFIG_VERSION) {
+    issues.push({ file, path: 'configVersion', message: `Exported from a newer version of the app (${raw.appVersion ?? 'unknown'}); settings this version doesn't know are skipped` });
+  }
+  const migrated = version > CONFIG_VERSION ? raw.config : migrateConfig(raw.config, version).config;
+
+  // Validation fills in every missing setting, so keep only what was exported
+  const keys = sections.flatMap((section: BundleSection) => SECTION_KEYS[section]).filter((key: string) => key in migrated);
+  const result = validateConfig(migrated, file);
+  const config: { [key: string]: any } = {};
+  for (const key of keys) {
+    config[key] = result.value[key];
+  }
+  issues.push(...result.issues.filter(issue => keys.includes(issue.path.split('.')[0] as keyof Config)));
+
+  return {
+    bundle: {
+      format: BUNDLE_FORMAT,
+      appVersion: String(raw.appVersion ?? 'unknown'),
+      exportedAt: String(raw.exportedAt ?? ''),
+      profile: String(raw.profile ?? ''),
+      configVersion: CONFIG_VERSION,
+      sections,
+      config,
+    },
+    issues,
+  };
+}
+
+/**
+ * The config after importing the bundle's chosen sections into it. Shortcuts and regions are merged
+ * key by key, so ones missing from the bundle are kept. Imported regions also become the profile
+ * for the current window size, as a profile saved for it would otherwise keep being used.
+ */
+export function mergeBundle(current: Config, bundle: SettingsBundle, options: ImportOptions): Config {
+  const merged: Config = JSON.parse(JSON.stringify(current));
+  const incoming = bundle.config;
+  const sections = options.sections.filter(section => bundle.sections.includes(section));
+
+  if (sections.includes('settings')) {
+    for (const key of SECTION_KEYS.settings) {
+      if (incoming[key] !== undefined) (merged as any)[key] = incoming[key];
+    }
+  }
+  if (sections.includes('shortcuts') && incoming.keyboardShortcuts) {
+    merged.keyboardShortcuts = { ...merged.keyboardShortcuts, ...incoming.keyboardShortcuts };
+  }
+  if (sections.includes('regions')) {
+    if (incoming.regions) {
+      merged.regions = { ...merged.regions, ...incoming.regions };
+    }
+    if (incoming.regionProfiles) {
+      merged.regionProfiles = options.regionProfiles === 'replace'
+        ? { ...incoming.regionProfiles }
+        : { ...merged.regionProfiles, ...incoming.regionProfiles };
+    }
+    if (options.windowSize && (incoming.regions || incoming.regionProfiles)) {
+      importForWindow(merged, incoming, options.windowSize);
+    }
+  }
+  return JSON.parse(JSON.stringify(merged));
+}
+
+/**
+ * Regions are read from the profile for the current window size, so make that profile the imported
+ * layout: the bundle's profile for the most similar window, else its regions as placed for this window
+ */
+function importForWindow(merged: Config, incoming: Config, size: WindowSize): void {
+  const key = getProfileKey(size);
+  if (incoming.regionProfiles?.[key]) return;
+
+  const window = { windowWidth: size.width, windowHeight: size.height, dpiScale: size.dpiScale };
+  const nearest = incoming.regionProfiles ? nearestProfile(incoming.regionProfiles, size) : null;
+  if (nearest) {
+    merged.regionProfiles = { ...merged.regionProfiles, [key]: { ...incoming.regionProfiles![nearest], ...window } };
+    return;
+  }
+  if (!merged.regionProfiles?.[key] || !incoming.regions) return;
+  const regions = { ...merged.regionProfiles[key].regions };
+  for (const [id, region] of Object.entries(incoming.regions)) {
+    regions[id] = toRelative(region, size);
+  }
+  merged.regionProfiles = { ...merged.regionProfiles, [key]: { ...window, regions } };
+}
+
+function round(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function formatValue(value: any): string {
+  if (value === undefined) return '(none)';
+  if (value && typeof value === 'object') {
+    if ('x' in value && 'y' in value && 'width' in value && 'height' in value) {
+      return `${round(value.x)}, ${round(value.y)} ${round(value.width)}×${round(value.height)}`;
+    }
+    if ('windowWidth' in value && value.regions) {
+      return `${value.windowWidth}×${value.windowHeight} @ ${Math.round(value.dpiScale * 100)}%, ${Object.keys(value.regions).length} regions`;
+    }
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * What importing the bundle with these options would change, one entry per setting, shortcut,
+ * region or window size
+ */
+export function diffBundle(current: Config, bundle: SettingsBundle, options: ImportOptions): BundleChange[] {
+  const merged = mergeBundle(current, bundle, options);
+  const changes: BundleChange[] = [];
+
+  const compare = (section: BundleSection, path: string, before: any, after: any) => {
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ section, path, current: formatValue(before), incoming: formatValue(after) });
+    }
+  };
+
+  for (const section of BUNDLE_SECTIONS) {
+    for (const key of SECTION_KEYS[section]) {
+      const before: any = current[key];
+      const after: any = merged[key];
+      if (key === 'playerState') {
+        for (const kind of ['quests', 'skills', 'items'] as const) {
+          const names = new Set([...Object.keys(before?.[kind] ?? {}), ...Object.keys(after?.[kind] ?? {})]);
+          for (const name of [...names].sort()) {
+            compare(section, `${key}.${kind}.${name}`, before?.[kind]?.[name], after?.[kind]?.[name]);
+          }
+        }
+        continue;
+      }
+      if (section === 'settings') {
+        compare(section, key, before, after);
+        continue;
+      }
+      const names = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+      for (const name of [...names].sort()) {
+        compare(section, `${key}.${name}`, before?.[name], after?.[name]);
+      }
+    }
+  }
+  return changes;
+}
@@ -1,18 +1,32 @@
+import { bounties } from '../../algorithm/bounties';
+import { Regions, RoutingRisk } from './types';
+
 // Application constants
 export const WINDOW_TITLE = "Brighter Shores";
 export const SCREENSHOT_INTERVAL_MS = 1000;      // Full OCR when board is open
 export const BOARD_CHECK_INTERVAL_MS = 300;      // Fast check for board open state
 export const ACTIVE_BOUNTY_INTERVAL_MS = 1000;   // Slower check for active bounties when board closed
 
-// Bounty names for OCR detection
-export const BOUNTY_NAMES = new Set([
-  "Carrots", "Soap", "Ribs", "MeatWrap", "BeefJoint", "ClockworkSheep",
-  "PorcelainDoll", "Plates", "PinBadge", "Pumpkin", "Pizza", "Bananas",
-  "TinPocketWatch", "HomespunCloth", "RainbowCheese", "ArganianWine", "OakPatternedVase",
-  "ScentedCandle", "UnicornDust", "Painting", "CarriageClock", "Spectacles",
-  "SharpseedWine", "Rug", "Caviar", "BathSalts", "Cabbage", "SwirlPearl", "Tomatoes", "Steak", "Burger",
-  "HamLeg", "ClockworkDragon", "SnowGlobe", "Cups", "Postcards", "Rhubarb", "Curry",
-  "Oranges", "PrecisePocketWatch", "Silk", "OldRarg", "FargustWine", "StripedVase",
-  "TeaLights", "UnicornHair", "PortraitPainting", "PendulumClock",
-  "TophillWine", "AntiqueBook", "Truffles"
-]);
+// Average encounter times on hostile edges, as the game data measures them
+export const DEFAULT_ROUTING_RISK: RoutingRisk = { mode: 'expected', encounterChance: 1, encounterTime: 1 };
+
+// Bounty names for OCR detection, from the game data
+export const BOUNTY_NAMES = new Set<string>(Object.values(bounties).map(bounty => bounty.name));
+
+// Regions for the default window layout, until they are moved or a profile is saved
+export const DEFAULT_REGIONS: Regions = {
+  activeBountyRegion1: { x: 20, y: 150, width: 300, height: 70, color: 'rgba(0, 0, 0, 0.65)', title: 'Active Bounty 1' },
+  activeBountyRegion2: { x: 20, y: 230, width: 300, height: 70, color: 'rgba(0, 0, 0, 0.65)', title: 'Active Bounty 2' },
+  activeBountyRegion3: { x: 20, y: 310, width: 300, height: 70, color: 'rgba(0, 0, 0, 0.65)', title: 'Active Bounty 3' },
+  activeBountyRegion4: { x: 20, y: 390, width: 300, height: 70, color: 'rgba(0, 0, 0, 0.65)', title: 'Active Bounty 4' },
+  activeBountyRegion5: { x: 20, y: 470, width: 300, height: 70, color: 'rgba(0, 0, 0, 0.65)', title: 'Active Bounty 5' },
+  activeBountyRegion6: { x: 20, y: 550, width: 300, height: 70, color: 'rgba(0, 0, 0, 0.65)', title: 'Active Bounty 6' },
+  boardRegion1: { x: 500, y: 80, width: 380, height: 100, color: 'rgba(0, 0, 0, 0.65)', title: 'Guild Board 1' },
+  boardRegion2: { x: 500, y: 190, width: 380, height: 100, color: 'rgba(0, 0, 0, 0.65)', title: 'Guild Board 2' },
+  boardRegion3: { x: 500, y: 300, width: 380, height: 100, color: 'rgba(0, 0, 0, 0.65)', title: 'Guild Board 3' },
+  boardRegion4: { x: 500, y: 410, width: 380, height: 100, color: 'rgba(0, 0, 0, 0.65)', title: 'Guild Board 4' },
+  boardRegion5: { x: 500, y: 520, width: 380, height: 100, color: 'rgba(0, 0, 0, 0.65)', title: 'Guild Board 5' },
+  boardRegion6: { x: 500, y: 630, width: 380, height: 100, color: 'rgba(0, 0, 0, 0.65)', title: 'Guild Board 6' },
+  bountyBoardTitleRegion: { x: 580, y: 20, width: 220, height: 50, color: 'rgba(0, 0, 0, 0.7)', title: 'Board Title' },
+  chatRegion: { x: 350, y: 650, width: 1000, height: 255, color: 'rgba(42, 42, 42, 0.9)', title: 'Chat Box' },
+};
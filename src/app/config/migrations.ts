@@ -0,0 +1,72 @@
+/**
+ * Current config file version. Files without `configVersion` are version 1.
+ * Bump it and add a migration whenever a change to the config needs more than the schema's
+ * defaults and removal of unknown keys, e.g. moving or renaming a value.
+ */
+export const CONFIG_VERSION = 3;
+
+export interface ConfigMigration {
+  /** Version the config has after this migration */
+  version: number;
+  description: string;
+  /** Takes the parsed file at the previous version, may change it in place */
+  migrate: (config: { [key: string]: any }) => { [key: string]: any };
+}
+
+// In order of version
+export const MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 2,
+    description: 'Move region-only files into "regions", keep only position and size of regions, drop timerRegion',
+    migrate: (config) => {
+      // The first versions saved just the regions
+      const looksLikeRegions = Object.keys(config).length > 0 &&
+        Object.values(config).every(value => value && typeof value === 'object' && 'x' in value && 'y' in value);
+      if (looksLikeRegions) {
+        config = { regions: config };
+      }
+
+      if (config.regions && typeof config.regions === 'object') {
+        delete config.regions.timerRegion;
+        for (const [key, region] of Object.entries<any>(config.regions)) {
+          if (region && typeof region === 'object') {
+            config.regions[key] = { x: region.x, y: region.y, width: region.width, height: region.height };
+          }
+        }
+      }
+      return config;
+    },
+  },
+  {
+    version: 3,
+    description: 'Move detectiveLevel and isBattleOfFortuneholdCompleted into playerState',
+    migrate: (config) => {
+      const playerState = config.playerState && typeof config.playerState === 'object' ? config.playerState : { quests: {}, skills: {}, items: {} };
+      if (typeof config.detectiveLevel === 'number') {
+        playerState.skills = { ...playerState.skills, detective: config.detectiveLevel };
+      }
+      if (typeof config.isBattleOfFortuneholdCompleted === 'boolean') {
+        playerState.quests = { ...playerState.quests, BATTLE_OF_FORTUNEHOLD: config.isBattleOfFortuneholdCompleted };
+      }
+      delete config.detectiveLevel;
+      delete config.isBattleOfFortuneholdCompleted;
+      config.playerState = playerState;
+      return config;
+    },
+  },
+];
+
+/**
+ * Run the migrations after `fromVersion` in order
+ * @returns The migrated config and the migrations that were applied
+ */
+export function migrateConfig(config: { [key: string]: any }, fromVersion: number): { config: { [key: string]: any }; applied: ConfigMigration[] } {
+  const applied: ConfigMigration[] = [];
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    config = migration.migrate(config);
+    config.configVersion = migration.version;
+    applied.push(migration);
+  }
+  return { config, applied };
+}
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAppDataDir, getCalibrationPath, getHistoryDir } from '../utils/paths';
+
+/**
+ * The profile that was the only config before profiles existed. It stays in the app data directory
+ * (config.json, history/) so existing installs keep their settings, and can't be renamed or deleted.
+ */
+export const DEFAULT_PROFILE = 'Default';
+
+// Names are used as directory names, so keep them portable
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9 _-]{1,32}$/;
+
+function getProfilesDir(): string {
+  return path.join(getAppDataDir(), 'profiles');
+}
+
+function getActiveProfilePath(): string {
+  return path.join(getAppDataDir(), 'profiles.json');
+}
+
+/**
+ * Directory holding a profile's config.json, calibration.json and history/
+ */
+export function getProfileDir(name: string): string {
+  return name === DEFAULT_PROFILE ? getAppDataDir() : path.join(getProfilesDir(), name);
+}
+
+export function getProfileConfigPath(name: string): string {
+  return path.join(getProfileDir(name), 'config.json');
+}
+
+export function getProfileHistoryDir(name: string): string {
+  return name === DEFAULT_PROFILE ? getHistoryDir() : path.join(getProfileDir(name), 'history');
+}
+
+export function getProfileCalibrationPath(name: string): string {
+  return name === DEFAULT_PROFILE ? getCalibrationPath() : path.join(getProfileDir(name), 'calibration.json');
+}
+
+/**
+ * All profiles, the default first
+ */
+export function listProfiles(): string[] {
+  const dir = getProfilesDir();
+  const names = fs.existsSync(dir)
+    ? fs.readdirSync(dir, { withFileTypes: true }).filter(e => e.isDirectory()).map(e => e.name).sort((a, b) => a.localeCompare(b))
+    : [];
+  return [DEFAULT_PROFILE, ...names];
+}
+
+/**
+ * Names differing only in case would share a folder on Windows and macOS, so they count as the same
+ */
+function profileExists(name: string, except?: string): boolean {
+  return listProfiles().some(p => p !== except && p.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Name of the profile in use, the default if none was chosen or it no longer exists
+ */
+export function getActiveProfile(): string {
+  try {
+    const { active } = JSON.parse(fs.readFileSync(getActiveProfilePath(), 'utf8'));
+    if (typeof active === 'string' && listProfiles().includes(active)) return active;
+  } catch {
+    // No profile chosen yet
+  }
+  return DEFAULT_PROFILE;
+}
+
+/**
+ * @throws If the profile doesn't exist
+ */
+export function setActiveProfile(name: string): void {
+  if (!listProfiles().includes(name)) {
+    throw new Error(`Profile "${name}" doesn't exist`);
+  }
+  fs.mkdirSync(getAppDataDir(), { recursive: true });
+  fs.writeFileSync(getActiveProfilePath(), JSON.stringify({ active: name }, null, 2), 'utf8');
+  console.log('[profiles] Active profile:', name);
+}
+
+/**
+ * @param renaming Profile being renamed, which may keep its name in a different case
+ */
+function validateNewName(name: string, renaming?: string): string {
+  const trimmed = name.trim();
+  if (!PROFILE_NAME_PATTERN.test(trimmed)) {
+    throw new Error('Profile names can use letters, numbers, spaces, - and _ (up to 32 characters)');
+  }
+  if (profileExists(trimmed, renaming)) {
+    throw new Error(`Profile "${trimmed}" already exists`);
+  }
+  return trimmed;
+}
+
+/**
+ * Create a profile with default settings, or a copy of another profile's settings (not its history
+ * or learned travel times)
+ * @returns The new profile's name
+ * @throws If the name is invalid or taken, or `cloneFrom` doesn't exist
+ */
+export function createProfile(name: string, cloneFrom?: string): string {
+  const profile = validateNewName(name);
+  if (cloneFrom !== undefined && !listProfiles().includes(cloneFrom)) {
+    throw new Error(`Profile "${cloneFrom}" doesn't exist`);
+  }
+
+  fs.mkdirSync(getProfileDir(profile), { recursive: true });
+  const source = cloneFrom !== undefined ? getProfileConfigPath(cloneFrom) : null;
+  if (source && fs.existsSync(source)) {
+    fs.copyFileSync(source, getProfileConfigPath(profile));
+  }
+  // Without a config.json, loadConfig creates one with the defaults
+  console.log(`[profiles] Created profile ${profile}${cloneFrom !== undefined ? ` from ${cloneFrom}` : ''}`);
+  return profile;
+}
+
+/**
+ * @returns The new name
+ * @throws For the default profile, or if the new name is invalid or taken
+ */
+export function renameProfile(name: string, newName: string): string {
+  if (name === DEFAULT_PROFILE) {
+    throw new Error(`The ${DEFAULT_PROFILE} profile can't be renamed`);
+  }
+  if (!listProfiles().includes(name)) {
+    throw new Error(`Profile "${name}" doesn't exist`);
+  }
+  const renamed = validateNewName(newName, name);
+  if (renamed === name) return name;
+  const wasActive = getActiveProfile() === name;
+  fs.renameSync(getProfileDir(name), getProfileDir(renamed));
+  if (wasActive) {
+    setActiveProfile(renamed);
+  }
+  console.log(`[profiles] Renamed profile ${name} to ${renamed}`);
+  return renamed;
+}
+
+/**
+ * Delete a profile with its settings, run history and learned travel times
+ * @throws For the default profile or the active profile
+ */
+export function deleteProfile(name: string): void {
+  if (name === DEFAULT_PROFILE) {
+    throw new Error(`The ${DEFAULT_PROFILE} profile can't be deleted`);
+  }
+  if (name === getActiveProfile()) {
+    throw new Error('Switch to another profile before deleting this one');
+  }
+  if (!listProfiles().includes(name)) {
+    throw new Error(`Profile "${name}" doesn't exist`);
+  }
+  fs.rmSync(getProfileDir(name), { recursive: true, force: true });
+  console.log('[profiles] Deleted profile', name);
+}
@@ -0,0 +1,224 @@
+import { Config, ConfigIssue } from './types';
+import { CONFIG_VERSION } from './migrations';
+import { DEFAULT_REGIONS } from './constants';
+import { unlocks } from '../../algorithm/nodes';
+
+/**
+ * Declarative description of a config value: its type, allowed values and default.
+ * A value without a default is required; when it's missing or invalid the object holding it
+ * is invalid too, which drops that entry from a record. A record's `keys` replace `of` for the
+ * entries they name.
+ */
+export type FieldSchema =
+  | { type: 'number'; default?: number; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean'; default?: boolean }
+  | { type: 'string'; default?: string }
+  | { type: 'enum'; values: readonly string[]; default?: string }
+  | { type: 'object'; fields: { [key: string]: FieldSchema } }
+  | { type: 'record'; of: FieldSchema; keys?: { [key: string]: FieldSchema } };
+
+function regionSchema(defaults?: { x: number; y: number; width: number; height: number }): FieldSchema {
+  return {
+    type: 'object',
+    fields: {
+      x: { type: 'number', default: defaults?.x },
+      y: { type: 'number', default: defaults?.y },
+      width: { type: 'number', default: defaults?.width, min: defaults ? 1 : 0 },
+      height: { type: 'number', default: defaults?.height, min: defaults ? 1 : 0 },
+    },
+  };
+}
+
+const REGIONS_SCHEMA: FieldSchema = {
+  type: 'object',
+  // Regions saved to config only include position and size (color and title are constants)
+  fields: Object.fromEntries(Object.entries(DEFAULT_REGIONS).map(([key, region]) => [key, regionSchema(region)])),
+};
+
+const SKILL_SCHEMA: FieldSchema = { type: 'number', min: 1, integer: true };
+
+// Levels can't be above a skill's maximum in the game data
+const SKILLS_SCHEMA: FieldSchema = {
+  type: 'record',
+  of: SKILL_SCHEMA,
+  keys: Object.fromEntries(Object.entries(unlocks.skills as Record<string, { max: number }>)
+    .map(([key, skill]) => [key, { ...SKILL_SCHEMA, max: skill.max }])),
+};
+
+export const CONFIG_SCHEMA: FieldSchema & { type: 'object' } = {
+  type: 'object',
+  fields: {
+    chatBoxFontSize: { type: 'number', default: 23, min: 10, max: 50, integer: true },
+    checkForUpdatesOnStartup: { type: 'boolean', default: true },
+    configVersion: { type: 'number', default: CONFIG_VERSION, integer: true },
+    debugRecording: { type: 'boolean', default: false },
+    inventorySpace: { type: 'number', default: 24, min: 6, max: 100, integer: true },
+    keyboardShortcuts: {
+      type: 'object',
+      fields: {
+        cycleAlternatives: { type: 'string', default: 'CmdOrCtrl+L' },
+        forceRecalculateBounties: { type: 'string', default: 'CmdOrCtrl+N' },
+        openSettings: { type: 'string', default: 'CmdOrCtrl+,' },
+        toggleEditMode: { type: 'string', default: 'CmdOrCtrl+J' },
+        toggleVisibility: { type: 'string', default: 'CmdOrCtrl+K' },
+      },
+    },
+    merchantLevel: { type: 'number', default: 500, min: 1, max: 500, integer: true },
+    ocrMethod: { type: 'enum', values: ['native', 'tesseract-js', 'auto', 'template'], default: 'auto' },
+    pathfindingQuality: { type: 'number', default: 5, min: 1, max: 5, integer: true },
+    // Keys come from the game data's unlocks; ones it doesn't list take its defaults
+    playerState: {
+      type: 'object',
+      fields: {
+        quests: { type: 'record', of: { type: 'boolean' } },
+        skills: SKILLS_SCHEMA,
+        items: { type: 'record', of: { type: 'boolean' } },
+      },
+    },
+    // Profiles are written by RegionManager; an entry with a missing or invalid value is dropped
+    regionProfiles: {
+      type: 'record',
+      of: {
+        type: 'object',
+        fields: {
+          windowWidth: { type: 'number', min: 1 },
+          windowHeight: { type: 'number', min: 1 },
+          dpiScale: { type: 'number', min: 0.1 },
+          regions: { type: 'record', of: regionSchema() },
+        },
+      },
+    },
+    regions: REGIONS_SCHEMA,
+    routingRisk: {
+      type: 'object',
+      fields: {
+        mode: { type: 'enum', values: ['expected', 'avoid-hostile', 'worst-case'], default: 'expected' },
+        encounterChance: { type: 'number', default: 1, min: 0, max: 5 },
+        encounterTime: { type: 'number', default: 1, min: 0, max: 10 },
+      },
+    },
+    runEnding: { type: 'enum', values: ['return-to-board', 'end-anywhere', 'end-at-portal'], default: 'return-to-board' },
+    travelCalibration: { type: 'boolean', default: true },
+  },
+};
+
+/**
+ * The value a schema describes when nothing is set. Records start empty
+ */
+export function getSchemaDefault(schema: FieldSchema): any {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.fields).map(([key, field]) => [key, getSchemaDefault(field)]));
+    case 'record':
+      return {};
+    default:
+      return schema.default;
+  }
+}
+
+export function getDefaultConfigFromSchema(): Config {
+  return getSchemaDefault(CONFIG_SCHEMA);
+}
+
+// Returned for a value that is missing or invalid and has no default
+const INVALID = Symbol('invalid');
+
+export interface ValidationResult {
+  value: any;
+  /** Values that were wrong and replaced, clamped or dropped */
+  issues: ConfigIssue[];
+  /** Paths of missing values that were filled in with defaults */
+  added: string[];
+  /** Paths of keys the schema doesn't know, which were removed */
+  removed: string[];
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Check a parsed config file against the schema, fixing what can be fixed.
+ *
+ * Missing values get their defaults and unknown keys are removed, which is normal as options come and go.
+ * Values of the wrong type are replaced with the default, numbers outside their range are clamped,
+ * and record entries that can't be fixed are dropped; each of these is reported as an issue.
+ */
+export function validateConfig(config: unknown, file: string): ValidationResult {
+  const result: ValidationResult = { value: undefined, issues: [], added: [], removed: [] };
+
+  const fail = (path: string, message: string, fallback: any) => {
+    result.issues.push({ file, path, message });
+    return fallback;
+  };
+
+  const check = (schema: FieldSchema, value: unknown, path: string): any => {
+    const hasDefault = schema.type === 'object' || schema.type === 'record' || schema.default !== undefined;
+    const fallback = hasDefault ? getSchemaDefault(schema) : INVALID;
+
+    if (value === undefined) {
+      if (!hasDefault) return fail(path, 'Missing', INVALID);
+      result.added.push(path);
+      return fallback;
+    }
+
+    switch (schema.type) {
+      case 'number': {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          return fail(path, `Expected a number, found ${describe(value)}`, fallback);
+        }
+        if (schema.integer && !Number.isInteger(value)) {
+          return check(schema, fail(path, `Expected a whole number, found ${value} (rounded)`, Math.round(value)), path);
+        }
+        if ((schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max)) {
+          const fixed = Math.min(schema.max ?? Infinity, Math.max(schema.min ?? -Infinity, value));
+          const range = schema.max !== undefined ? `between ${schema.min} and ${schema.max}` : `at least ${schema.min}`;
+          return fail(path, `Expected ${range}, found ${value} (changed to ${fixed})`, fixed);
+        }
+        return value;
+      }
+      case 'boolean':
+        return typeof value === 'boolean' ? value : fail(path, `Expected true or false, found ${describe(value)}`, fallback);
+      case 'string':
+        return typeof value === 'string' ? value : fail(path, `Expected text, found ${describe(value)}`, fallback);
+      case 'enum':
+        return typeof value === 'string' && schema.values.includes(value)
+          ? value
+          : fail(path, `Expected one of ${schema.values.join(', ')}, found ${describe(value)}`, fallback);
+      case 'object': {
+        if (!isPlainObject(value)) return fail(path, `Expected an object, found ${describe(value)}`, fallback);
+        const fixed: { [key: string]: any } = {};
+        for (const [key, field] of Object.entries(schema.fields)) {
+          const fieldValue = check(field, value[key], path ? `${path}.${key}` : key);
+          if (fieldValue === INVALID) return INVALID;
+          fixed[key] = fieldValue;
+        }
+        for (const key of Object.keys(value)) {
+          if (!(key in schema.fields)) result.removed.push(path ? `${path}.${key}` : key);
+        }
+        return fixed;
+      }
+      case 'record': {
+        if (!isPlainObject(value)) return fail(path, `Expected an object, found ${describe(value)}`, fallback);
+        const fixed: { [key: string]: any } = {};
+        for (const [key, entry] of Object.entries(value)) {
+          const entryPath = `${path}.${key}`;
+          const entryValue = check(schema.keys?.[key] ?? schema.of, entry, entryPath);
+          if (entryValue === INVALID) {
+            fail(entryPath, 'Removed, it could not be fixed', undefined);
+          } else {
+            fixed[key] = entryValue;
+          }
+        }
+        return fixed;
+      }
+    }
+  };
+
+  result.value = check(CONFIG_SCHEMA, config, '');
+  return result;
+}
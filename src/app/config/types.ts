@@ -11,17 +11,76 @@ export interface Region {
 
 export type Regions = { [key: string]: Region };
 
+/** Region position and size as fractions (0-1) of the game window */
+export interface RelativeRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Regions saved for one game window size, used whenever the window is that size again */
+export interface RegionProfile {
+  /** Game window size in DIP */
+  windowWidth: number;
+  windowHeight: number;
+  /** Physical pixels per DIP */
+  dpiScale: number;
+  regions: { [key: string]: RelativeRegion };
+}
+
 export type Step =
   | { type: 'teleport'; location: string; distance: number }
   | { type: 'buy'; item: string; location: string; distance: number }
   | { type: 'sell'; item: string; location: string; distance: number }
   | { type: 'return'; location: string; distance: number };
 
+/** How a run ends after the final sale (see RunEnding in algorithm/pathfinder) */
+export type RunEnding = 'return-to-board' | 'end-anywhere' | 'end-at-portal';
+
+/** How hostile edges are weighed when planning routes (see RiskMode in algorithm/risk) */
+export type RiskMode = 'expected' | 'avoid-hostile' | 'worst-case';
+
+export interface RoutingRisk {
+  mode: RiskMode;
+  /** Multiplies the chance of an encounter on every hostile edge, e.g. 1.5 if mobs attack more often */
+  encounterChance: number;
+  /** Multiplies the time an encounter takes, e.g. 2 for a low combat level */
+  encounterTime: number;
+}
+
+/** Multipliers for the walking time of individual edges, keyed by edgeKey in algorithm/gps (e.g. "21-22") */
+export type EdgeAdjustments = { [edgeKey: string]: number };
+
+/**
+ * Quests, skill levels and items the player has, keyed as in the game data's `unlocks`.
+ * Unlocks that aren't listed use the game data's default (see algorithm/unlocks.ts)
+ */
+export interface PlayerState {
+  /** Whether each quest is completed, e.g. { BATTLE_OF_FORTUNEHOLD: true } */
+  quests?: { [quest: string]: boolean };
+  /** Level of each skill, e.g. { detective: 120 } */
+  skills?: { [skill: string]: number };
+  /** Whether the player has each item */
+  items?: { [item: string]: boolean };
+}
+
 export interface FindBestArgs {
   allBounties: string[];
-  detectiveLevel: number;
-  battleOfFortuneholdCompleted: boolean;
-  bountyRarities?: { [bountyKey: string]: 'uncommon' | 'rare' | 'epic' | null };
+  /** Decides which edges of the world graph can be used */
+  playerState: PlayerState;
+  /** Player's Merchant level, used to skip locked bounties and scale KP. Default: 500 */
+  merchantLevel?: number;
+  /** How the run ends after the final sale. Default: 'return-to-board' */
+  runEnding?: RunEnding;
+  /** How hostile edges are weighed. Default: average encounter times */
+  routingRisk?: RoutingRisk;
+  /** Rarity of each of allBounties, in the same order, as two slots can offer the same bounty at different rarities */
+  rarities?: ('uncommon' | 'rare' | 'epic' | null)[];
+  /** Items each of allBounties asks for, parsed from OCR, in the same order. Unknown ones (null) ask for 6 */
+  quantities?: (number | null)[];
+  /** Inventory slots available for bounty items. Default: 24 */
+  inventorySpace?: number;
   pruningOptions?: {
     maxCombinations?: number;
     pruningThreshold?: number;
@@ -33,6 +92,28 @@ export interface FindBestResult {
   kp: number;
   actions: Step[];
   distance: number;
+  /** Variance of the time in seconds², from encounters on hostile edges */
+  variance: number;
+  /** Seconds 90% of runs finish within */
+  p90: number;
+}
+
+/** A bounty picked by hand in the planner */
+export interface PlannerBounty {
+  bountyKey: string;
+  rarity: 'uncommon' | 'rare' | 'epic' | null;
+  /** Items the bounty asks for. Default: 6 */
+  quantity?: number;
+}
+
+/** A what-if question for the optimizer, answered without the game open */
+export interface PlannerQuery {
+  /** Bounties already accepted */
+  activeBounties: PlannerBounty[];
+  /** Bounties on the board that could be accepted */
+  boardBounties: PlannerBounty[];
+  /** Number of routes to compare. Default: 3 */
+  count?: number;
 }
 
 export interface KeyboardShortcuts {
@@ -40,20 +121,50 @@ export interface KeyboardShortcuts {
   toggleVisibility: string;
   forceRecalculateBounties: string;
   openSettings: string;
+  /** Follow the next of the top alternative bounty sets while the board is open */
+  cycleAlternatives: string;
 }
 
 export interface Config {
+  /** Version of the config file's layout, see migrations.ts */
+  configVersion?: number;
+  /** Regions in DIP, used until a region profile is saved for the game window's size */
   regions?: Regions;
-  detectiveLevel?: number;
-  isBattleOfFortuneholdCompleted?: boolean;
-  ocrMethod?: 'native' | 'tesseract-js' | 'auto';
+  /** Regions relative to the game window, keyed by window size and DPI, e.g. "1920x1080@1.25" */
+  regionProfiles?: { [key: string]: RegionProfile };
+  /** Quests, skill levels and items that unlock parts of the world graph */
+  playerState?: PlayerState;
+  /** Merchant level (1-500), used to skip locked bounties and scale KP. Default: 500 */
+  merchantLevel?: number;
+  /** Inventory slots available for bounty items (6-100), e.g. after backpack upgrades. Default: 24 */
+  inventorySpace?: number;
+  /** 'template' reads words with templates captured in settings, falling back to Tesseract. Default: 'auto' */
+  ocrMethod?: 'native' | 'tesseract-js' | 'auto' | 'template';
   keyboardShortcuts?: KeyboardShortcuts;
   /** Pathfinding quality: 1 = heavy pruning (fast), 5 = no pruning (optimal). Default: 5 */
   pathfindingQuality?: number;
+  /** How a run ends after the final sale. Default: 'return-to-board' */
+  runEnding?: RunEnding;
+  /** How hostile edges are weighed when planning routes. Default: average encounter times */
+  routingRisk?: RoutingRisk;
   /** Check for updates on app startup. Default: true */
   checkForUpdatesOnStartup?: boolean;
   /** Chat box font size in pixels. Default: 23 */
   chatBoxFontSize?: number;
+  /** Learn per-edge travel times from completed runs and use them for routing. Default: true */
+  travelCalibration?: boolean;
+  /** Save every processed screenshot with its OCR results to a recordings folder. Default: false */
+  debugRecording?: boolean;
+}
+
+/**
+ * A value in a config file that was invalid, for the settings window
+ */
+export interface ConfigIssue {
+  file: string;
+  /** Dotted path of the value, e.g. "regions.chatRegion.width", empty for the whole file */
+  path: string;
+  message: string;
 }
 
 export interface OCRData {
@@ -69,8 +180,12 @@ export interface OCRData {
   rawOcrText?: { [key: string]: string };
   matchTypes?: { [key: string]: 'exact' | 'fuzzy' };
   fuzzyDebug?: { [key: string]: Array<{ bountyKey: string; score: number; nameScore: number; fromScore: number; toScore: number; positionBonus: number }> };
+  /** Regions where the OCR text and the colour disagree on rarity */
+  rarityDisagreements?: { [key: string]: RarityEvidence };
   optimalBounties?: string[]; // List of optimal bounty keys
   status?: 'computing' | 'optimal' | 'not-optimal';
+  /** The route was pinned from the planner and is not recomputed until the run completes */
+  routePinned?: boolean;
   boardOpen?: boolean;
   sessionStats?: {
     totalKpEarned: number;
@@ -79,6 +194,119 @@ export interface OCRData {
   };
 }
 
+/** The route drawn on the map in the settings window, see OCRProcessor.getRouteMap */
+export interface RouteMap {
+  /** Nodes walked to reach each step, see routeLegs in algorithm/world-map.ts */
+  legs: Array<{ step: number; type: Step['type']; location: string; nodes: number[] }>;
+  /** Step the player is on, the number of steps once the run is done, or null when progress isn't followed */
+  currentStep: number | null;
+}
+
+/** How a bounty's rarity was decided from its OCR text and its colour */
+export interface RarityEvidence {
+  rarity: 'uncommon' | 'rare' | 'epic' | null;
+  /** 0-1 */
+  confidence: number;
+  /** Rarity keyword found in the OCR text */
+  textRarity: 'uncommon' | 'rare' | 'epic' | null;
+  /** Rarity from the colour of the region's frame and background */
+  imageRarity: 'uncommon' | 'rare' | 'epic' | null;
+  imageConfidence: number;
+  agree: boolean;
+}
+
+/** Settings a recording was made with, so a replay plans the same routes */
+export interface RecordingMeta {
+  version: number;
+  appVersion: string;
+  /** Epoch ms */
+  startedAt: number;
+  playerState: PlayerState;
+  merchantLevel: number;
+  inventorySpace: number;
+  runEnding: RunEnding;
+  routingRisk: RoutingRisk;
+  pathfindingQuality: number;
+  edgeAdjustments: EdgeAdjustments;
+}
+
+/** One `processScreenshot` call saved by the debug recorder */
+export interface RecordedTick {
+  tick: number;
+  /** Epoch ms the frame was captured */
+  at: number;
+  mode: 'full' | 'active' | 'title-only';
+  width: number;
+  height: number;
+  regions: Regions;
+  /** Screenshot as passed to OCR, relative to the recording folder */
+  frame: string;
+  /** Cropped PNG of each region that was OCR'd, relative to the recording folder */
+  regionImages: { [key: string]: string };
+  rawOcrText: { [key: string]: string };
+  matchTypes: { [key: string]: 'exact' | 'fuzzy' };
+  fuzzyDebug: NonNullable<OCRData['fuzzyDebug']>;
+  ocrData: OCRData;
+}
+
+/** A sale detected during a run, used to learn travel times */
+export interface SellObservation {
+  item: string;
+  /** Seconds from the board closing until the bounty disappeared from the active slots */
+  elapsedSeconds: number;
+}
+
+/** When a step of the route was completed */
+export interface StepTiming {
+  step: Step;
+  /** Epoch ms */
+  at: number;
+  /**
+   * How completion was detected: 'ocr' from the active bounty slots, 'time' from elapsed time
+   * (teleports), 'implied' when a later step was confirmed first (timestamp interpolated)
+   */
+  source: 'ocr' | 'time' | 'implied';
+}
+
+/** One completed run, as stored in the run history */
+export interface RunRecord {
+  /** Epoch ms when the board closed and the run started */
+  startedAt: number;
+  /** Epoch ms when the last bounty was sold */
+  completedAt: number;
+  /** Bounties completed during the run, in completion order */
+  bounties: string[];
+  /** Rarity of each completed bounty, aligned with `bounties` */
+  rarities: Array<'uncommon' | 'rare' | 'epic' | null>;
+  /** KP earned, including rarity multipliers (same units as bounty KP) */
+  kp: number;
+  estimatedSeconds: number;
+  actualSeconds: number;
+  /** Route the overlay showed for the run */
+  route: Step[];
+  /** When each step was completed, in order */
+  stepTimes?: StepTiming[];
+  merchantLevel: number;
+}
+
+/** Totals for a day or week of runs */
+export interface HistoryAggregate {
+  /** First day of the period (YYYY-MM-DD, local time) */
+  periodStart: string;
+  runs: number;
+  bounties: number;
+  kp: number;
+  estimatedSeconds: number;
+  actualSeconds: number;
+}
+
+export interface SessionHistory {
+  days: HistoryAggregate[];
+  weeks: HistoryAggregate[];
+  recentRuns: RunRecord[];
+  totalRuns: number;
+}
+
 export interface SessionStats {
   totalKpEarned: number;
   totalDurationSeconds: number;
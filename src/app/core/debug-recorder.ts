@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { OCRData, RecordedTick, RecordingMeta, Regions } from '../config/types';
+import { DEFAULT_ROUTING_RISK } from '../config/constants';
+import { getRecordingsDir } from '../utils/paths';
+import { APP_VERSION } from '../version';
+
+// Bump when the folder layout changes so old recordings are rejected instead of misread
+const RECORDING_VERSION = 3;
+
+const META_FILE = 'meta.json';
+const TICKS_FILE = 'ticks.jsonl';
+
+// The recordings folder is kept under this size by deleting the oldest recordings
+export const MAX_RECORDINGS_BYTES = 2 * 1024 ** 3;
+
+export type RecordingSettings = Omit<RecordingMeta, 'version' | 'appVersion' | 'startedAt'>;
+
+export interface TickInput {
+  at: number;
+  mode: RecordedTick['mode'];
+  width: number;
+  height: number;
+  regions: Regions;
+  /** Encoded screenshot exactly as passed to processScreenshot */
+  frame: Buffer;
+  regionImages: { [key: string]: Buffer };
+  rawOcrText: RecordedTick['rawOcrText'];
+  matchTypes: RecordedTick['matchTypes'];
+  fuzzyDebug: RecordedTick['fuzzyDebug'];
+  ocrData: OCRData;
+}
+
+export interface Recording {
+  dir: string;
+  meta: RecordingMeta;
+  ticks: RecordedTick[];
+}
+
+/**
+ * Folder name for a recording started at `timeMs`, e.g. 2025-01-31_18-04-05
+ */
+function toFolderName(timeMs: number): string {
+  const date = new Date(timeMs);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+}
+
+function getFolderSize(dir: string): number {
+  let bytes = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    bytes += entry.isDirectory() ? getFolderSize(entryPath) : fs.statSync(entryPath).size;
+  }
+  return bytes;
+}
+
+/**
+ * Recordings in the recordings folder with their size on disk, oldest first
+ */
+export function listRecordings(root: string = getRecordingsDir()): { dir: string; bytes: number }[] {
+  if (!fs.existsSync(root)) return [];
+  return fs.readdirSync(root, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort()
+    .map(name => ({ dir: path.join(root, name), bytes: getFolderSize(path.join(root, name)) }));
+}
+
+/**
+ * Saves every processed screenshot so field OCR problems can be reproduced.
+ *
+ * One folder per session under `recordings/`:
+ * - `meta.json`: settings routes were planned with
+ * - `frames/000001.jpg`: the screenshot passed to OCR
+ * - `regions/000001-<region>.png`: the cropped image of each region that was OCR'd
+ * - `ticks.jsonl`: per tick, the mode, regions, raw OCR text, match debug info and resulting OCRData
+ *
+ * {@link loadRecording} reads it back for `ScreenshotManager.replay`.
+ *
+ * Older recordings are deleted, oldest first, to keep the recordings folder under `maxBytes`. A recording that
+ * reaches it on its own stops saving ticks, as dropping its early ticks would break replays.
+ */
+export class DebugRecorder {
+  private readonly dir: string;
+  private readonly maxBytes: number;
+  private tick = 0;
+  private bytes = 0;
+  private full = false;
+  /** Other recordings in the folder, oldest first */
+  private olderRecordings: { dir: string; bytes: number }[];
+
+  constructor(settings: RecordingSettings, startedAt: number = Date.now(), dir?: string, maxBytes: number = MAX_RECORDINGS_BYTES) {
+    this.dir = dir ?? path.join(getRecordingsDir(), toFolderName(startedAt));
+    this.maxBytes = maxBytes;
+    // Only recordings in the app's folder are rotated, never the neighbours of a folder chosen elsewhere
+    this.olderRecordings = dir ? [] : listRecordings().filter(recording => recording.dir !== this.dir);
+    fs.mkdirSync(path.join(this.dir, 'frames'), { recursive: true });
+    fs.mkdirSync(path.join(this.dir, 'regions'), { recursive: true });
+
+    const meta: RecordingMeta = { version: RECORDING_VERSION, appVersion: APP_VERSION, startedAt, ...settings };
+    fs.writeFileSync(path.join(this.dir, META_FILE), JSON.stringify(meta, null, 2), 'utf8');
+    console.log('[recorder] Recording to', this.dir);
+  }
+
+  getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * Delete the oldest recordings until `bytes` more fit under the limit
+   * @returns Whether they fit
+   */
+  private makeRoom(bytes: number): boolean {
+    const olderBytes = () => this.olderRecordings.reduce((sum, recording) => sum + recording.bytes, 0);
+    while (this.olderRecordings.length > 0 && olderBytes() + this.bytes + bytes > this.maxBytes) {
+      const oldest = this.olderRecordings.shift()!;
+      fs.rmSync(oldest.dir, { recursive: true, force: true });
+      console.log('[recorder] Deleted old recording', oldest.dir);
+    }
+    return olderBytes() + this.bytes + bytes <= this.maxBytes;
+  }
+
+  record(input: TickInput): void {
+    if (this.full) return;
+    try {
+      const tickBytes = input.frame.length + Object.values(input.regionImages).reduce((sum, image) => sum + image.length, 0);
+      if (!this.makeRoom(tickBytes)) {
+        this.full = true;
+        console.warn(`[recorder] Recording reached ${Math.round(this.maxBytes / 1024 ** 2)} MB, no more ticks are saved`);
+        return;
+      }
+
+      this.tick++;
+      const name = this.tick.toString().padStart(6, '0');
+
+      const frame = `frames/${name}.jpg`;
+      fs.writeFileSync(path.join(this.dir, frame), input.frame);
+
+      const regionImages: { [key: string]: string } = {};
+      for (const [key, image] of Object.entries(input.regionImages)) {
+        regionImages[key] = `regions/${name}-${key}.png`;
+        fs.writeFileSync(path.join(this.dir, regionImages[key]), image);
+      }
+
+      const entry: RecordedTick = {
+        tick: this.tick,
+        at: input.at,
+        mode: input.mode,
+        width: input.width,
+        height: input.height,
+        regions: input.regions,
+        frame,
+        regionImages,
+        rawOcrText: input.rawOcrText,
+        matchTypes: input.matchTypes,
+        fuzzyDebug: input.fuzzyDebug,
+        ocrData: input.ocrData,
+      };
+      const line = JSON.stringify(entry) + '\n';
+      fs.appendFileSync(path.join(this.dir, TICKS_FILE), line, 'utf8');
+      this.bytes += tickBytes + Buffer.byteLength(line, 'utf8');
+    } catch (err) {
+      console.error('[recorder] Failed to record tick:', err);
+    }
+  }
+}
+
+/**
+ * Read a recording made by {@link DebugRecorder}
+ * @throws If the folder isn't a recording or was made by an incompatible version
+ */
+export function loadRecording(dir: string): Recording {
+  const meta = JSON.parse(fs.readFileSync(path.join(dir, META_FILE), 'utf8'));
+  // Version 1 saved the detective level and quest before they became the player state
+  if (meta.version === 1) {
+    meta.playerState = {
+      skills: { detective: meta.detectiveLevel },
+      quests: { BATTLE_OF_FORTUNEHOLD: meta.battleOfFortuneholdCompleted },
+    };
+    delete meta.detectiveLevel;
+    delete meta.battleOfFortuneholdCompleted;
+    meta.version = 2;
+  }
+  // Version 2 was planned with average encounter times
+  if (meta.version === 2) {
+    meta.routingRisk = DEFAULT_ROUTING_RISK;
+    meta.version = RECORDING_VERSION;
+  }
+  if (meta.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${meta.version} in ${dir}`);
+  }
+
+  const ticks: RecordedTick[] = [];
+  const ticksPath = path.join(dir, TICKS_FILE);
+  const lines = fs.existsSync(ticksPath) ? fs.readFileSync(ticksPath, 'utf8').split('\n') : [];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      ticks.push(JSON.parse(line));
+    } catch {
+      // The app may have quit halfway through writing the last tick
+      console.warn('[recorder] Skipping malformed tick in', ticksPath);
+    }
+  }
+
+  return { dir, meta: meta as RecordingMeta, ticks };
+}
+
+export function readRecordedFrame(recording: Recording, tick: RecordedTick): Buffer {
+  return fs.readFileSync(path.join(recording.dir, tick.frame));
+}
@@ -1,34 +1,84 @@
-import { Region, Regions, FindBestArgs, FindBestResult, Step } from '../config/types';
-import { BOUNTY_NAMES } from '../config/constants';
-import { resolveBountyKeyFromName } from '../utils/bounty-resolver';
-import { fuzzyMatchBounty, fuzzyMatchBountyWithDebug } from '../utils/fuzzy-bounty-matcher';
-import { execTesseractFromBuffer } from '../utils/tesseract';
-import { mapWithConcurrency } from '../utils/async';
+import { Region, Regions, FindBestArgs, FindBestResult, Step, RunEnding, PlannerQuery, SellObservation, EdgeAdjustments, RarityEvidence, RouteMap, PlayerState, RoutingRisk } from '../config/types';
+import { DEFAULT_ROUTING_RISK } from '../config/constants';
+import GPS from '../../algorithm/gps';
+import { routeLegs } from '../../algorithm/world-map';
+import { fuzzyMatchBounty, matchBountyText, parseBountyQuantity } from '../utils/fuzzy-bounty-matcher';
+import { getTemplateStatus, resetTemplates } from '../utils/template-ocr';
+import { getDistanceMatrixPath, readDistanceMatrix } from '../utils/distance-matrix-cache';
+import { mapWithConcurrency, sleep } from '../utils/async';
 import { PerfWindow, nowMsHiRes, fmtMs } from '../utils/perf';
 import { PathfinderUtilityPool } from '../workers/pathfinder-utility';
 import { SessionTracker } from './session-tracker';
+import { TravelCalibration } from './travel-calibration';
+import { RouteProgressTracker } from './route-progress';
+import { RunHistory } from './run-history';
+import { recognizeRegion, RecognizeResult } from './region-recognizer';
 
 const sharp = require('sharp') as typeof import('sharp');
 
+// Most routes the planner compares at once
+const MAX_PLANNER_ROUTES = 10;
+
+// Bounty sets offered in the overlay, the best one included
+const NUM_ALTERNATIVES = 3;
+
+// Frames read with Tesseract to learn OCR word templates from, per capture
+const TEMPLATE_CAPTURE_FRAMES = 5;
+
 interface InFlightFind {
   signature: string;
   startedAtMs: number;
   promise: Promise<void>;
+  abortController: AbortController;
 }
 
 interface OCRProcessorOptions {
   concurrency?: number;
   scale?: number;
-  ocrMethod?: 'native' | 'tesseract-js' | 'auto';
+  ocrMethod?: 'native' | 'tesseract-js' | 'auto' | 'template';
   perfWindowSec?: number;
   warnFindBestMs?: number;
   warnTickMs?: number;
   pathfinderTimeoutMs?: number;
   dropGraceMs?: number;
-  detectiveLevel: number;
-  battleOfFortuneholdCompleted: boolean;
+  /** Quests, skills and items the player has. Unlocks not listed take the game data's defaults */
+  playerState: PlayerState;
+  /** Merchant level, used to skip locked bounties and scale KP. Default: 500 */
+  merchantLevel?: number;
+  /** How a run ends after the final sale. Default: 'return-to-board' */
+  runEnding?: RunEnding;
+  /** How hostile edges are weighed when planning routes. Default: average encounter times */
+  routingRisk?: RoutingRisk;
+  /** Inventory slots available for bounty items. Default: 24 */
+  inventorySpace?: number;
   /** Pathfinding quality: 1 = heavy pruning, 5 = no pruning. Default: 5 */
   pathfindingQuality?: number;
+  /** Learn travel times from completed runs. Default: true */
+  travelCalibration?: boolean;
+  /** Use these edge adjustments instead of the learned ones, and don't learn (replays) */
+  edgeAdjustments?: EdgeAdjustments;
+  /** Where completed runs are saved. Default: the app's history directory */
+  historyDir?: string;
+  /** Where learned travel times are saved. Default: the app's calibration.json */
+  calibrationPath?: string;
+  /** Current time in epoch ms. Replays pass the recorded capture times. Default: Date.now */
+  clock?: () => number;
+}
+
+/**
+ * Physical pixels per DIP of the game window. Screenshots are physical on Windows while regions are in DIP
+ */
+export function getTargetDpiScale(): number {
+  if (process.platform !== 'win32') return 1;
+
+  // Get the DPI scale factor from Electron
+  const { screen } = require('electron');
+  const { OverlayController } = require('../../');
+
+  // Calculate scale factor from physical to DIP coordinates
+  const physicalBounds = OverlayController.targetBounds;
+  const dipBounds = screen.screenToDipRect(null, physicalBounds);
+  return physicalBounds.width / dipBounds.width;
 }
 
 export class OCRProcessor {
@@ -39,6 +89,10 @@ export class OCRProcessor {
   // Bounty rarity tracking (uncommon, rare, epic) - separate for active and board
   public activeBountyRarities: { [index: number]: 'uncommon' | 'rare' | 'epic' | null } = {};
   public boardBountyRarities: { [index: number]: 'uncommon' | 'rare' | 'epic' | null } = {};
+
+  // Items each bounty asks for, as last read by OCR - separate for active and board like rarities
+  public activeBountyQuantities: { [index: number]: number } = {};
+  public boardBountyQuantities: { [index: number]: number } = {};
   
   // Raw OCR text for debugging
   public rawOcrText: { [key: string]: string } = {};
@@ -48,6 +102,16 @@ export class OCRProcessor {
   
   // Fuzzy match debug info (top 3 candidates with scores)
   public fuzzyDebug: { [key: string]: Array<{ bountyKey: string; score: number; nameScore: number; fromScore: number; toScore: number; positionBonus: number }> } = {};
+
+  // Regions where the OCR text and the colour disagree on rarity, for debugging
+  public rarityDisagreements: { [key: string]: RarityEvidence } = {};
+
+  // Frames left to learn OCR word templates from
+  private templateCaptureFrames: number = 0;
+
+  // Cropped region images from the last processScreenshot call, kept only while recording
+  public captureRegionImages: boolean = false;
+  public regionImages: { [key: string]: Buffer } = {};
   
   // UI indicators
   public activeDrops: number[] = [];
@@ -57,12 +121,28 @@ export class OCRProcessor {
   public steps: Step[] = [];
   public kp: number = 0;
   public distanceSeconds: number = NaN;
+  // Time 90% of runs of the route finish within, from the encounters it risks
+  public p90Seconds: number = NaN;
   
+  // Top bounty sets from the last accepted solution, best first, and the one being followed
+  public alternatives: FindBestResult[] = [];
+  public selectedAlternative: number = 0;
+  // Bounty set of the alternative the player cycled to, kept across recomputes while it stays in the top
+  private selectedAlternativeSignature: string | null = null;
+
   // Display values (preserved after cache clear)
   public displaySteps: Step[] = [];
   public displayKp: number = 0;
   public displayDistanceSeconds: number = NaN;
+  public displayP90Seconds: number = NaN;
   
+  // How the route ends after the final sale
+  public runEnding: RunEnding;
+
+  // Route chosen in the planner, followed instead of recomputing until the run completes
+  public pinnedRoute: FindBestResult | null = null;
+  private plannerAbortController: AbortController | null = null;
+
   // Run completion state
   public runCompleted: boolean = false;
   public runEndsWithTeleportToMarket: boolean = false;
@@ -84,6 +164,14 @@ export class OCRProcessor {
   public actualRunTimeSeconds: number = 0;
   private runBounties: string[] = [];
   private runEstimatedTime: number = 0;
+  private runRoute: Step[] = [];
+  private runSells: SellObservation[] = [];
+
+  // Live progress through the route
+  private readonly routeProgress = new RouteProgressTracker();
+  // Digits read from each active bounty at the start of the run, a change means its items were bought
+  private activeDigitsBaseline = new Map<string, string>();
+  private activeDigitsChangedTicks = new Map<string, number>();
   
   // Grace period for new bounties
   private readonly dropGraceMs: number;
@@ -100,18 +188,31 @@ export class OCRProcessor {
   // Configuration
   private readonly concurrency: number;
   private readonly scale: number;
-  private readonly ocrMethod: 'native' | 'tesseract-js' | 'auto';
+  private readonly ocrMethod: 'native' | 'tesseract-js' | 'auto' | 'template';
   private readonly perf: PerfWindow;
   private readonly warnFindBestMs: number;
   private readonly warnTickMs: number;
   private readonly pathfinderTimeoutMs: number;
   private readonly pathfinderPool: PathfinderUtilityPool;
-  private detectiveLevel: number;
-  private battleOfFortuneholdCompleted: boolean;
+  private playerState: PlayerState;
+  private routingRisk: RoutingRisk;
+  private merchantLevel: number;
+  private inventorySpace: number;
   private pathfindingQuality: number;
   
   // Session tracking
-  private readonly sessionTracker: SessionTracker;
+  private sessionTracker: SessionTracker;
+
+  // Learned travel times
+  private travelCalibration: TravelCalibration;
+  private travelCalibrationEnabled: boolean;
+  private readonly fixedEdgeAdjustments: EdgeAdjustments | null;
+
+  // Route drawn on the map, rebuilt when the shown steps or the graph change
+  private mapGps: { key: string; gps: GPS } | null = null;
+  private routeMapCache: { steps: Step[]; start: string | undefined; gps: GPS; legs: RouteMap['legs'] } | null = null;
+
+  private readonly now: () => number;
   
   // Force optimal flag
   private forceOptimal: boolean = false;
@@ -125,18 +226,33 @@ export class OCRProcessor {
     this.warnTickMs = options.warnTickMs ?? 3000;
     this.pathfinderTimeoutMs = options.pathfinderTimeoutMs ?? 20000;
     this.dropGraceMs = Math.max(0, options.dropGraceMs ?? 2000);
-    this.detectiveLevel = options.detectiveLevel;
-    this.battleOfFortuneholdCompleted = options.battleOfFortuneholdCompleted;
+    this.playerState = options.playerState;
+    this.routingRisk = options.routingRisk ?? DEFAULT_ROUTING_RISK;
+    this.merchantLevel = options.merchantLevel ?? 500;
+    this.inventorySpace = options.inventorySpace ?? 24;
+    this.runEnding = options.runEnding ?? 'return-to-board';
     this.pathfindingQuality = options.pathfindingQuality ?? 5;
     
-    this.sessionTracker = new SessionTracker();
+    this.now = options.clock ?? Date.now;
+    
+    this.sessionTracker = new SessionTracker(this.merchantLevel, new RunHistory(options.historyDir), this.now);
+    this.travelCalibration = new TravelCalibration(options.calibrationPath);
+    this.fixedEdgeAdjustments = options.edgeAdjustments ?? null;
+    this.travelCalibrationEnabled = this.fixedEdgeAdjustments === null && (options.travelCalibration ?? true);
 
     // Use utility process pool for better V8 JIT performance
     this.pathfinderPool = new PathfinderUtilityPool();
-    this.pathfinderPool.setConfig(this.detectiveLevel, this.battleOfFortuneholdCompleted);
+    this.pathfinderPool.setConfig(this.playerState, this.routingRisk);
+    if (this.fixedEdgeAdjustments) {
+      this.pathfinderPool.setEdgeAdjustments(this.fixedEdgeAdjustments);
+    } else if (this.travelCalibrationEnabled) {
+      this.pathfinderPool.setEdgeAdjustments(this.travelCalibration.getEdgeAdjustments());
+    }
   }
 
   async shutdown(): Promise<void> {
+    this.inFlightFind?.abortController.abort();
+    this.plannerAbortController?.abort();
     await this.pathfinderPool.terminate();
     // Import and call shutdown function from tesseract utils
     const { shutdownTesseract } = await import('../utils/tesseract');
@@ -155,10 +271,24 @@ export class OCRProcessor {
     return this.sessionTracker.getStats();
   }
 
+  getSessionHistory() {
+    return this.sessionTracker.getHistory();
+  }
+
   getPerfStats() {
     return this.perf.getStats();
   }
 
+  /**
+   * Start a new session that saves runs to another history directory (e.g. after switching profile).
+   * Completions of the run in progress are dropped rather than saved to the wrong history
+   */
+  setHistoryDir(historyDir?: string): void {
+    this.sessionTracker.discardRunCompletions();
+    this.sessionTracker = new SessionTracker(this.merchantLevel, new RunHistory(historyDir), this.now);
+    console.log('[config] Run history:', historyDir ?? 'default');
+  }
+
   setPathfindingQuality(quality: number): void {
     const oldQuality = this.pathfindingQuality;
     this.pathfindingQuality = Math.max(1, Math.min(5, quality));
@@ -167,21 +297,213 @@ export class OCRProcessor {
     }
   }
 
-  setDetectiveLevel(level: number): void {
-    const oldLevel = this.detectiveLevel;
-    this.detectiveLevel = Math.max(1, Math.min(500, level));
-    if (oldLevel !== this.detectiveLevel) {
-      console.log(`[config] Detective level changed: ${oldLevel} -> ${this.detectiveLevel}`);
-      this.pathfinderPool.setConfig(this.detectiveLevel, this.battleOfFortuneholdCompleted);
+  setPlayerState(playerState: PlayerState): void {
+    const oldValue = JSON.stringify(this.playerState);
+    this.playerState = playerState;
+    if (oldValue !== JSON.stringify(this.playerState)) {
+      console.log(`[config] Player state changed: ${oldValue} -> ${JSON.stringify(this.playerState)}`);
+      this.pathfinderPool.setConfig(this.playerState, this.routingRisk);
+    }
+  }
+
+  setRoutingRisk(routingRisk: RoutingRisk): void {
+    const oldValue = JSON.stringify(this.routingRisk);
+    this.routingRisk = routingRisk;
+    if (oldValue !== JSON.stringify(this.routingRisk)) {
+      console.log(`[config] Routing risk changed: ${oldValue} -> ${JSON.stringify(this.routingRisk)}`);
+      this.pathfinderPool.setConfig(this.playerState, this.routingRisk);
+    }
+  }
+
+  setMerchantLevel(level: number): void {
+    const oldLevel = this.merchantLevel;
+    this.merchantLevel = Math.max(1, Math.min(500, level));
+    if (oldLevel !== this.merchantLevel) {
+      console.log(`[config] Merchant level changed: ${oldLevel} -> ${this.merchantLevel}`);
+      this.sessionTracker.setMerchantLevel(this.merchantLevel);
+    }
+  }
+
+  setInventorySpace(slots: number): void {
+    const oldValue = this.inventorySpace;
+    this.inventorySpace = Math.max(6, Math.min(100, slots));
+    if (oldValue !== this.inventorySpace) {
+      console.log(`[config] Inventory space changed: ${oldValue} -> ${this.inventorySpace}`);
+    }
+  }
+
+  setRunEnding(runEnding: RunEnding): void {
+    const oldValue = this.runEnding;
+    this.runEnding = runEnding;
+    if (oldValue !== this.runEnding) {
+      console.log(`[config] Run ending changed: ${oldValue} -> ${this.runEnding}`);
+    }
+  }
+
+  /**
+   * Where the player is in the route shown in the overlay, or null when no run is being followed
+   */
+  getRouteProgress(): { currentStep: number; deltaSeconds: number | null } | null {
+    const shownSteps = this.displaySteps.length > 0 ? this.displaySteps : this.steps;
+    if (!this.routeProgress.isActive() || this.runCompleted || this.routeProgress.getSteps() !== shownSteps) {
+      return null;
     }
+    return {
+      currentStep: this.routeProgress.getCurrentIndex(),
+      deltaSeconds: this.routeProgress.getDeltaSeconds(this.now()),
+    };
   }
 
-  setBattleOfFortuneholdCompleted(completed: boolean): void {
-    const oldValue = this.battleOfFortuneholdCompleted;
-    this.battleOfFortuneholdCompleted = completed;
-    if (oldValue !== this.battleOfFortuneholdCompleted) {
-      console.log(`[config] Battle of Fortunehold completed changed: ${oldValue} -> ${this.battleOfFortuneholdCompleted}`);
-      this.pathfinderPool.setConfig(this.detectiveLevel, this.battleOfFortuneholdCompleted);
+  /**
+   * The shown route as the nodes walked for each step, for the map in the settings window,
+   * or null when there is no route
+   */
+  getRouteMap(): RouteMap | null {
+    const shownSteps = this.displaySteps.length > 0 ? this.displaySteps : this.steps;
+    if (shownSteps.length === 0) return null;
+
+    // After a sale the shown steps are the rest of the route, starting where the last of the earlier steps was
+    const timings = this.routeProgress.isActive() ? this.routeProgress.getTimings() : [];
+    const earlier = timings.filter(timing => !shownSteps.includes(timing.step));
+    const start = earlier.length > 0 ? earlier[earlier.length - 1].step.location : undefined;
+
+    const { playerState, routingRisk, edgeAdjustments } = this.getPlanningConfig();
+    const key = JSON.stringify([playerState, routingRisk, edgeAdjustments]);
+    if (this.mapGps?.key !== key) {
+      const matrix = readDistanceMatrix(getDistanceMatrixPath(playerState, routingRisk));
+      this.mapGps = { key, gps: new GPS(playerState, matrix, edgeAdjustments, routingRisk) };
+    }
+
+    const cached = this.routeMapCache;
+    if (!cached || cached.steps !== shownSteps || cached.start !== start || cached.gps !== this.mapGps.gps) {
+      this.routeMapCache = { steps: shownSteps, start, gps: this.mapGps.gps, legs: routeLegs(shownSteps, this.mapGps.gps, start) };
+    }
+
+    const progress = this.getRouteProgress();
+    return {
+      legs: this.routeMapCache!.legs,
+      currentStep: this.runCompleted ? shownSteps.length : progress?.currentStep ?? null,
+    };
+  }
+
+  /**
+   * Confirm buys from changes in the active bounty text and teleports from elapsed time
+   */
+  private updateRouteProgress(detectedActive: { [index: number]: string }, now: number): void {
+    this.routeProgress.follow(this.steps);
+
+    for (const [idx, bountyKey] of Object.entries(detectedActive)) {
+      const text = this.rawOcrText[`activeBountyRegion${idx}`] ?? '';
+      const digits = text.replace(/\D+/g, ' ').trim();
+      const baseline = this.activeDigitsBaseline.get(bountyKey);
+      if (baseline === undefined) {
+        this.activeDigitsBaseline.set(bountyKey, digits);
+        continue;
+      }
+      if (digits === baseline) {
+        this.activeDigitsChangedTicks.delete(bountyKey);
+        continue;
+      }
+
+      // Require the change on consecutive ticks so a single misread doesn't count as a buy
+      const ticks = (this.activeDigitsChangedTicks.get(bountyKey) ?? 0) + 1;
+      this.activeDigitsChangedTicks.set(bountyKey, ticks);
+      if (ticks >= 2) {
+        console.log(`[progress] Bought ${bountyKey} (active bounty text changed: "${baseline}" -> "${digits}")`);
+        this.routeProgress.confirmBuy(bountyKey, now);
+        this.activeDigitsBaseline.set(bountyKey, digits);
+        this.activeDigitsChangedTicks.delete(bountyKey);
+      }
+    }
+
+    this.routeProgress.tick(now);
+  }
+
+  setTravelCalibration(enabled: boolean): void {
+    if (this.fixedEdgeAdjustments) return;
+    const oldValue = this.travelCalibrationEnabled;
+    this.travelCalibrationEnabled = enabled;
+    if (oldValue !== this.travelCalibrationEnabled) {
+      console.log(`[config] Travel calibration changed: ${oldValue} -> ${this.travelCalibrationEnabled}`);
+      this.pathfinderPool.setEdgeAdjustments(enabled ? this.travelCalibration.getEdgeAdjustments() : {});
+    }
+  }
+
+  /**
+   * Use the travel times learned for another profile, e.g. after switching profile
+   */
+  setCalibrationPath(calibrationPath?: string): void {
+    this.travelCalibration = new TravelCalibration(calibrationPath);
+    if (this.travelCalibrationEnabled) {
+      this.pathfinderPool.setEdgeAdjustments(this.travelCalibration.getEdgeAdjustments());
+    }
+    console.log('[config] Travel calibration:', calibrationPath ?? 'default');
+  }
+
+  /**
+   * Forget learned travel times and go back to the measured edge weights
+   */
+  resetTravelCalibration(): void {
+    this.travelCalibration.reset();
+    this.pathfinderPool.setEdgeAdjustments({});
+  }
+
+  getTravelCalibrationStatus() {
+    return {
+      enabled: this.travelCalibrationEnabled,
+      runs: this.travelCalibration.getRunCount(),
+      edges: this.travelCalibration.getEdgeCount(),
+    };
+  }
+
+  /**
+   * Learn OCR word templates from the next few frames, read with Tesseract.
+   * Only text that matched a bounty exactly (or the board title) is learned.
+   */
+  captureTemplates(): void {
+    this.templateCaptureFrames = TEMPLATE_CAPTURE_FRAMES;
+    console.log(`[OCR] Capturing word templates from the next ${TEMPLATE_CAPTURE_FRAMES} frames`);
+  }
+
+  getTemplateStatus() {
+    return {
+      ...getTemplateStatus(),
+      capturing: this.templateCaptureFrames > 0,
+    };
+  }
+
+  resetTemplates(): void {
+    this.templateCaptureFrames = 0;
+    resetTemplates();
+  }
+
+  /**
+   * Settings routes are currently planned with, saved with debug recordings
+   */
+  getPlanningConfig() {
+    return {
+      playerState: this.playerState,
+      merchantLevel: this.merchantLevel,
+      inventorySpace: this.inventorySpace,
+      runEnding: this.runEnding,
+      routingRisk: this.routingRisk,
+      pathfindingQuality: this.pathfindingQuality,
+      edgeAdjustments: this.fixedEdgeAdjustments
+        ?? (this.travelCalibrationEnabled ? this.travelCalibration.getEdgeAdjustments() : {}),
+    };
+  }
+
+  /**
+   * Wait until no recalculation is scheduled or running.
+   * Replays call this between frames so each frame sees the same state however long pathfinding takes.
+   */
+  async settle(): Promise<void> {
+    while (this.inFlightFind || this.adjustmentDebounceTimer) {
+      if (this.inFlightFind) {
+        await this.inFlightFind.promise.catch(() => {});
+      } else {
+        await sleep(this.adjustmentDebounceMs);
+      }
     }
   }
 
@@ -198,11 +520,14 @@ export class OCRProcessor {
   }
 
   private doForceOptimalRecalculation(): void {
+    this.unpinRoute('forceOptimal');
+    this.selectedAlternativeSignature = null;
     this.forceOptimal = true;
     console.log('[optimal] Clearing cached solution for forced recalculation');
     this.prevOptimalBounties = [];
     this.kp = 0;
     this.distanceSeconds = NaN;
+    this.p90Seconds = NaN;
 
     const allBounties = [...Object.values(this.activeBounties), ...Object.values(this.boardBounties)];
     if (allBounties.length > 0) {
@@ -215,6 +540,126 @@ export class OCRProcessor {
     }
   }
 
+  /**
+   * Find the best routes for bounties picked by hand in the planner, without the game open.
+   * Uses the current player settings and always evaluates every combination.
+   * Starting a new plan cancels the previous one.
+   */
+  async planRoutes(query: PlannerQuery): Promise<FindBestResult[]> {
+    this.plannerAbortController?.abort();
+    const abortController = new AbortController();
+    this.plannerAbortController = abortController;
+
+    const picked = [...query.activeBounties, ...query.boardBounties];
+    const count = Math.max(1, Math.min(MAX_PLANNER_ROUTES, query.count ?? 3));
+
+    const args: FindBestArgs = {
+      allBounties: picked.map(b => b.bountyKey),
+      playerState: this.playerState,
+      merchantLevel: this.merchantLevel,
+      runEnding: this.runEnding,
+      routingRisk: this.routingRisk,
+      rarities: picked.map(b => b.rarity),
+      quantities: picked.map(b => b.quantity ?? null),
+      inventorySpace: this.inventorySpace,
+      pruningOptions: { maxCombinations: Infinity, pruningThreshold: 1.0 }
+    };
+
+    console.log(`[planner] Finding top ${count} routes for ${picked.length} bounties`);
+    const t0 = nowMsHiRes();
+    try {
+      const results = await this.pathfinderPool.findTop(args, count, this.pathfinderTimeoutMs, abortController.signal);
+      console.log(`[planner] Found ${results.length} routes in ${fmtMs(nowMsHiRes() - t0)}`);
+      return results;
+    } finally {
+      if (this.plannerAbortController === abortController) this.plannerAbortController = null;
+    }
+  }
+
+  /**
+   * Make the overlay follow a route chosen in the planner.
+   * Automatic recomputes are suspended until the run completes or the route is unpinned.
+   */
+  pinRoute(route: FindBestResult): void {
+    if (this.inFlightFind) {
+      this.inFlightFind.abortController.abort();
+      this.inFlightFind = null;
+    }
+    if (this.adjustmentDebounceTimer) {
+      clearTimeout(this.adjustmentDebounceTimer);
+      this.adjustmentDebounceTimer = null;
+    }
+
+    this.pinnedRoute = route;
+    this.forceOptimal = false;
+    this.alternatives = [];
+    this.selectedAlternative = 0;
+    this.selectedAlternativeSignature = null;
+    this.prevOptimalBounties = route.bounties.slice();
+    this.kp = route.kp;
+    this.distanceSeconds = route.distance;
+    this.p90Seconds = route.p90;
+    this.steps = route.actions;
+    this.stepIdx = 0;
+    this.runCompleted = false;
+    this.displaySteps = route.actions;
+    this.displayKp = route.kp;
+    this.displayDistanceSeconds = route.distance;
+    this.displayP90Seconds = route.p90;
+    console.log(`[planner] Pinned route: ${route.bounties.join(', ')} KP/D=${(route.kp / route.distance).toFixed(4)}`);
+  }
+
+  unpinRoute(reason: string): void {
+    if (!this.pinnedRoute) return;
+    this.pinnedRoute = null;
+    console.log(`[planner] Unpinned route: reason=${reason}`);
+  }
+
+  /**
+   * Follow the next of the top bounty sets instead of the best one, wrapping around.
+   * Only while the board is open, since that is when bounties can still be swapped.
+   */
+  cycleAlternative(): void {
+    if (this.pinnedRoute) {
+      console.log('[alternatives] Route pinned from the planner, not cycling');
+      return;
+    }
+    if (!this.prevBoardOpenSignature) {
+      console.log('[alternatives] Board closed, not cycling');
+      return;
+    }
+    if (this.inFlightFind || this.alternatives.length < 2) return;
+
+    this.selectedAlternative = (this.selectedAlternative + 1) % this.alternatives.length;
+    const alternative = this.alternatives[this.selectedAlternative];
+    this.selectedAlternativeSignature = this.selectedAlternative === 0
+      ? null
+      : this.makeAllBountiesSignature(alternative.bounties);
+
+    this.prevOptimalBounties = alternative.bounties;
+    this.kp = alternative.kp;
+    this.distanceSeconds = alternative.distance;
+    this.p90Seconds = alternative.p90;
+    this.steps = alternative.actions;
+    this.stepIdx = 0;
+    this.displaySteps = alternative.actions;
+    this.displayKp = alternative.kp;
+    this.displayDistanceSeconds = alternative.distance;
+    this.displayP90Seconds = alternative.p90;
+    console.log(`[alternatives] Following #${this.selectedAlternative + 1}/${this.alternatives.length}: ${alternative.bounties.join(', ')} KP/D=${(alternative.kp / alternative.distance).toFixed(4)}`);
+  }
+
+  /**
+   * Whether the overlay should list the alternatives: only while choosing bounties on the board
+   */
+  shouldShowAlternatives(): boolean {
+    return this.prevBoardOpenSignature
+      && !this.inFlightFind
+      && !this.pinnedRoute
+      && !this.runCompleted
+      && this.alternatives.length > 1;
+  }
+
   /**
    * Check if pathfinding is currently in progress
    */
@@ -233,6 +678,7 @@ export class OCRProcessor {
     this.processingScreenshot = true;
 
     const tickT0 = nowMsHiRes();
+    this.regionImages = {};
 
     try {
       const scaledWidth = Math.max(1, Math.round(imageWidth * this.scale));
@@ -246,9 +692,12 @@ export class OCRProcessor {
       // Title OCR - always do this to detect board open state
       const titleKey = "bountyBoardTitleRegion";
       const titleT0 = nowMsHiRes();
-      const titleResult = regions[titleKey]
-        ? await this.recognizeRegion(base, regions[titleKey], scaledWidth, scaledHeight)
-        : { text: "" };
+      // Learn templates only from frames where the bounties are read too
+      const learning = this.templateCaptureFrames > 0 && mode !== 'title-only';
+      const titleResult: RecognizeResult = regions[titleKey]
+        ? await this.recognizeRegion(base, regions[titleKey], scaledWidth, scaledHeight, learning ? (text) => text.includes("TIES") : undefined)
+        : { text: "", rarity: null };
+      if (titleResult.image) this.regionImages[titleKey] = titleResult.image;
       this.perf.add('title_ocr', nowMsHiRes() - titleT0);
 
       const boardOpen = titleResult.text.includes("TIES");
@@ -263,6 +712,7 @@ export class OCRProcessor {
             this.displaySteps = [];
             this.displayKp = 0;
             this.displayDistanceSeconds = NaN;
+            this.displayP90Seconds = NaN;
           }
           this.prevBoardOpenSignature = boardOpen;
         }
@@ -290,11 +740,18 @@ export class OCRProcessor {
         const region = regions[key];
         // Mark bounty regions for rarity detection
         const regionWithRarity = { ...region, detectRarity: key.startsWith('activeBountyRegion') || key.startsWith('boardRegion') };
-        const res = await this.recognizeRegion(base, regionWithRarity, scaledWidth, scaledHeight);
-        return { key, text: res.text, rarity: res.rarity };
+        const learn = learning ? (text: string) => matchBountyText(text).matchType === 'exact' : undefined;
+        const res = await this.recognizeRegion(base, regionWithRarity, scaledWidth, scaledHeight, learn);
+        if (res.image) this.regionImages[key] = res.image;
+        return { key, text: res.text, rarity: res.rarity, rarityEvidence: res.rarityEvidence };
       });
       this.perf.add('rest_ocr', nowMsHiRes() - restT0);
 
+      if (learning && --this.templateCaptureFrames === 0) {
+        const status = getTemplateStatus();
+        console.log(`[OCR] Template capture done: ${status.templates} templates for ${status.words} words`);
+      }
+
       const pr0 = nowMsHiRes();
       await this.processOCRResultsAsync([{ key: titleKey, text: titleResult.text }, ...regionResults], boardOpen);
       this.perf.add('process_results_total', nowMsHiRes() - pr0);
@@ -310,85 +767,21 @@ export class OCRProcessor {
     }
   }
 
-  private clampRect(left: number, top: number, width: number, height: number, maxW: number, maxH: number) {
-    let l = Math.max(0, Math.min(left, maxW - 1));
-    let t = Math.max(0, Math.min(top, maxH - 1));
-    let w = Math.max(1, width);
-    let h = Math.max(1, height);
-    if (l + w > maxW) w = Math.max(1, maxW - l);
-    if (t + h > maxH) h = Math.max(1, maxH - t);
-    return { left: l, top: t, width: w, height: h };
-  }
-
-  /**
-   * Detect bounty rarity based on OCR text
-   * Returns 'uncommon' (2x), 'rare' (3x), 'epic' (4x), or null (1x)
-   */
-  private detectBountyRarityFromText(text: string): 'uncommon' | 'rare' | 'epic' | null {
-    const textLower = text.toLowerCase();
-    
-    if (textLower.includes('epic')) {
-      return 'epic'; // 4x multiplier
-    }
-    
-    if (textLower.includes('rare')) {
-      return 'rare'; // 3x multiplier
-    }
-    
-    if (textLower.includes('uncommon')) {
-      return 'uncommon'; // 2x multiplier
-    }
-    
-    return null; // Normal bounty (1x multiplier)
-  }
-
   private async recognizeRegion(
     base: import('sharp').Sharp,
     region: Region,
     scaledImageWidth: number,
-    scaledImageHeight: number
-  ): Promise<{ text: string; rarity?: 'uncommon' | 'rare' | 'epic' | null }> {
-    let left = Math.round(region.x * this.scale);
-    let top = Math.round(region.y * this.scale);
-    let width = Math.round(region.width * this.scale);
-    let height = Math.round(region.height * this.scale);
-
-    // Handle DPI scaling on Windows
-    if (process.platform === 'win32') {
-      // Get the DPI scale factor from Electron
-      const { screen } = require('electron');
-      const { OverlayController } = require('../../');
-      
-      // Calculate scale factor from physical to DIP coordinates
-      const physicalBounds = OverlayController.targetBounds;
-      const dipBounds = screen.screenToDipRect(null, physicalBounds);
-      const dpiScaleFactor = physicalBounds.width / dipBounds.width;
-      
-      // Scale region coordinates to match physical screenshot
-      left = Math.round(left * dpiScaleFactor);
-      top = Math.round(top * dpiScaleFactor);
-      width = Math.round(width * dpiScaleFactor);
-      height = Math.round(height * dpiScaleFactor);
-    }
-
-    const rect = this.clampRect(left, top, width, height, scaledImageWidth, scaledImageHeight);
-
-    const croppedBuffer = await base
-      .clone()
-      .extract({ left: rect.left, top: rect.top, width: rect.width, height: rect.height })
-      .png()
-      .toBuffer();
-
-    const text = await execTesseractFromBuffer(croppedBuffer, this.ocrMethod);
-    const cleanText = text.replace(/\s/g, "");
-    
-    // Detect rarity for bounty regions (not title region)
-    let rarity: 'uncommon' | 'rare' | 'epic' | null = null;
-    if (region && (region as any).detectRarity) {
-      rarity = this.detectBountyRarityFromText(text);
-    }
-    
-    return { text: cleanText, rarity };
+    scaledImageHeight: number,
+    learnTemplates?: (text: string) => boolean
+  ): Promise<RecognizeResult> {
+    return recognizeRegion(base, region, scaledImageWidth, scaledImageHeight, {
+      scale: this.scale,
+      dpiScale: getTargetDpiScale(),
+      ocrMethod: this.ocrMethod,
+      detectRarity: Boolean((region as any).detectRarity),
+      keepImage: this.captureRegionImages,
+      learnTemplates,
+    });
   }
 
   private makeAllBountiesSignature(allBounties: string[]): string {
@@ -402,8 +795,9 @@ export class OCRProcessor {
     detectedActive: { [index: number]: string },
     detectedBoard: { [index: number]: string },
     detectedActiveRarities: { [index: number]: 'uncommon' | 'rare' | 'epic' | null },
-    detectedBoardRarities: { [index: number]: 'uncommon' | 'rare' | 'epic' | null }
-  ): Promise<FindBestResult> {
+    detectedBoardRarities: { [index: number]: 'uncommon' | 'rare' | 'epic' | null },
+    signal?: AbortSignal
+  ): Promise<FindBestResult[]> {
     // Map quality level (1-5) to pruning options
     // Level 1: Heavy pruning (100 combos, 0.90 threshold)
     // Level 2: Moderate pruning (200 combos, 0.92 threshold)
@@ -422,32 +816,33 @@ export class OCRProcessor {
       ? { maxCombinations: Infinity, pruningThreshold: 1.0 }
       : qualitySettings[this.pathfindingQuality] ?? qualitySettings[5];
 
-    // Convert index-based rarities to bounty-key-based rarities
-    const bountyRarities: { [bountyKey: string]: 'uncommon' | 'rare' | 'epic' | null } = {};
-    for (const [indexStr, bountyKey] of Object.entries(detectedActive)) {
-      const index = Number(indexStr);
-      if (index in detectedActiveRarities) {
-        bountyRarities[bountyKey] = detectedActiveRarities[index];
-      }
+    // Rarity and quantity of each slot, in the order of allBounties (active slots, then board slots)
+    const rarities: ('uncommon' | 'rare' | 'epic' | null)[] = [];
+    const quantities: (number | null)[] = [];
+    for (const index of Object.keys(detectedActive).map(Number)) {
+      rarities.push(detectedActiveRarities[index] ?? null);
+      quantities.push(this.activeBountyQuantities[index] ?? null);
     }
-    for (const [indexStr, bountyKey] of Object.entries(detectedBoard)) {
-      const index = Number(indexStr);
-      if (index in detectedBoardRarities) {
-        bountyRarities[bountyKey] = detectedBoardRarities[index];
-      }
+    for (const index of Object.keys(detectedBoard).map(Number)) {
+      rarities.push(detectedBoardRarities[index] ?? null);
+      quantities.push(this.boardBountyQuantities[index] ?? null);
     }
 
     const args: FindBestArgs = {
       allBounties,
-      detectiveLevel: this.detectiveLevel,
-      battleOfFortuneholdCompleted: this.battleOfFortuneholdCompleted,
-      bountyRarities,
+      playerState: this.playerState,
+      merchantLevel: this.merchantLevel,
+      runEnding: this.runEnding,
+      routingRisk: this.routingRisk,
+      rarities,
+      quantities,
+      inventorySpace: this.inventorySpace,
       pruningOptions
     };
     const fb0 = nowMsHiRes();
 
     try {
-      const res = await this.pathfinderPool.findBest(args, this.pathfinderTimeoutMs);
+      const res = await this.pathfinderPool.findTop(args, NUM_ALTERNATIVES, this.pathfinderTimeoutMs, signal);
 
       const dt = nowMsHiRes() - fb0;
       this.perf.add('find_best_bounties', dt);
@@ -465,7 +860,11 @@ export class OCRProcessor {
     } catch (e: any) {
       const dt = nowMsHiRes() - fb0;
       this.perf.add('find_best_bounties', dt);
-      console.error(`[perf] findBestBounties FAILED after ${fmtMs(dt)} boardOpen=${boardOpen} sig='${signature}':`, e?.stack ?? e);
+      if (signal?.aborted) {
+        console.log(`[perf] findBestBounties cancelled after ${fmtMs(dt)} sig='${signature}'`);
+      } else {
+        console.error(`[perf] findBestBounties FAILED after ${fmtMs(dt)} boardOpen=${boardOpen} sig='${signature}':`, e?.stack ?? e);
+      }
       this.forceOptimal = false;
       throw e;
     }
@@ -481,12 +880,17 @@ export class OCRProcessor {
     detectedActiveRarities: { [index: number]: 'uncommon' | 'rare' | 'epic' | null },
     detectedBoardRarities: { [index: number]: 'uncommon' | 'rare' | 'epic' | null }
   ): void {
+    if (this.pinnedRoute) {
+      console.log(`[planner] Route pinned, skipping recompute: reason=${reason}`);
+      return;
+    }
     if (this.inFlightFind && this.inFlightFind.signature === signature) return;
 
     if (this.inFlightFind) {
       const ageMs = Date.now() - this.inFlightFind.startedAtMs;
       if (ageMs > this.pathfinderTimeoutMs + 1000) {
-        console.warn(`[perf] in-flight findBest stale (${ageMs}ms). Clearing and retrying. prevSig='${this.inFlightFind.signature}' newSig='${signature}'`);
+        console.warn(`[perf] in-flight findBest stale (${ageMs}ms). Cancelling and retrying. prevSig='${this.inFlightFind.signature}' newSig='${signature}'`);
+        this.inFlightFind.abortController.abort();
         this.inFlightFind = null;
       } else {
         return;
@@ -496,13 +900,18 @@ export class OCRProcessor {
     this.launchedAtLeastOnce = true;
 
     const startedAtMs = Date.now();
+    const abortController = new AbortController();
     console.log(`[perf] recompute optimal: reason=${reason} boardOpen=${boardOpen} all=${allBounties.length} sig='${signature}'`);
 
     const promise = (async () => {
       try {
-        const optimalResp = await this.computeFindBest(allBounties, boardOpen, signature, detectedActive, detectedBoard, detectedActiveRarities, detectedBoardRarities);
+        const alternatives = await this.computeFindBest(allBounties, boardOpen, signature, detectedActive, detectedBoard, detectedActiveRarities, detectedBoardRarities, abortController.signal);
+        if (this.pinnedRoute) {
+          console.log('[planner] Route pinned while computing, discarding new solution');
+          return;
+        }
 
-        const newEfficiency = optimalResp.kp / optimalResp.distance;
+        const newEfficiency = alternatives[0].kp / alternatives[0].distance;
         const currentEfficiency = this.prevOptimalBounties.length > 0 && this.distanceSeconds > 0
           ? this.kp / this.distanceSeconds
           : 0;
@@ -511,15 +920,33 @@ export class OCRProcessor {
           const improvement = newEfficiency - currentEfficiency;
           console.log(`[optimal] Accepting new solution: KP/D=${newEfficiency.toFixed(4)} (prev=${currentEfficiency.toFixed(4)}, improvement=${improvement.toFixed(4)})`);
 
+          // Keep following the alternative the player cycled to while it is still in the top
+          const keptIndex = this.selectedAlternativeSignature
+            ? alternatives.findIndex(a => this.makeAllBountiesSignature(a.bounties) === this.selectedAlternativeSignature)
+            : -1;
+          if (keptIndex === -1) {
+            this.selectedAlternativeSignature = null;
+          }
+          this.alternatives = alternatives;
+          this.selectedAlternative = Math.max(0, keptIndex);
+          const optimalResp = alternatives[this.selectedAlternative];
+
           this.prevOptimalBounties = optimalResp.bounties;
           this.kp = optimalResp.kp;
           this.distanceSeconds = optimalResp.distance;
+          this.p90Seconds = optimalResp.p90;
+
+          // The board closed before a route was ready, so the run follows this one
+          if (!this.prevBoardOpenSignature && this.runStartTime > 0 && this.runRoute.length === 0) {
+            this.runRoute = optimalResp.actions;
+          }
           
           // Only update display values if run is not completed
           // This preserves the metrics for the "run completed" message
           if (!this.runCompleted) {
             this.displayKp = optimalResp.kp;
             this.displayDistanceSeconds = optimalResp.distance;
+            this.displayP90Seconds = optimalResp.p90;
           }
 
           if (this.stepIdx > 0 && optimalResp.actions.length > 0) {
@@ -568,87 +995,63 @@ export class OCRProcessor {
       }
     })();
 
-    this.inFlightFind = { signature, startedAtMs, promise };
+    this.inFlightFind = { signature, startedAtMs, promise, abortController };
   }
 
   private async processOCRResultsAsync(
-    results: { key: string, text: string, rarity?: 'uncommon' | 'rare' | 'epic' | null }[],
+    results: { key: string, text: string, rarity?: 'uncommon' | 'rare' | 'epic' | null, rarityEvidence?: RarityEvidence }[],
     boardOpen: boolean
   ): Promise<void> {
     const detectedActive: { [index: number]: string } = {};
     const detectedBoard: { [index: number]: string } = {};
     const detectedActiveRarities: { [index: number]: 'uncommon' | 'rare' | 'epic' | null } = {};
     const detectedBoardRarities: { [index: number]: 'uncommon' | 'rare' | 'epic' | null } = {};
+    const detectedActiveQuantities: { [index: number]: number } = {};
+    const detectedBoardQuantities: { [index: number]: number } = {};
 
     // Store raw OCR text for debugging
     this.rawOcrText = {};
     this.matchTypes = {};
+    this.rarityDisagreements = {};
     for (const { key, text } of results) {
       this.rawOcrText[key] = text;
     }
 
-    for (const { key, text, rarity } of results) {
+    for (const { key, text, rarity, rarityEvidence } of results) {
       if (!text) continue;
       if (key === "bountyBoardTitleRegion") continue;
 
-      // Try strict matching first, but only if the bounty name appears early in the text
-      // This prevents false matches like "Soap" appearing in "SoapStall" at the end
-      let bountyKey: string | null = null;
-      let matchType: 'exact' | 'fuzzy' = 'exact';
-      
-      // Always get fuzzy match debug info for display
-      const fuzzyResult = fuzzyMatchBountyWithDebug(text);
-      
-      // Normalize text for case-insensitive matching
-      const textLower = text.toLowerCase();
-      
-      // Sort bounty names by length (longest first) to match more specific names first
-      // This prevents "Painting" from matching before "PortraitPainting"
-      const sortedBountyNames = Array.from(BOUNTY_NAMES).sort((a, b) => b.length - a.length);
-      
-      for (const bountyName of sortedBountyNames) {
-        const bountyNameLower = bountyName.toLowerCase();
-        if (textLower.includes(bountyNameLower) && textLower.includes("6")) {
-          // Check if the bounty name appears in the first 40% of the text
-          const nameIndex = textLower.indexOf(bountyNameLower);
-          const relativePosition = nameIndex / textLower.length;
-          
-          if (relativePosition < 0.4) {
-            // Name appears early - likely the actual bounty name
-            bountyKey = resolveBountyKeyFromName(bountyName);
-            matchType = 'exact';
-            break;
-          }
-        }
-      }
-      
-      // If strict matching fails, use fuzzy matching result
-      if (!bountyKey) {
-        bountyKey = fuzzyResult.bountyKey;
-        if (bountyKey) {
-          matchType = 'fuzzy';
-        }
+      if (rarityEvidence && !rarityEvidence.agree) {
+        this.rarityDisagreements[key] = rarityEvidence;
       }
+
+      // Exact name match near the start of the text, falling back to fuzzy matching
+      const { bountyKey, matchType, topMatches } = matchBountyText(text);
       
       // Always store fuzzy debug info for UI display
-      if (fuzzyResult.topMatches.length > 0) {
-        this.fuzzyDebug[key] = fuzzyResult.topMatches;
+      if (topMatches.length > 0) {
+        this.fuzzyDebug[key] = topMatches;
       }
       
-      if (bountyKey) {
+      if (bountyKey && matchType) {
         this.matchTypes[key] = matchType;
         if (key.startsWith("activeBountyRegion")) {
           const index = parseInt(key.replace("activeBountyRegion", ""), 10);
           detectedActive[index] = bountyKey;
           detectedActiveRarities[index] = rarity || null;
+          detectedActiveQuantities[index] = parseBountyQuantity(text);
         } else if (key.startsWith("boardRegion")) {
           const index = parseInt(key.replace("boardRegion", ""), 10);
           detectedBoard[index] = bountyKey;
           detectedBoardRarities[index] = rarity || null;
+          detectedBoardQuantities[index] = parseBountyQuantity(text);
         }
       }
     }
-    
+
+    this.activeBountyQuantities = detectedActiveQuantities;
+    this.boardBountyQuantities = detectedBoardQuantities;
+
     // Store previous rarities before updating (needed for bounty completion detection)
     const prevActiveRarities = { ...this.activeBountyRarities };
     
@@ -657,7 +1060,7 @@ export class OCRProcessor {
     this.boardBountyRarities = detectedBoardRarities;
 
     // Track newly-added active bounties
-    const now = Date.now();
+    const now = this.now();
     const prevActiveIndices = new Set(Object.keys(this.prevActiveBounties).map(Number));
     const currActiveIndices = Object.keys(detectedActive).map(Number);
 
@@ -682,18 +1085,25 @@ export class OCRProcessor {
     // Reset run completed flag and clear display values when board opens
     if (boardTransition && boardOpen) {
       this.runCompleted = false;
+      this.routeProgress.stop();
       // Clear display values so old run info doesn't persist
       this.displaySteps = [];
       this.displayKp = 0;
       this.displayDistanceSeconds = NaN;
+      this.displayP90Seconds = NaN;
     }
 
     // Timer management
     if (boardTransition && !boardOpen && this.prevBoardOpenSignature) {
-      this.runStartTime = Date.now();
+      this.runStartTime = this.now();
       this.actualRunTimeSeconds = 0;
       this.runBounties = [...this.prevOptimalBounties];
       this.runEstimatedTime = this.distanceSeconds;
+      this.runRoute = [...this.steps];
+      this.runSells = [];
+      this.routeProgress.start(this.steps, this.runStartTime);
+      this.activeDigitsBaseline.clear();
+      this.activeDigitsChangedTicks.clear();
       console.log('[timer] Run started - board closed');
       
       // When board closes, recalculate route based on actual active bounties only
@@ -705,9 +1115,11 @@ export class OCRProcessor {
         
         if (activeSignature !== optimalSignature) {
           console.log('[optimal] Board closed with different bounties than optimal, recalculating for active bounties only');
+          this.unpinRoute('boardClosedWithOtherBounties');
           this.prevOptimalBounties = [];
           this.kp = 0;
           this.distanceSeconds = NaN;
+          this.p90Seconds = NaN;
           this.steps = [];
           this.displaySteps = [];
           this.launchFindBestIfNeeded(activeBountyList, false, activeSignature, 'boardClosedRecalc', detectedActive, {}, detectedActiveRarities, {});
@@ -834,7 +1246,7 @@ export class OCRProcessor {
           const extras = indices.slice(0, indices.length - allowed);
           for (const idx of extras) {
             const expiresAt = this.recentActiveAdds.get(idx);
-            if (expiresAt && expiresAt > Date.now()) {
+            if (expiresAt && expiresAt > this.now()) {
               continue;
             }
             activeDrops.push(idx);
@@ -909,9 +1321,11 @@ export class OCRProcessor {
         if (!boardOpen) {
           // Get rarity multiplier for the completed bounty - use previous rarities since current ones don't include the completed bounty
           const rarity = completedBountyIndex !== undefined ? prevActiveRarities[completedBountyIndex] : null;
-          const rarityMultiplier = rarity === 'epic' ? 4 : rarity === 'rare' ? 3 : rarity === 'uncommon' ? 2 : 1;
-          
-          this.sessionTracker.recordBountyCompletion(completedBounty, rarityMultiplier);
+
+          this.sessionTracker.recordBountyCompletion(completedBounty, rarity ?? null);
+          if (this.runStartTime > 0) {
+            this.runSells.push({ item: completedBounty, elapsedSeconds: (this.now() - this.runStartTime) / 1000 });
+          }
 
           let completedStepIdx = -1;
           for (let idx = 0; idx < this.steps.length; idx++) {
@@ -922,8 +1336,11 @@ export class OCRProcessor {
             }
           }
           if (completedStepIdx !== -1) {
+            this.routeProgress.follow(this.steps);
+            this.routeProgress.confirm(completedStepIdx, now, 'ocr');
             this.stepIdx += completedStepIdx + 1;
             this.steps = this.steps.slice(completedStepIdx + 1);
+            this.routeProgress.follow(this.steps, true);
             this.displaySteps = this.steps;
           }
           
@@ -941,11 +1358,13 @@ export class OCRProcessor {
             const missingBounties = remainingActiveBounties.filter(b => !sellsInSteps.has(b));
             if (missingBounties.length > 0) {
               console.log(`[sanity] Remaining bounties missing from steps: ${missingBounties.join(', ')}. Triggering recalculation.`);
+              this.unpinRoute('sanityCheckFailed');
               const activeBountyList = remainingActiveBounties;
               const activeSignature = this.makeAllBountiesSignature(activeBountyList);
               this.prevOptimalBounties = [];
               this.kp = 0;
               this.distanceSeconds = NaN;
+              this.p90Seconds = NaN;
               this.steps = [];
               this.displaySteps = [];
               this.stepIdx = 0; // Reset stepIdx so new route includes BUY steps
@@ -960,11 +1379,23 @@ export class OCRProcessor {
     if (currActiveCount === 0 && prevActiveCount > 0 && completedBounty) {
       const hasRunTiming = this.runStartTime > 0;
       if (hasRunTiming) {
-        this.actualRunTimeSeconds = (Date.now() - this.runStartTime) / 1000;
+        this.actualRunTimeSeconds = (this.now() - this.runStartTime) / 1000;
         console.log(`[timer] All bounties completed! Actual time: ${this.actualRunTimeSeconds.toFixed(1)}s, Estimated: ${this.runEstimatedTime.toFixed(1)}s`);
-        this.sessionTracker.recordRunCompletion(this.runBounties, this.actualRunTimeSeconds, this.runEstimatedTime);
+        this.sessionTracker.recordRunCompletion(
+          this.runBounties,
+          this.actualRunTimeSeconds,
+          this.runEstimatedTime,
+          this.runRoute,
+          this.runStartTime,
+          this.routeProgress.getTimings()
+        );
+        if (this.travelCalibrationEnabled &&
+            this.travelCalibration.recordRun(this.runRoute, this.runSells, this.playerState, this.routingRisk)) {
+          this.pathfinderPool.setEdgeAdjustments(this.travelCalibration.getEdgeAdjustments());
+        }
       } else {
         console.log(`[timer] All bounties completed! (No timing data - run started before app launch)`);
+        this.sessionTracker.discardRunCompletions();
       }
 
       // Check if route ended with teleport to market (for completion message)
@@ -979,15 +1410,27 @@ export class OCRProcessor {
         break; // Only check the last non-return step
       }
 
+      this.unpinRoute('runCompleted');
+      this.alternatives = [];
+      this.selectedAlternative = 0;
+      this.selectedAlternativeSignature = null;
       console.log(`[optimal] Clearing cached solution to allow new bounties`);
       this.prevOptimalBounties = [];
       this.kp = 0;
       this.distanceSeconds = NaN;
+      this.p90Seconds = NaN;
       this.steps = [];
       // Don't clear displaySteps/displayKp/displayDistanceSeconds - preserve for "run completed" display
       this.runCompleted = true;
       this.runBounties = [];
       this.runEstimatedTime = 0;
+      this.runRoute = [];
+      this.runSells = [];
+      this.routeProgress.stop();
+    }
+
+    if (!boardOpen && this.routeProgress.isActive()) {
+      this.updateRouteProgress(detectedActive, now);
     }
 
     this.activeBounties = updatedActive;
@@ -1034,7 +1477,7 @@ export class OCRProcessor {
     activeBounties: { [index: number]: string },
     boardOpen: boolean
   ): Promise<void> {
-    const now = Date.now();
+    const now = this.now();
     if (now - this.lastConsistencyCheck < this.consistencyCheckIntervalMs) {
       return;
     }
@@ -1089,11 +1532,13 @@ export class OCRProcessor {
     
     if (inconsistent) {
       console.log('[consistency] Steps inconsistent with active bounties, triggering recalculation');
+      this.unpinRoute('consistencyFix');
       
       // Clear cached solution and recalculate based on current active bounties only
       this.prevOptimalBounties = [];
       this.kp = 0;
       this.distanceSeconds = NaN;
+      this.p90Seconds = NaN;
       this.steps = [];
       this.displaySteps = [];
       this.stepIdx = 0; // Reset stepIdx so new route includes BUY steps
@@ -1108,6 +1553,9 @@ export class OCRProcessor {
    * This prevents constant recalculations as they drop/accept bounties
    */
   private scheduleAdjustmentRecalculation(): void {
+    // A pinned route already decides which bounties to accept
+    if (this.pinnedRoute) return;
+
     // Clear existing timer
     if (this.adjustmentDebounceTimer) {
       clearTimeout(this.adjustmentDebounceTimer);
@@ -1121,6 +1569,7 @@ export class OCRProcessor {
       this.prevOptimalBounties = [];
       this.kp = 0;
       this.distanceSeconds = NaN;
+      this.p90Seconds = NaN;
       
       // Trigger recalculation with current bounties
       const allBounties = [...Object.values(this.activeBounties), ...Object.values(this.boardBounties)];
@@ -0,0 +1,125 @@
+import type { Sharp } from 'sharp';
+import { RarityEvidence } from '../config/types';
+
+type Rarity = 'uncommon' | 'rare' | 'epic';
+
+// Hue ranges (degrees) of the frame colour of each rarity: green, blue and purple.
+// Measured loosely from screenshots, check changes against the OCR regression corpus
+const RARITY_HUES: { [rarity in Rarity]: [number, number] } = {
+  uncommon: [75, 165],
+  rare: [185, 255],
+  epic: [260, 320],
+};
+
+// Pixels below these are grey / dark background and don't count towards any colour
+const MIN_SATURATION = 0.35;
+const MIN_VALUE = 0.25;
+
+// Only the outer part of the crop is sampled, where the frame and background are,
+// so item icons and text in the middle don't count
+const RING_FRACTION = 0.2;
+
+// Share of sampled pixels in a rarity's hue range needed to call it that rarity, and to be sure of it
+const MIN_RARITY_FRACTION = 0.08;
+const STRONG_RARITY_FRACTION = 0.25;
+
+// No colour is weaker evidence than colour, the region may not reach the frame.
+// Kept below TEXT_KEYWORD_CONFIDENCE so it never overrides a keyword on its own
+const MAX_NO_COLOUR_CONFIDENCE = 0.8;
+
+// How much a keyword found (or not found) in the OCR text counts. Tesseract often garbles
+// the keyword, so not finding one is weak evidence of a normal bounty
+const TEXT_KEYWORD_CONFIDENCE = 0.9;
+const TEXT_MISSING_CONFIDENCE = 0.3;
+
+export interface ImageRarity {
+  rarity: Rarity | null;
+  /** 0-1 */
+  confidence: number;
+}
+
+/**
+ * Hue (degrees), saturation and value (0-1) of an RGB pixel
+ */
+function toHsv(r: number, g: number, b: number): [number, number, number] {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  let hue = 0;
+  if (delta > 0) {
+    if (max === r) hue = 60 * (((g - b) / delta) % 6);
+    else if (max === g) hue = 60 * ((b - r) / delta + 2);
+    else hue = 60 * ((r - g) / delta + 4);
+  }
+  return [hue < 0 ? hue + 360 : hue, max === 0 ? 0 : delta / max, max / 255];
+}
+
+/**
+ * Guess a bounty's rarity from the colour around the edge of its cropped region
+ */
+export async function classifyRarityFromImage(cropped: Sharp): Promise<ImageRarity> {
+  const { data, info } = await cropped.clone().removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const ringX = Math.max(1, Math.floor(info.width * RING_FRACTION));
+  const ringY = Math.max(1, Math.floor(info.height * RING_FRACTION));
+
+  const counts: { [rarity in Rarity]: number } = { uncommon: 0, rare: 0, epic: 0 };
+  let sampled = 0;
+  for (let y = 0; y < info.height; y++) {
+    const inRingY = y < ringY || y >= info.height - ringY;
+    for (let x = 0; x < info.width; x++) {
+      if (!inRingY && x >= ringX && x < info.width - ringX) continue;
+      sampled++;
+
+      const i = (y * info.width + x) * info.channels;
+      const [hue, saturation, value] = toHsv(data[i], data[i + 1], data[i + 2]);
+      if (saturation < MIN_SATURATION || value < MIN_VALUE) continue;
+      for (const rarity of Object.keys(RARITY_HUES) as Rarity[]) {
+        const [from, to] = RARITY_HUES[rarity];
+        if (hue >= from && hue <= to) counts[rarity]++;
+      }
+    }
+  }
+
+  const ranked = (Object.keys(counts) as Rarity[])
+    .map(rarity => ({ rarity, fraction: sampled > 0 ? counts[rarity] / sampled : 0 }))
+    .sort((a, b) => b.fraction - a.fraction);
+  const [best, second] = ranked;
+
+  if (best.fraction < MIN_RARITY_FRACTION) {
+    // The less colour there is, the surer it's a normal bounty
+    return { rarity: null, confidence: MAX_NO_COLOUR_CONFIDENCE * (1 - best.fraction / MIN_RARITY_FRACTION) };
+  }
+  const strength = Math.min(1, best.fraction / STRONG_RARITY_FRACTION);
+  return { rarity: best.rarity, confidence: strength * (1 - second.fraction / best.fraction) };
+}
+
+/**
+ * Combine the rarity keyword found in the OCR text with the colour classifier.
+ * When they disagree the more confident one wins, with the other's confidence taken off.
+ */
+export function combineRaritySignals(textRarity: Rarity | null, image: ImageRarity): RarityEvidence {
+  const textConfidence = textRarity ? TEXT_KEYWORD_CONFIDENCE : TEXT_MISSING_CONFIDENCE;
+  const agree = textRarity === image.rarity;
+
+  let rarity: Rarity | null;
+  let confidence: number;
+  if (agree) {
+    rarity = textRarity;
+    confidence = 1 - (1 - textConfidence) * (1 - image.confidence);
+  } else if (image.confidence > textConfidence) {
+    rarity = image.rarity;
+    confidence = image.confidence - textConfidence;
+  } else {
+    rarity = textRarity;
+    confidence = textConfidence - image.confidence;
+  }
+
+  return {
+    rarity,
+    confidence,
+    textRarity,
+    imageRarity: image.rarity,
+    imageConfidence: image.confidence,
+    agree,
+  };
+}
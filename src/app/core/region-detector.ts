@@ -0,0 +1,236 @@
+import { Region, Regions } from '../config/types';
+import { execTesseractWordsFromBuffer, OCRWord } from '../utils/tesseract';
+import { matchBountyName } from '../utils/fuzzy-bounty-matcher';
+
+const sharp = require('sharp') as typeof import('sharp');
+
+const SLOT_COUNT = 6;
+const TITLE_KEY = 'bountyBoardTitleRegion';
+
+// Board slots are centred under the title, within this many title widths of its centre
+const BOARD_COLUMN_TITLE_WIDTHS = 1.5;
+
+// Lines whose left edges are within this many line heights of each other are one column
+const COLUMN_TOLERANCE_LINE_HEIGHTS = 2;
+
+// Mean brightness change (0-255) across a row or column needed to count as the edge of a slot
+const MIN_EDGE_STRENGTH = 12;
+
+// Where the bounty name sits in a slot when no edge is found, as a fraction of the slot's size
+const TEXT_TOP_FRACTION = 0.2;
+const TEXT_LEFT_FRACTION = 0.1;
+
+// Padding around the title text, as a fraction of its size
+const TITLE_PADDING_X = 0.25;
+const TITLE_PADDING_Y = 0.5;
+
+export interface RegionProposal {
+  /** Proposed regions in DIP, only those that were found */
+  regions: Regions;
+  /** What couldn't be found, for the user */
+  missing: string[];
+}
+
+interface TextLine {
+  text: string;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+interface GreyImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Join Tesseract's words into lines, with whitespace removed like region text
+ */
+function toLines(words: OCRWord[]): TextLine[] {
+  const lines = new Map<string, TextLine>();
+  for (const word of words) {
+    const key = `${word.block}.${word.paragraph}.${word.line}`;
+    const line = lines.get(key);
+    if (!line) {
+      lines.set(key, { text: word.text, left: word.left, top: word.top, right: word.left + word.width, bottom: word.top + word.height });
+      continue;
+    }
+    line.text += word.text;
+    line.left = Math.min(line.left, word.left);
+    line.top = Math.min(line.top, word.top);
+    line.right = Math.max(line.right, word.left + word.width);
+    line.bottom = Math.max(line.bottom, word.top + word.height);
+  }
+  return [...lines.values()];
+}
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * The largest group of lines that are left-aligned with each other (leftmost on a tie), top to bottom
+ */
+function largestColumn(lines: TextLine[]): TextLine[] {
+  if (lines.length === 0) return [];
+  const tolerance = median(lines.map(l => l.bottom - l.top)) * COLUMN_TOLERANCE_LINE_HEIGHTS;
+  let best: TextLine[] = [];
+  for (const anchor of lines.slice().sort((a, b) => a.left - b.left)) {
+    const column = lines.filter(l => Math.abs(l.left - anchor.left) <= tolerance);
+    if (column.length > best.length) best = column;
+  }
+  return best.sort((a, b) => a.top - b.top);
+}
+
+/**
+ * Row (or column) between `from` and `to` where the brightness changes most across `spanFrom`-`spanTo`,
+ * or null if no edge stands out
+ */
+function findEdge(image: GreyImage, axis: 'row' | 'column', from: number, to: number, spanFrom: number, spanTo: number): number | null {
+  const size = axis === 'row' ? image.height : image.width;
+  const span = axis === 'row' ? image.width : image.height;
+  const start = Math.max(1, Math.round(from));
+  const end = Math.min(size, Math.round(to));
+  const s0 = Math.max(0, Math.round(spanFrom));
+  const s1 = Math.min(span, Math.round(spanTo));
+  if (start >= end || s0 >= s1) return null;
+
+  const at = (pos: number, along: number) =>
+    axis === 'row' ? image.data[pos * image.width + along] : image.data[along * image.width + pos];
+
+  let best: number | null = null;
+  let bestStrength = MIN_EDGE_STRENGTH;
+  for (let pos = start; pos < end; pos++) {
+    let total = 0;
+    for (let along = s0; along < s1; along++) {
+      total += Math.abs(at(pos, along) - at(pos - 1, along));
+    }
+    const strength = total / (s1 - s0);
+    if (strength > bestStrength) {
+      bestStrength = strength;
+      best = pos;
+    }
+  }
+  return best;
+}
+
+/**
+ * Distance between slots from the tops of the bounty names read in them, allowing for unread slots in between
+ */
+function slotPitch(lines: TextLine[]): number | null {
+  const lineHeight = median(lines.map(l => l.bottom - l.top));
+  const gaps = lines.slice(1).map((line, i) => line.top - lines[i].top).filter(gap => gap > lineHeight * 2);
+  if (gaps.length === 0) return null;
+
+  const smallest = Math.min(...gaps);
+  const slots = gaps.map(gap => Math.round(gap / smallest));
+  return gaps.reduce((sum, gap) => sum + gap, 0) / slots.reduce((sum, n) => sum + n, 0);
+}
+
+/**
+ * Lay out all six slots of a list from the bounty names read in it. The first name is taken to be in
+ * the first slot. Slot size keeps the proportions of the current regions; the top-left corner is
+ * the slot's edge when one is found, otherwise an offset from the text.
+ */
+function layoutSlots(image: GreyImage, lines: TextLine[], current: Region[], dpiScale: number): { x: number; y: number; width: number; height: number }[] {
+  // Slots never overlap, whatever the current regions look like
+  const currentPitch = Math.max(current[1].y - current[0].y, current[0].height) * dpiScale;
+  const pitch = slotPitch(lines) ?? currentPitch;
+  const height = pitch * (current[0].height * dpiScale) / currentPitch;
+  const width = height * current[0].width / current[0].height;
+
+  const first = lines[0];
+  const top = findEdge(image, 'row', first.top - pitch / 2, first.top - 1, first.left, first.right)
+    ?? first.top - height * TEXT_TOP_FRACTION;
+  const left = findEdge(image, 'column', first.left - height, first.left - 1, first.top, first.bottom)
+    ?? first.left - width * TEXT_LEFT_FRACTION;
+
+  const slots = [];
+  for (let i = 0; i < SLOT_COUNT; i++) {
+    const y = top + i * pitch;
+    if (y + height > image.height) break;
+    slots.push({ x: left / dpiScale, y: y / dpiScale, width: width / dpiScale, height: height / dpiScale });
+  }
+  return slots;
+}
+
+function toRegion(base: Region, rect: { x: number; y: number; width: number; height: number }): Region {
+  return {
+    ...base,
+    x: Math.max(0, Math.round(rect.x)),
+    y: Math.max(0, Math.round(rect.y)),
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+  };
+}
+
+/**
+ * Find the bounty board title, board slots and active bounty list in a screenshot of the game
+ * and propose regions for them.
+ *
+ * Anchors are read with OCR: the title by the same "TIES" check that detects the board is open,
+ * and slots by bounty names that match exactly. Slot spacing comes from the gaps between names and
+ * slot edges from brightness changes next to the first name. Works best with the board open and
+ * at least two bounties in each list. The proposal is only a starting point for the user to check.
+ *
+ * @param screenshot Encoded screenshot of the game window
+ * @param current Current regions, for the size proportions of slots and to keep their colour and title
+ * @param options.dpiScale Physical pixels per DIP of the screenshot. Default: 1
+ */
+export async function detectRegions(
+  screenshot: Buffer,
+  current: Regions,
+  options: { dpiScale?: number; ocrMethod?: 'native' | 'tesseract-js' | 'auto' } = {}
+): Promise<RegionProposal> {
+  const dpiScale = options.dpiScale ?? 1;
+  const { data, info } = await sharp(screenshot).greyscale().raw().toBuffer({ resolveWithObject: true });
+  const image: GreyImage = { data, width: info.width, height: info.height };
+
+  const png = await sharp(screenshot).png().toBuffer();
+  const lines = toLines(await execTesseractWordsFromBuffer(png, options.ocrMethod ?? 'auto'));
+  console.log(`[calibrate] Read ${lines.length} lines of text`);
+
+  const regions: Regions = {};
+  const missing: string[] = [];
+
+  const title = lines.filter(l => l.text.includes('TIES')).sort((a, b) => a.top - b.top)[0];
+  if (title) {
+    const padX = (title.right - title.left) * TITLE_PADDING_X;
+    const padY = (title.bottom - title.top) * TITLE_PADDING_Y;
+    regions[TITLE_KEY] = toRegion(current[TITLE_KEY], {
+      x: (title.left - padX) / dpiScale,
+      y: (title.top - padY) / dpiScale,
+      width: (title.right - title.left + padX * 2) / dpiScale,
+      height: (title.bottom - title.top + padY * 2) / dpiScale,
+    });
+  } else {
+    missing.push('Board title (open the Guild Bounty Board)');
+  }
+
+  // A line usually holds only the name, without the quantity the overlay's matching looks for
+  const bountyLines = lines.filter(l => matchBountyName(l.text) !== null);
+  const titleCentre = title ? (title.left + title.right) / 2 : 0;
+  const titleWidth = title ? title.right - title.left : 0;
+  const isOnBoard = (line: TextLine) => title !== undefined && line.top > title.bottom &&
+    Math.abs((line.left + line.right) / 2 - titleCentre) <= titleWidth * BOARD_COLUMN_TITLE_WIDTHS;
+
+  const groups: { prefix: string; label: string; lines: TextLine[] }[] = [
+    { prefix: 'boardRegion', label: 'Guild board slots', lines: largestColumn(bountyLines.filter(isOnBoard)) },
+    { prefix: 'activeBountyRegion', label: 'Active bounties', lines: largestColumn(bountyLines.filter(l => !isOnBoard(l))) },
+  ];
+  for (const group of groups) {
+    if (group.lines.length === 0) {
+      missing.push(group.label);
+      continue;
+    }
+    const keys = Array.from({ length: SLOT_COUNT }, (_, i) => `${group.prefix}${i + 1}`);
+    const slots = layoutSlots(image, group.lines, keys.map(key => current[key]), dpiScale);
+    slots.forEach((slot, i) => { regions[keys[i]] = toRegion(current[keys[i]], slot); });
+    console.log(`[calibrate] ${group.label}: ${group.lines.length} bounties read, ${slots.length} slots proposed`);
+  }
+
+  return { regions, missing };
+}
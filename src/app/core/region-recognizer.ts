@@ -0,0 +1,135 @@
+import type { Sharp } from 'sharp';
+import { Region, RarityEvidence } from '../config/types';
+import { execTesseractFromBuffer } from '../utils/tesseract';
+import { recognizeWithTemplates, recordTemplateOutcome, learnTemplates } from '../utils/template-ocr';
+import { classifyRarityFromImage, combineRaritySignals } from './rarity-classifier';
+
+export type BountyRarity = 'uncommon' | 'rare' | 'epic' | null;
+
+// Template matches below this are read again with Tesseract
+const MIN_TEMPLATE_CONFIDENCE = 0.8;
+
+export interface RecognizeOptions {
+  /** Scale the screenshot was resized by before OCR. Default: 1 */
+  scale?: number;
+  /** Physical pixels per DIP when regions are in DIP but the screenshot is physical (Windows). Default: 1 */
+  dpiScale?: number;
+  /** 'template' matches word templates and falls back to Tesseract ('auto') on low confidence. Default: 'native' */
+  ocrMethod?: 'native' | 'tesseract-js' | 'auto' | 'template';
+  /**
+   * Read the region with Tesseract and learn word templates from it when the text passes this check
+   * (e.g. it matched a bounty exactly), so only text that is known to be right is learned
+   */
+  learnTemplates?: (text: string) => boolean;
+  /** Also detect the bounty's rarity from the text and the region's colour */
+  detectRarity?: boolean;
+  /** Return the cropped PNG that was OCR'd */
+  keepImage?: boolean;
+}
+
+export interface RecognizeResult {
+  text: string;
+  rarity: BountyRarity;
+  /** How the rarity was decided, when requested */
+  rarityEvidence?: RarityEvidence;
+  image?: Buffer;
+}
+
+export function clampRect(left: number, top: number, width: number, height: number, maxW: number, maxH: number) {
+  let l = Math.max(0, Math.min(left, maxW - 1));
+  let t = Math.max(0, Math.min(top, maxH - 1));
+  let w = Math.max(1, width);
+  let h = Math.max(1, height);
+  if (l + w > maxW) w = Math.max(1, maxW - l);
+  if (t + h > maxH) h = Math.max(1, maxH - t);
+  return { left: l, top: t, width: w, height: h };
+}
+
+/**
+ * Detect bounty rarity based on OCR text
+ * Returns 'uncommon' (2x), 'rare' (3x), 'epic' (4x), or null (1x)
+ */
+export function detectBountyRarityFromText(text: string): BountyRarity {
+  const textLower = text.toLowerCase();
+
+  if (textLower.includes('epic')) {
+    return 'epic'; // 4x multiplier
+  }
+
+  if (textLower.includes('rare')) {
+    return 'rare'; // 3x multiplier
+  }
+
+  if (textLower.includes('uncommon')) {
+    return 'uncommon'; // 2x multiplier
+  }
+
+  return null; // Normal bounty (1x multiplier)
+}
+
+async function readText(image: Buffer, options: RecognizeOptions): Promise<string> {
+  const method = options.ocrMethod ?? 'native';
+
+  if (options.learnTemplates) {
+    const text = await execTesseractFromBuffer(image, method === 'template' ? 'auto' : method);
+    if (options.learnTemplates(text.replace(/\s/g, ""))) {
+      await learnTemplates(image, text);
+    }
+    return text;
+  }
+
+  if (method === 'template') {
+    const result = await recognizeWithTemplates(image);
+    const matched = result.confidence >= MIN_TEMPLATE_CONFIDENCE;
+    recordTemplateOutcome(matched);
+    return matched ? result.text : await execTesseractFromBuffer(image, 'auto');
+  }
+
+  return await execTesseractFromBuffer(image, method);
+}
+
+/**
+ * Crop a region out of a screenshot and OCR it.
+ *
+ * Doesn't depend on Electron, so it can also be run over saved screenshots
+ * (see src/tests/test-ocr-regression.js).
+ *
+ * @param base The screenshot, already resized by `options.scale`
+ * @returns Text with whitespace removed, and the rarity and cropped image if requested
+ */
+export async function recognizeRegion(
+  base: Sharp,
+  region: Region,
+  scaledImageWidth: number,
+  scaledImageHeight: number,
+  options: RecognizeOptions = {}
+): Promise<RecognizeResult> {
+  const scale = options.scale ?? 1;
+  const dpiScale = options.dpiScale ?? 1;
+  const left = Math.round(Math.round(region.x * scale) * dpiScale);
+  const top = Math.round(Math.round(region.y * scale) * dpiScale);
+  const width = Math.round(Math.round(region.width * scale) * dpiScale);
+  const height = Math.round(Math.round(region.height * scale) * dpiScale);
+
+  const rect = clampRect(left, top, width, height, scaledImageWidth, scaledImageHeight);
+
+  const cropped = base
+    .clone()
+    .extract({ left: rect.left, top: rect.top, width: rect.width, height: rect.height });
+  const croppedBuffer = await cropped.clone().png().toBuffer();
+
+  const text = await readText(croppedBuffer, options);
+  const cleanText = text.replace(/\s/g, "");
+
+  const result: RecognizeResult = { text: cleanText, rarity: null };
+
+  // Detect rarity for bounty regions (not title region)
+  if (options.detectRarity) {
+    result.rarityEvidence = combineRaritySignals(detectBountyRarityFromText(text), await classifyRarityFromImage(cropped));
+    result.rarity = result.rarityEvidence.rarity;
+  }
+  if (options.keepImage) {
+    result.image = croppedBuffer;
+  }
+  return result;
+}
@@ -0,0 +1,138 @@
+import { Step, StepTiming } from '../config/types';
+
+/**
+ * Follows the player through the route shown in the overlay.
+ *
+ * Steps are completed in order, so progress is just how many leading steps are done.
+ * Sells and buys are confirmed from OCR, teleports once their estimated time has passed.
+ * Confirming a step also completes every step before it, with timestamps interpolated
+ * from the route's estimates.
+ *
+ * Step distances are cumulative seconds from the start of the route, so comparing them with
+ * the time since the last confirmed step gives how far ahead of or behind the estimate the player is.
+ */
+export class RouteProgressTracker {
+  private steps: Step[] = [];
+  private doneCount = 0;
+  private active = false;
+  private timings: StepTiming[] = [];
+
+  // Last confirmed point on the route. `distance` is null when the route was replaced
+  // mid-run and its estimates no longer line up with where the player is
+  private anchorAt = 0;
+  private anchorDistance: number | null = 0;
+
+  // Seconds behind the estimate as of the anchor (negative = ahead)
+  private delta = 0;
+
+  start(steps: Step[], startedAt: number): void {
+    this.steps = steps;
+    this.doneCount = 0;
+    this.active = true;
+    this.timings = [];
+    this.anchorAt = startedAt;
+    this.anchorDistance = 0;
+    this.delta = 0;
+  }
+
+  stop(): void {
+    this.active = false;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Switch to the steps the overlay is now showing
+   * @param continuesRoute The new steps are the rest of the current route (e.g. after a sale),
+   *   so its estimates still apply. Otherwise the estimates are ignored until the next confirmed step
+   */
+  follow(steps: Step[], continuesRoute: boolean = false): void {
+    if (steps === this.steps) return;
+    this.steps = steps;
+    this.doneCount = 0;
+    // Nothing confirmed yet means the player is still where the route starts
+    if (!continuesRoute && this.timings.length > 0) {
+      this.anchorDistance = null;
+    }
+  }
+
+  /**
+   * The player finished `steps[index]` at `at`, along with every step before it
+   */
+  confirm(index: number, at: number, source: 'ocr' | 'time'): void {
+    if (!this.active || index < this.doneCount || index >= this.steps.length) return;
+
+    const confirmed = this.steps[index];
+    for (let i = this.doneCount; i <= index; i++) {
+      const step = this.steps[i];
+      let stepAt = at;
+      if (i < index && this.anchorDistance !== null) {
+        const span = confirmed.distance - this.anchorDistance;
+        const fraction = span > 0 ? (step.distance - this.anchorDistance) / span : 1;
+        stepAt = this.anchorAt + (at - this.anchorAt) * Math.min(1, Math.max(0, fraction));
+      }
+      this.timings.push({ step, at: stepAt, source: i === index ? source : 'implied' });
+    }
+
+    // Time-based confirmations say nothing about the player's pace
+    if (source !== 'time' && this.anchorDistance !== null) {
+      this.delta += (at - this.anchorAt) / 1000 - (confirmed.distance - this.anchorDistance);
+    }
+    this.anchorAt = at;
+    this.anchorDistance = confirmed.distance;
+    this.doneCount = index + 1;
+  }
+
+  /**
+   * An active bounty's items were bought
+   */
+  confirmBuy(item: string, at: number): void {
+    const index = this.steps.findIndex((step, i) => i >= this.doneCount && step.type === 'buy' && step.item === item);
+    if (index !== -1) {
+      this.confirm(index, at, 'ocr');
+    }
+  }
+
+  /**
+   * Complete teleports whose estimated time has passed
+   */
+  tick(now: number): void {
+    while (this.active && this.anchorDistance !== null && this.doneCount < this.steps.length) {
+      const step = this.steps[this.doneCount];
+      if (step.type !== 'teleport') return;
+      const dueAt = this.anchorAt + (step.distance - this.anchorDistance) * 1000;
+      if (now < dueAt) return;
+      this.confirm(this.doneCount, dueAt, 'time');
+    }
+  }
+
+  /**
+   * Index of the step the player is working on, in the steps passed to {@link follow}
+   */
+  getCurrentIndex(): number {
+    return this.doneCount;
+  }
+
+  getSteps(): Step[] {
+    return this.steps;
+  }
+
+  /**
+   * Seconds behind the estimate (negative = ahead). Grows live while the current step is overdue.
+   * Null when no run is being followed.
+   */
+  getDeltaSeconds(now: number): number | null {
+    if (!this.active) return null;
+    if (this.anchorDistance === null || this.doneCount >= this.steps.length) return this.delta;
+
+    const current = this.steps[this.doneCount];
+    const overdue = (now - this.anchorAt) / 1000 - (current.distance - this.anchorDistance);
+    return overdue > 0 ? this.delta + overdue : this.delta;
+  }
+
+  getTimings(): StepTiming[] {
+    return this.timings.slice();
+  }
+}
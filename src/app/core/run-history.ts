@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RunRecord, HistoryAggregate, SessionHistory } from '../config/types';
+import { getHistoryDir } from '../utils/paths';
+
+// Bump when the index layout changes so old indexes are rebuilt from the runs file
+const INDEX_VERSION = 1;
+
+// Runs kept in memory for the Session tab
+const MAX_RECENT_RUNS = 50;
+
+// How much of the end of the runs file is read at startup to find the recent runs
+const RECENT_RUNS_TAIL_BYTES = 256 * 1024;
+
+type DayTotals = Omit<HistoryAggregate, 'periodStart'>;
+
+interface HistoryIndex {
+  version: number;
+  /** Size of the runs file the index covers, so runs appended after a crash are picked up */
+  bytes: number;
+  runs: number;
+  /** Totals per local day (YYYY-MM-DD) */
+  days: { [day: string]: DayTotals };
+}
+
+/**
+ * Format a timestamp as a local YYYY-MM-DD day
+ */
+function toDayKey(timeMs: number): string {
+  const date = new Date(timeMs);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Monday of the week a local day falls in
+ */
+function toWeekKey(dayKey: string): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  date.setDate(date.getDate() - daysSinceMonday);
+  return toDayKey(date.getTime());
+}
+
+function emptyTotals(): DayTotals {
+  return { runs: 0, bounties: 0, kp: 0, estimatedSeconds: 0, actualSeconds: 0 };
+}
+
+function addToTotals(totals: DayTotals, other: DayTotals): void {
+  totals.runs += other.runs;
+  totals.bounties += other.bounties;
+  totals.kp += other.kp;
+  totals.estimatedSeconds += other.estimatedSeconds;
+  totals.actualSeconds += other.actualSeconds;
+}
+
+function parseRunLines(text: string): RunRecord[] {
+  const runs: RunRecord[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      runs.push(JSON.parse(line));
+    } catch {
+      console.warn('[history] Skipping unreadable run record');
+    }
+  }
+  return runs;
+}
+
+/**
+ * Persistent record of completed runs.
+ *
+ * Runs are appended to `runs.jsonl`, one JSON object per line, and never rewritten.
+ * `runs-index.json` keeps per-day totals so aggregates don't need the whole file, and
+ * remembers how many bytes of the runs file it covers so a missing or stale index is
+ * brought up to date from the runs file at startup.
+ */
+export class RunHistory {
+  private readonly runsPath: string;
+  private readonly indexPath: string;
+  private index: HistoryIndex = { version: INDEX_VERSION, bytes: 0, runs: 0, days: {} };
+  private recentRuns: RunRecord[] = [];
+
+  constructor(dir: string = getHistoryDir()) {
+    this.runsPath = path.join(dir, 'runs.jsonl');
+    this.indexPath = path.join(dir, 'runs-index.json');
+    try {
+      fs.mkdirSync(dir, { recursive: true });
+      this.load();
+    } catch (err) {
+      console.error('[history] Failed to load run history:', err);
+    }
+  }
+
+  private load(): void {
+    const fileSize = fs.existsSync(this.runsPath) ? fs.statSync(this.runsPath).size : 0;
+
+    let index: HistoryIndex | null = null;
+    try {
+      index = JSON.parse(fs.readFileSync(this.indexPath, 'utf8'));
+    } catch {
+      // Missing or unreadable, rebuilt below
+    }
+
+    if (!index || index.version !== INDEX_VERSION || index.bytes > fileSize) {
+      if (fileSize > 0) {
+        console.log('[history] Rebuilding run history index');
+      }
+      index = { version: INDEX_VERSION, bytes: 0, runs: 0, days: {} };
+    }
+    this.index = index;
+
+    // Fold in anything appended after the index was last written
+    if (index.bytes < fileSize) {
+      const missed = parseRunLines(this.readRange(index.bytes, fileSize));
+      for (const run of missed) {
+        this.addToIndex(run);
+      }
+      this.index.bytes = fileSize;
+      this.writeIndex();
+    }
+
+    const tailStart = Math.max(0, fileSize - RECENT_RUNS_TAIL_BYTES);
+    let tail = this.readRange(tailStart, fileSize);
+    if (tailStart > 0) {
+      tail = tail.slice(tail.indexOf('\n') + 1); // Drop the partial first line
+    }
+    this.recentRuns = parseRunLines(tail).slice(-MAX_RECENT_RUNS);
+
+    console.log(`[history] Loaded ${this.index.runs} runs from ${this.runsPath}`);
+  }
+
+  private readRange(start: number, end: number): string {
+    if (end <= start) return '';
+    const buffer = Buffer.alloc(end - start);
+    const fd = fs.openSync(this.runsPath, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, buffer.length, start);
+    } finally {
+      fs.closeSync(fd);
+    }
+    return buffer.toString('utf8');
+  }
+
+  private addToIndex(run: RunRecord): void {
+    const day = toDayKey(run.completedAt);
+    const totals = this.index.days[day] ?? emptyTotals();
+    addToTotals(totals, {
+      runs: 1,
+      bounties: run.bounties.length,
+      kp: run.kp,
+      estimatedSeconds: run.estimatedSeconds,
+      actualSeconds: run.actualSeconds,
+    });
+    this.index.days[day] = totals;
+    this.index.runs++;
+  }
+
+  private writeIndex(): void {
+    // Write then rename so a crash never leaves a half-written index
+    const tmpPath = `${this.indexPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.index), 'utf8');
+    fs.renameSync(tmpPath, this.indexPath);
+  }
+
+  append(run: RunRecord): void {
+    try {
+      // A crash mid-write can leave a partial last line, which must not swallow this run
+      const fileSize = fs.existsSync(this.runsPath) ? fs.statSync(this.runsPath).size : 0;
+      const separator = fileSize > 0 && this.readRange(fileSize - 1, fileSize) !== '\n' ? '\n' : '';
+      const line = separator + JSON.stringify(run) + '\n';
+      fs.appendFileSync(this.runsPath, line, 'utf8');
+      this.addToIndex(run);
+      this.index.bytes += Buffer.byteLength(line, 'utf8');
+      this.writeIndex();
+    } catch (err) {
+      console.error('[history] Failed to save run:', err);
+    }
+
+    this.recentRuns.push(run);
+    if (this.recentRuns.length > MAX_RECENT_RUNS) {
+      this.recentRuns.shift();
+    }
+  }
+
+  getRecentRuns(limit: number = MAX_RECENT_RUNS): RunRecord[] {
+    return this.recentRuns.slice(-limit).reverse();
+  }
+
+  /**
+   * Totals for each of the last `count` days, most recent first. Days without runs are included.
+   */
+  getDailyAggregates(count: number, now: number = Date.now()): HistoryAggregate[] {
+    const aggregates: HistoryAggregate[] = [];
+    const date = new Date(now);
+    for (let i = 0; i < count; i++) {
+      const day = toDayKey(date.getTime());
+      aggregates.push({ periodStart: day, ...(this.index.days[day] ?? emptyTotals()) });
+      date.setDate(date.getDate() - 1);
+    }
+    return aggregates;
+  }
+
+  /**
+   * Totals for each of the last `count` weeks (starting Monday), most recent first
+   */
+  getWeeklyAggregates(count: number, now: number = Date.now()): HistoryAggregate[] {
+    const weeks = new Map<string, DayTotals>();
+    for (const [day, totals] of Object.entries(this.index.days)) {
+      const week = toWeekKey(day);
+      const weekTotals = weeks.get(week) ?? emptyTotals();
+      addToTotals(weekTotals, totals);
+      weeks.set(week, weekTotals);
+    }
+
+    const aggregates: HistoryAggregate[] = [];
+    const date = new Date(now);
+    for (let i = 0; i < count; i++) {
+      const week = toWeekKey(toDayKey(date.getTime()));
+      aggregates.push({ periodStart: week, ...(weeks.get(week) ?? emptyTotals()) });
+      date.setDate(date.getDate() - 7);
+    }
+    return aggregates;
+  }
+
+  getSummary(days: number = 7, weeks: number = 4, recentRuns: number = 10): SessionHistory {
+    return {
+      days: this.getDailyAggregates(days),
+      weeks: this.getWeeklyAggregates(weeks),
+      recentRuns: this.getRecentRuns(recentRuns),
+      totalRuns: this.index.runs,
+    };
+  }
+}
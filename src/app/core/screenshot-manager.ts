@@ -2,23 +2,69 @@ import { nativeImage } from 'electron';
 import { OverlayController } from '../../';
 import { Regions, OCRData } from '../config/types';
 import { OCRProcessor } from './ocr-processor';
+import { DebugRecorder, Recording, readRecordedFrame } from './debug-recorder';
 import { PerfWindow, nowMsHiRes } from '../utils/perf';
 import { sleep } from '../utils/async';
-import { formatSteps } from '../utils/formatting';
+import { formatSteps, formatAlternatives } from '../utils/formatting';
 import { SCREENSHOT_INTERVAL_MS, BOARD_CHECK_INTERVAL_MS, ACTIVE_BOUNTY_INTERVAL_MS } from '../config/constants';
 
+type ScreenshotMode = 'full' | 'active' | 'title-only';
+
+/**
+ * Names of the OCRData fields that differ between a recorded tick and its replay
+ */
+function diffOCRData(recorded: OCRData, replayed: OCRData): string[] {
+  const keys = new Set([...Object.keys(recorded), ...Object.keys(replayed)]) as Set<keyof OCRData>;
+  return [...keys].filter(key => JSON.stringify(recorded[key]) !== JSON.stringify(replayed[key]));
+}
+
 export class ScreenshotManager {
   private stopped = false;
   private readonly perf: PerfWindow;
   private lastActiveBountyCheck = 0;
+  private recorder: DebugRecorder | null = null;
+  private readonly now: () => number;
 
   constructor(
     private ocrProcessor: OCRProcessor,
     private regions: Regions,
     private onOCRUpdate?: (ocrData: OCRData) => void,
-    private options?: { perfWindowSec?: number }
+    private options?: { perfWindowSec?: number; clock?: () => number }
   ) {
     this.perf = new PerfWindow(Math.max(5, options?.perfWindowSec ?? 30) * 1000);
+    this.now = options?.clock ?? Date.now;
+  }
+
+  /**
+   * Save every processed screenshot and its OCR results, or stop with null
+   */
+  setRecorder(recorder: DebugRecorder | null): void {
+    this.recorder = recorder;
+    this.ocrProcessor.captureRegionImages = recorder !== null;
+  }
+
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  private async processFrame(frame: Buffer, width: number, height: number, mode: ScreenshotMode): Promise<void> {
+    await this.ocrProcessor.processScreenshot(frame, width, height, this.regions, mode);
+    if (!this.recorder) return;
+
+    this.recorder.record({
+      // After processing, which is when the OCR processor read the clock for this frame
+      at: this.now(),
+      mode,
+      width,
+      height,
+      regions: this.regions,
+      frame,
+      regionImages: this.ocrProcessor.regionImages,
+      rawOcrText: { ...this.ocrProcessor.rawOcrText },
+      matchTypes: { ...this.ocrProcessor.matchTypes },
+      fuzzyDebug: { ...this.ocrProcessor.fuzzyDebug },
+      ocrData: this.buildOCRData(),
+    });
   }
 
   start(): void {
@@ -57,15 +103,15 @@ export class ScreenshotManager {
             
             if (boardWasOpen) {
               // Board is open - do full OCR
-              await this.ocrProcessor.processScreenshot(jpegBuffer, w, h, this.regions, 'full');
+              await this.processFrame(jpegBuffer, w, h, 'full');
               this.lastActiveBountyCheck = now;
             } else if (shouldCheckActiveBounties) {
               // Board closed, time for active bounty check
-              await this.ocrProcessor.processScreenshot(jpegBuffer, w, h, this.regions, 'active');
+              await this.processFrame(jpegBuffer, w, h, 'active');
               this.lastActiveBountyCheck = now;
             } else {
               // Board closed, just check if board opened
-              await this.ocrProcessor.processScreenshot(jpegBuffer, w, h, this.regions, 'title-only');
+              await this.processFrame(jpegBuffer, w, h, 'title-only');
             }
 
             // If board just opened, immediately do a full OCR to get board bounties
@@ -76,7 +122,7 @@ export class ScreenshotManager {
               if (screenshotBuffer2 && screenshotBuffer2.length > 0) {
                 const screenshotImage2 = nativeImage.createFromBuffer(screenshotBuffer2, { width: w, height: h });
                 const jpegBuffer2 = screenshotImage2.toJPEG(80);
-                await this.ocrProcessor.processScreenshot(jpegBuffer2, w, h, this.regions, 'full');
+                await this.processFrame(jpegBuffer2, w, h, 'full');
                 this.lastActiveBountyCheck = Date.now();
               }
             }
@@ -109,6 +155,49 @@ export class ScreenshotManager {
     this.stopped = true;
   }
 
+  /**
+   * Capture the game window as a PNG, outside the OCR loop (e.g. for auto-calibration)
+   */
+  captureScreenshot(): Buffer | null {
+    const screenshotBuffer = OverlayController.screenshot();
+    if (!screenshotBuffer || screenshotBuffer.length === 0) return null;
+    const { width, height } = OverlayController.targetBounds;
+    return nativeImage.createFromBuffer(screenshotBuffer, { width, height }).toPNG();
+  }
+
+  /**
+   * Feed a recording back through the OCR processor instead of capturing the screen.
+   *
+   * Frames are processed in the recorded order and mode, with the clock set to each frame's
+   * recorded time and pathfinding finished before the next frame, so a recording always
+   * ends in the same state. Ticks whose OCRData differs from the recording are logged.
+   *
+   * @param setTime Moves the clock the OCR processor and this manager were created with
+   */
+  async replay(recording: Recording, setTime: (at: number) => void): Promise<void> {
+    this.stop();
+    console.log(`[replay] Replaying ${recording.ticks.length} ticks from ${recording.dir}`);
+
+    let differing = 0;
+    for (const tick of recording.ticks) {
+      this.regions = tick.regions;
+      setTime(tick.at);
+      await this.ocrProcessor.processScreenshot(readRecordedFrame(recording, tick), tick.width, tick.height, tick.regions, tick.mode);
+
+      const ocrData = this.buildOCRData();
+      const differences = diffOCRData(tick.ocrData, ocrData);
+      if (differences.length > 0) {
+        differing++;
+        console.log(`[replay] Tick ${tick.tick} (${tick.mode}) differs from the recording: ${differences.join(', ')}`);
+      }
+      this.onOCRUpdate?.(ocrData);
+
+      await this.ocrProcessor.settle();
+    }
+
+    console.log(`[replay] Finished: ${differing} of ${recording.ticks.length} ticks differed from the recording`);
+  }
+
   getPerfStats() {
     return this.perf.getStats();
   }
@@ -124,14 +213,20 @@ export class ScreenshotManager {
       status = activeBountyKeys === optimalBountyKeys ? 'optimal' : 'not-optimal';
     }
 
-    const stepsText = formatSteps(
+    let stepsText = formatSteps(
       this.ocrProcessor.displaySteps.length > 0 ? this.ocrProcessor.displaySteps : this.ocrProcessor.steps,
       this.ocrProcessor.displayKp || this.ocrProcessor.kp,
       this.ocrProcessor.displayDistanceSeconds || this.ocrProcessor.distanceSeconds,
       this.ocrProcessor.runCompleted,
-      this.ocrProcessor.runEndsWithTeleportToMarket
+      this.ocrProcessor.runEndsWithTeleportToMarket,
+      this.ocrProcessor.getRouteProgress(),
+      this.ocrProcessor.displayP90Seconds || this.ocrProcessor.p90Seconds
     );
 
+    if (this.ocrProcessor.shouldShowAlternatives()) {
+      stepsText += '<br><br>' + formatAlternatives(this.ocrProcessor.alternatives, this.ocrProcessor.selectedAlternative);
+    }
+
     return {
       steps: stepsText,
       activeDrops: this.ocrProcessor.activeDrops,
@@ -145,12 +240,14 @@ export class ScreenshotManager {
       rawOcrText: { ...this.ocrProcessor.rawOcrText },
       matchTypes: { ...this.ocrProcessor.matchTypes },
       fuzzyDebug: { ...this.ocrProcessor.fuzzyDebug },
+      rarityDisagreements: { ...this.ocrProcessor.rarityDisagreements },
       optimalBounties: this.ocrProcessor.prevOptimalBounties.slice(),
       status,
+      routePinned: this.ocrProcessor.pinnedRoute !== null,
       boardOpen: this.ocrProcessor.prevBoardOpenSignature,
       sessionStats: {
         totalKpEarned: this.ocrProcessor.getSessionStats().totalKpEarned,
-        sessionDurationSeconds: (Date.now() - this.ocrProcessor.getSessionStats().sessionStartTime) / 1000,
+        sessionDurationSeconds: (this.now() - this.ocrProcessor.getSessionStats().sessionStartTime) / 1000,
         totalBountiesCompleted: this.ocrProcessor.getSessionStats().totalBountiesCompleted,
       }
     };
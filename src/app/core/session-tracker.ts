@@ -1,8 +1,11 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { SessionStats } from '../config/types';
-import { bounties as bountyData } from '../../algorithm/bounties';
+import { SessionStats, SessionHistory, Step, StepTiming } from '../config/types';
+import { getBountyKp, RARITY_MULTIPLIERS } from '../../algorithm/bounties';
 import { getLogsDir } from '../utils/paths';
+import { RunHistory } from './run-history';
+
+type Rarity = 'uncommon' | 'rare' | 'epic' | null;
 
 /**
  * Format a timestamp for logging (HH:MM:SS.mmm)
@@ -22,12 +25,22 @@ export class SessionTracker {
     totalDurationSeconds: 0,
     totalBountiesCompleted: 0,
     bountyTypeCounts: new Map<string, number>(),
-    sessionStartTime: Date.now()
+    sessionStartTime: 0
   };
 
   private logPath: string;
-
-  constructor() {
+  private merchantLevel: number;
+  private readonly history: RunHistory;
+  private readonly now: () => number;
+
+  // Bounties completed since the last run ended, saved with the run record
+  private runCompletions: { bountyKey: string; rarity: Rarity; kp: number }[] = [];
+
+  constructor(merchantLevel: number = 500, history: RunHistory = new RunHistory(), clock: () => number = Date.now) {
+    this.merchantLevel = merchantLevel;
+    this.history = history;
+    this.now = clock;
+    this.stats.sessionStartTime = this.now();
     const logsDir = getLogsDir();
     if (!fs.existsSync(logsDir)) {
       fs.mkdirSync(logsDir, { recursive: true });
@@ -47,9 +60,14 @@ export class SessionTracker {
     }
   }
 
-  recordBountyCompletion(bountyKey: string, rarityMultiplier: number = 1): void {
-    const baseKp = (bountyData as any)[bountyKey]?.kp || 0;
-    const bountyKp = baseKp * rarityMultiplier;
+  setMerchantLevel(level: number): void {
+    this.merchantLevel = level;
+  }
+
+  recordBountyCompletion(bountyKey: string, rarity: Rarity = null): void {
+    const baseKp = getBountyKp(bountyKey, this.merchantLevel);
+    const bountyKp = baseKp * (rarity ? RARITY_MULTIPLIERS[rarity] : 1);
+    this.runCompletions.push({ bountyKey, rarity, kp: bountyKp });
     this.stats.totalBountiesCompleted++;
     this.stats.totalKpEarned += bountyKp;
     this.stats.bountyTypeCounts.set(
@@ -63,14 +81,38 @@ export class SessionTracker {
   recordRunCompletion(
     runBounties: string[],
     actualTimeSeconds: number,
-    estimatedTimeSeconds: number
+    estimatedTimeSeconds: number,
+    route: Step[] = [],
+    startedAt: number = this.now() - actualTimeSeconds * 1000,
+    stepTimes: StepTiming[] = []
   ): void {
     this.stats.totalDurationSeconds += actualTimeSeconds;
     this.logRunCompletion(runBounties, actualTimeSeconds, estimatedTimeSeconds);
+
+    this.history.append({
+      startedAt,
+      completedAt: this.now(),
+      bounties: this.runCompletions.map(c => c.bountyKey),
+      rarities: this.runCompletions.map(c => c.rarity),
+      kp: this.runCompletions.reduce((sum, c) => sum + c.kp, 0),
+      estimatedSeconds: estimatedTimeSeconds,
+      actualSeconds: actualTimeSeconds,
+      route,
+      stepTimes,
+      merchantLevel: this.merchantLevel,
+    });
+    this.runCompletions = [];
+  }
+
+  /**
+   * Forget the bounties completed so far without saving a run, e.g. when the run started before launch
+   */
+  discardRunCompletions(): void {
+    this.runCompletions = [];
   }
 
   private logBountyCompletion(bountyKey: string, bountyKp: number): void {
-    const sessionDurationSeconds = (Date.now() - this.stats.sessionStartTime) / 1000;
+    const sessionDurationSeconds = (this.now() - this.stats.sessionStartTime) / 1000;
     const sessionDurationMinutes = Math.floor(sessionDurationSeconds / 60);
 
     const bountyBreakdown: string[] = [];
@@ -102,7 +144,7 @@ export class SessionTracker {
     estimatedTimeSeconds: number
   ): void {
     const ts = formatTimestamp();
-    const sessionDurationSeconds = (Date.now() - this.stats.sessionStartTime) / 1000;
+    const sessionDurationSeconds = (this.now() - this.stats.sessionStartTime) / 1000;
     const sessionDurationMinutes = Math.floor(sessionDurationSeconds / 60);
     const kpPerHour = sessionDurationSeconds > 0
       ? (this.stats.totalKpEarned / (sessionDurationSeconds / 3600)) / 100
@@ -153,6 +195,10 @@ export class SessionTracker {
     return this.stats;
   }
 
+  getHistory(): SessionHistory {
+    return this.history.getSummary();
+  }
+
   getLogPath(): string {
     return this.logPath;
   }
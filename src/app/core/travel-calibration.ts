@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import GPS from '../../algorithm/gps';
+import { attributeRunError, applyObservations } from '../../algorithm/calibration';
+import { EdgeAdjustments, PlayerState, RoutingRisk, SellObservation, Step } from '../config/types';
+import { getCalibrationPath } from '../utils/paths';
+import { getDistanceMatrixPath, readDistanceMatrix } from '../utils/distance-matrix-cache';
+
+// Bump when the file layout changes so old files are discarded instead of misread
+const CALIBRATION_VERSION = 1;
+
+interface CalibrationFile {
+  version: number;
+  runs: number;
+  edges: { [edgeKey: string]: { factor: number; samples: number } };
+}
+
+/**
+ * Per-player travel times learned from completed runs.
+ *
+ * After each run the time between detected sales is compared with the route's estimate
+ * (see algorithm/calibration) and the difference is spread over the edges walked in between.
+ * The resulting per-edge factors are saved to `calibration.json` and passed to GPS.
+ */
+export class TravelCalibration {
+  private readonly filePath: string;
+  private data: CalibrationFile = { version: CALIBRATION_VERSION, runs: 0, edges: {} };
+
+  constructor(filePath: string = getCalibrationPath()) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) return;
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (data?.version !== CALIBRATION_VERSION || typeof data.edges !== 'object') {
+        console.warn(`[calibration] Ignoring ${this.filePath}: unsupported format`);
+        return;
+      }
+      this.data = data;
+      console.log(`[calibration] Loaded ${Object.keys(this.data.edges).length} edge adjustments from ${this.data.runs} runs`);
+    } catch (err) {
+      console.error('[calibration] Failed to load calibration:', err);
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(this.data, null, 2), 'utf8');
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      console.error('[calibration] Failed to save calibration:', err);
+    }
+  }
+
+  /**
+   * Learned factors in the form GPS expects
+   */
+  getEdgeAdjustments(): EdgeAdjustments {
+    const adjustments: EdgeAdjustments = {};
+    for (const [key, { factor }] of Object.entries(this.data.edges)) {
+      adjustments[key] = factor;
+    }
+    return adjustments;
+  }
+
+  getEdgeCount(): number {
+    return Object.keys(this.data.edges).length;
+  }
+
+  getRunCount(): number {
+    return this.data.runs;
+  }
+
+  /**
+   * Learn from a completed run
+   * @returns True if any edge was updated
+   */
+  recordRun(
+    route: Step[],
+    sells: SellObservation[],
+    playerState: PlayerState,
+    routingRisk: RoutingRisk
+  ): boolean {
+    if (route.length === 0 || sells.length === 0) return false;
+
+    // Same graph and factors the route was planned with, so the estimates line up
+    const gps = new GPS(
+      playerState,
+      readDistanceMatrix(getDistanceMatrixPath(playerState, routingRisk)),
+      this.getEdgeAdjustments(),
+      routingRisk
+    );
+    const observations = attributeRunError(route, sells, gps);
+    if (observations.length === 0) {
+      console.log('[calibration] No usable segments in this run');
+      return false;
+    }
+
+    this.data.edges = applyObservations(this.data.edges, observations);
+    this.data.runs++;
+    this.save();
+
+    const estimated = observations.reduce((sum, o) => sum + o.estimatedSeconds, 0);
+    const actual = observations.reduce((sum, o) => sum + o.actualSeconds, 0);
+    console.log(`[calibration] Learned from ${observations.length} segments: walking est=${estimated.toFixed(1)}s actual=${actual.toFixed(1)}s`);
+    return true;
+  }
+
+  reset(): void {
+    this.data = { version: CALIBRATION_VERSION, runs: 0, edges: {} };
+    this.save();
+    console.log('[calibration] Reset learned travel times');
+  }
+}
@@ -470,8 +470,7 @@ parentPort.on('message', (msg) => {
 
     const respArr = pathfinder.findBestBounties(
       allBounties, 
-      detectiveLevel, 
-      battleOfFortuneholdCompleted, 
+      { skills: { detective: detectiveLevel }, quests: { BATTLE_OF_FORTUNEHOLD: battleOfFortuneholdCompleted } }, 
       true, 
       1,
       pruningOptions
@@ -1113,8 +1112,7 @@ class OCRProcessor {
       if (!this.useWorkerForPathfinder || !this.pathfinderWorker) {
         const respArr = pathfinder.findBestBounties(
           allBounties, 
-          detectiveLevel, 
-          battleOfFortuneholdCompleted, 
+          { skills: { detective: detectiveLevel }, quests: { BATTLE_OF_FORTUNEHOLD: battleOfFortuneholdCompleted } }, 
           true, 
           1,
           pruningOptions
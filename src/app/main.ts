@@ -1,17 +1,26 @@
+import * as fs from 'fs';
 import * as os from 'os';
-import { app, globalShortcut, ipcMain } from 'electron';
+import * as path from 'path';
+import { app, BrowserWindow, dialog, globalShortcut, ipcMain } from 'electron';
 import { loadConfig, getConfigPath, saveConfig, getDefaultRegions } from './config/config';
-import { Config } from './config/types';
+import { BundleSection, ImportOptions, SettingsBundle, createBundle, diffBundle, mergeBundle, parseBundle } from './config/bundle';
+import { getActiveProfile, getProfileCalibrationPath, getProfileHistoryDir, listProfiles, setActiveProfile, createProfile, renameProfile, deleteProfile } from './config/profiles';
+import { Config, FindBestResult, PlannerQuery, Regions } from './config/types';
+import { DEFAULT_ROUTING_RISK } from './config/constants';
 import { RegionManager } from './ui/region-manager';
-import { OCRProcessor } from './core/ocr-processor';
+import { OCRProcessor, getTargetDpiScale } from './core/ocr-processor';
+import { detectRegions } from './core/region-detector';
 import { ScreenshotManager } from './core/screenshot-manager';
+import { DebugRecorder, MAX_RECORDINGS_BYTES, Recording, listRecordings, loadRecording } from './core/debug-recorder';
 import { OverlayWindow } from './ui/overlay-window';
-import { setupSettingsIPC, createSettingsWindow, sendSessionUpdate, sendUpdateInfo } from './ui/settings-window';
+import { setupSettingsIPC, createSettingsWindow, sendSessionUpdate, sendRouteMapUpdate, sendUpdateInfo, sendConfigUpdate } from './ui/settings-window';
 import { preInitTesseractJS, checkNativeTesseract } from './utils/tesseract';
 import { initLogger, closeLogger } from './utils/logger';
 import { OverlayController } from '../';
 import { APP_VERSION, GIT_HASH } from './version';
 import { checkForUpdates } from './utils/update-checker';
+import { getGameDataStatus } from '../algorithm/game-data';
+import { buildWorldMap } from '../algorithm/world-map';
 import { setChatFontSize } from './ui/html-generator';
 
 // Set app name early (before any windows are created)
@@ -44,19 +53,58 @@ function getOcrConcurrency(): number {
   return Math.max(2, Math.min(cpuCount - 1, MAX_OCR_REGIONS));
 }
 
+/**
+ * Recording folder passed with `--replay <dir>`, or null to capture the game window as usual
+ */
+function getReplayDir(): string | null {
+  const index = process.argv.indexOf('--replay');
+  if (index === -1 || !process.argv[index + 1]) return null;
+  return path.resolve(process.argv[index + 1]);
+}
+
 async function main(): Promise<void> {
+  console.log('[init] Profile:', getActiveProfile());
+  const gameDataStatus = getGameDataStatus();
+  console.log('[init] Game data:', gameDataStatus.dataVersion, gameDataStatus.overrideApplied ? `(override: ${gameDataStatus.overridePath})` : '');
   const config = loadConfig();
+
+  // Replays plan routes with the settings the recording was made with
+  const replayDir = getReplayDir();
+  let recording: Recording | null = null;
+  if (replayDir) {
+    try {
+      recording = loadRecording(replayDir);
+    } catch (err) {
+      console.error('[replay] Failed to load recording:', err);
+      app.quit();
+      return;
+    }
+    // Start from an empty history so every replay ends in the same state
+    fs.rmSync(path.join(replayDir, 'replay'), { recursive: true, force: true });
+  }
+  const planning = recording?.meta;
+  let replayTime = planning?.startedAt ?? 0;
+  const clock = recording ? () => replayTime : Date.now;
   
   // User-configurable settings
-  const detectiveLevel = config.detectiveLevel ?? 500;
-  const battleOfFortuneholdCompleted = config.isBattleOfFortuneholdCompleted ?? true;
+  const playerState = planning?.playerState ?? config.playerState ?? {};
+  const merchantLevel = planning?.merchantLevel ?? config.merchantLevel ?? 500;
+  const inventorySpace = planning?.inventorySpace ?? config.inventorySpace ?? 24;
+  const runEnding = planning?.runEnding ?? config.runEnding ?? 'return-to-board';
+  const routingRisk = planning?.routingRisk ?? config.routingRisk ?? DEFAULT_ROUTING_RISK;
   const ocrMethod = config.ocrMethod ?? 'auto';
+  const travelCalibration = config.travelCalibration ?? true;
 
   const cpuCount = os.cpus()?.length ?? 4;
   const ocrConcurrency = getOcrConcurrency();
 
-  console.log("[init] Detective level:", detectiveLevel);
-  console.log("[init] Battle of Fortunehold completed:", battleOfFortuneholdCompleted);
+  console.log("[init] Player state:", JSON.stringify(playerState));
+  console.log("[init] Merchant level:", merchantLevel);
+  console.log("[init] Inventory space:", inventorySpace);
+  console.log("[init] Run ending:", runEnding);
+  console.log("[init] Routing risk:", JSON.stringify(routingRisk));
+  console.log("[init] Travel calibration:", travelCalibration);
+  console.log("[init] Debug recording:", config.debugRecording ?? false);
   console.log("[init] CPU cores:", cpuCount);
   console.log("[init] OCR method:", ocrMethod);
   console.log("[init] OCR concurrency:", ocrConcurrency);
@@ -64,7 +112,8 @@ async function main(): Promise<void> {
   // Pre-initialize OCR based on method
   if (ocrMethod === 'tesseract-js') {
     preInitTesseractJS().catch(err => console.warn('[OCR] Pre-init failed:', err));
-  } else if (ocrMethod === 'auto') {
+  } else if (ocrMethod === 'auto' || ocrMethod === 'template') {
+    // The template backend falls back to Tesseract for anything it can't read
     checkNativeTesseract().then(hasNative => {
       if (!hasNative) {
         preInitTesseractJS().catch(err => console.warn('[OCR] Pre-init failed:', err));
@@ -75,7 +124,7 @@ async function main(): Promise<void> {
   const configPath = getConfigPath();
   const regionManager = new RegionManager(getDefaultRegions(), configPath, config);
 
-  const pathfindingQuality = config.pathfindingQuality ?? 5;
+  const pathfindingQuality = planning?.pathfindingQuality ?? config.pathfindingQuality ?? 5;
   console.log("[init] Pathfinding quality:", pathfindingQuality);
 
   const chatBoxFontSize = config.chatBoxFontSize ?? 23;
@@ -91,9 +140,18 @@ async function main(): Promise<void> {
     warnTickMs: PERF_WARN_TICK_MS,
     pathfinderTimeoutMs: PATHFINDER_TIMEOUT_MS,
     dropGraceMs: DROP_GRACE_MS,
-    detectiveLevel,
-    battleOfFortuneholdCompleted,
+    playerState,
+    merchantLevel,
+    inventorySpace,
+    runEnding,
+    routingRisk,
     pathfindingQuality,
+    travelCalibration,
+    // Replays must not add to the run history or learned travel times
+    edgeAdjustments: planning?.edgeAdjustments,
+    historyDir: replayDir ? path.join(replayDir, 'replay', 'history') : getProfileHistoryDir(getActiveProfile()),
+    calibrationPath: getProfileCalibrationPath(getActiveProfile()),
+    clock,
   });
 
   ipcMain.on('update-region', (_event, newRegion) => {
@@ -133,30 +191,38 @@ async function main(): Promise<void> {
       
       // Also send to settings window for Session tab (not throttled)
       sendSessionUpdate(ocrData);
+      sendRouteMapUpdate(ocrProcessor.getRouteMap());
     },
-    { perfWindowSec: PERF_WINDOW_SEC }
+    { perfWindowSec: PERF_WINDOW_SEC, clock }
   );
 
-  screenshotManager.start();
+  if (recording) {
+    screenshotManager.replay(recording, (at) => { replayTime = at; })
+      .catch(err => console.error('[replay] Replay failed:', err));
+  } else {
+    if (config.debugRecording) {
+      screenshotManager.setRecorder(new DebugRecorder(ocrProcessor.getPlanningConfig()));
+    }
+    screenshotManager.start();
+  }
 
   // Setup settings IPC with perf stats access
   setupSettingsIPC((newConfig) => {
     console.log('[settings] Config updated');
+    if (regionManager.reload(newConfig)) {
+      overlayWindow.updateRegions(regionManager.regions);
+    }
   }, () => ({
     ...ocrProcessor.getPerfStats(),
     ...screenshotManager.getPerfStats(),
   }));
 
-  // Override settings-update handler with overlay window reference for region updates
-  ipcMain.removeAllListeners('settings-update');
-  ipcMain.on('settings-update', (_event, newConfig: Config) => {
-    saveConfig(newConfig);
-    console.log('[settings] Config updated');
-    
+  // Apply a changed config to the running app, from the settings window or after switching profile
+  const applyConfig = (newConfig: Config) => {
     let needsRecalculation = false;
     
-    if (newConfig.regions) {
-      overlayWindow.updateRegions(newConfig.regions);
+    if (regionManager.reload(newConfig)) {
+      overlayWindow.updateRegions(regionManager.regions);
     }
     if (newConfig.pathfindingQuality !== undefined) {
       const oldQuality = config.pathfindingQuality;
@@ -165,20 +231,56 @@ async function main(): Promise<void> {
         needsRecalculation = true;
       }
     }
-    if (newConfig.detectiveLevel !== undefined) {
-      const oldLevel = config.detectiveLevel;
-      ocrProcessor.setDetectiveLevel(newConfig.detectiveLevel);
-      if (oldLevel !== newConfig.detectiveLevel) {
+    if (newConfig.playerState !== undefined) {
+      const oldValue = JSON.stringify(config.playerState ?? {});
+      ocrProcessor.setPlayerState(newConfig.playerState);
+      if (oldValue !== JSON.stringify(newConfig.playerState)) {
         needsRecalculation = true;
       }
     }
-    if (newConfig.isBattleOfFortuneholdCompleted !== undefined) {
-      const oldValue = config.isBattleOfFortuneholdCompleted;
-      ocrProcessor.setBattleOfFortuneholdCompleted(newConfig.isBattleOfFortuneholdCompleted);
-      if (oldValue !== newConfig.isBattleOfFortuneholdCompleted) {
+    if (newConfig.runEnding !== undefined) {
+      const oldValue = config.runEnding;
+      ocrProcessor.setRunEnding(newConfig.runEnding);
+      if (oldValue !== newConfig.runEnding) {
         needsRecalculation = true;
       }
     }
+    if (newConfig.routingRisk !== undefined) {
+      const oldValue = JSON.stringify(config.routingRisk ?? DEFAULT_ROUTING_RISK);
+      ocrProcessor.setRoutingRisk(newConfig.routingRisk);
+      if (oldValue !== JSON.stringify(newConfig.routingRisk)) {
+        needsRecalculation = true;
+      }
+    }
+    if (newConfig.inventorySpace !== undefined) {
+      const oldValue = config.inventorySpace;
+      ocrProcessor.setInventorySpace(newConfig.inventorySpace);
+      if (oldValue !== newConfig.inventorySpace) {
+        needsRecalculation = true;
+      }
+    }
+    if (newConfig.merchantLevel !== undefined) {
+      const oldLevel = config.merchantLevel;
+      ocrProcessor.setMerchantLevel(newConfig.merchantLevel);
+      if (oldLevel !== newConfig.merchantLevel) {
+        needsRecalculation = true;
+      }
+    }
+    if (newConfig.travelCalibration !== undefined) {
+      const oldValue = config.travelCalibration ?? true;
+      ocrProcessor.setTravelCalibration(newConfig.travelCalibration);
+      if (oldValue !== newConfig.travelCalibration) {
+        needsRecalculation = true;
+      }
+    }
+    if (newConfig.debugRecording !== undefined && !recording) {
+      if (newConfig.debugRecording && !screenshotManager.isRecording()) {
+        screenshotManager.setRecorder(new DebugRecorder(ocrProcessor.getPlanningConfig()));
+      } else if (!newConfig.debugRecording && screenshotManager.isRecording()) {
+        screenshotManager.setRecorder(null);
+        console.log('[recorder] Recording stopped');
+      }
+    }
     
     // Update local config reference
     Object.assign(config, newConfig);
@@ -188,6 +290,142 @@ async function main(): Promise<void> {
       console.log('[settings] Triggering bounty recalculation due to config change');
       ocrProcessor.forceOptimalRecalculation();
     }
+  };
+
+  // Override settings-update handler with overlay window reference for region updates
+  ipcMain.removeAllListeners('settings-update');
+  ipcMain.on('settings-update', (_event, newConfig: Config) => {
+    saveConfig(newConfig);
+    console.log('[settings] Config updated');
+    applyConfig(newConfig);
+  });
+
+  // Config profiles: each has its own config.json and run history, and switching applies it without a restart
+  const getProfiles = () => ({ profiles: listProfiles(), active: getActiveProfile() });
+
+  const switchProfile = (name: string) => {
+    setActiveProfile(name);
+    const profileConfig = loadConfig();
+    regionManager.configPath = getConfigPath();
+    ocrProcessor.setHistoryDir(getProfileHistoryDir(name));
+    ocrProcessor.setCalibrationPath(getProfileCalibrationPath(name));
+    overlayWindow.setShortcuts(profileConfig.keyboardShortcuts);
+    setChatFontSize(profileConfig.chatBoxFontSize ?? 23);
+    overlayWindow.updateChatFontSize(profileConfig.chatBoxFontSize ?? 23);
+    applyConfig(profileConfig);
+    sendConfigUpdate(profileConfig);
+    // The OCR engine is only chosen at startup
+    return { ...getProfiles(), restartRequired: (profileConfig.ocrMethod ?? 'auto') !== ocrMethod };
+  };
+
+  // Runs the profile operation, returning the error message to the settings window instead of throwing
+  const handleProfileAction = (action: () => object | void) => {
+    try {
+      // The list is read after the action so it includes what the action changed
+      const result = action() ?? {};
+      return { ...getProfiles(), ...result };
+    } catch (err) {
+      return { ...getProfiles(), error: err instanceof Error ? err.message : String(err) };
+    }
+  };
+
+  ipcMain.handle('profiles-list', () => getProfiles());
+
+  ipcMain.handle('profiles-switch', (_event, name: string) => handleProfileAction(() => {
+    if (recording) throw new Error("Profiles can't be switched during a replay");
+    return switchProfile(name);
+  }));
+
+  ipcMain.handle('profiles-create', (_event, name: string, cloneFrom?: string) => handleProfileAction(() => {
+    createProfile(name, cloneFrom);
+  }));
+
+  ipcMain.handle('profiles-rename', (_event, name: string, newName: string) => handleProfileAction(() => {
+    const wasActive = name === getActiveProfile();
+    renameProfile(name, newName);
+    if (wasActive) {
+      // Its files moved with it
+      regionManager.configPath = getConfigPath();
+      ocrProcessor.setHistoryDir(getProfileHistoryDir(getActiveProfile()));
+      ocrProcessor.setCalibrationPath(getProfileCalibrationPath(getActiveProfile()));
+    }
+  }));
+
+  ipcMain.handle('profiles-delete', (_event, name: string) => handleProfileAction(() => {
+    deleteProfile(name);
+  }));
+
+  // Sharing settings: export part of the active profile to a file, and import one after previewing the changes
+  let pendingImport: SettingsBundle | null = null;
+
+  ipcMain.handle('settings-export', async (event, sections: BundleSection[]) => {
+    const profile = getActiveProfile();
+    const result = await dialog.showSaveDialog(BrowserWindow.fromWebContents(event.sender)!, {
+      title: 'Export Settings',
+      defaultPath: `brighter-merchant-${profile.replace(/ /g, '-').toLowerCase()}.json`,
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    });
+    if (result.canceled || !result.filePath) return { canceled: true };
+    try {
+      const bundle = createBundle(loadConfig(), profile, APP_VERSION, sections);
+      fs.writeFileSync(result.filePath, JSON.stringify(bundle, null, 2), 'utf8');
+      console.log(`[settings] Exported ${sections.join(', ')} to:`, result.filePath);
+      return { path: result.filePath };
+    } catch (err) {
+      console.error('[settings] Export failed:', err);
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  ipcMain.handle('settings-import-open', async (event) => {
+    const result = await dialog.showOpenDialog(BrowserWindow.fromWebContents(event.sender)!, {
+      title: 'Import Settings',
+      properties: ['openFile'],
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    });
+    if (result.canceled || result.filePaths.length === 0) return { canceled: true };
+    try {
+      const file = result.filePaths[0];
+      const { bundle, issues } = parseBundle(fs.readFileSync(file, 'utf8'), file);
+      pendingImport = bundle;
+      console.log(`[settings] Opened export of ${bundle.sections.join(', ')} from profile ${bundle.profile} (v${bundle.appVersion})`);
+      return { file, appVersion: bundle.appVersion, exportedAt: bundle.exportedAt, profile: bundle.profile, sections: bundle.sections, issues };
+    } catch (err) {
+      pendingImport = null;
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  ipcMain.handle('settings-import-preview', (_event, options: ImportOptions) => {
+    options.windowSize = regionManager.getProfileStatus().windowSize;
+    return pendingImport ? diffBundle(loadConfig(), pendingImport, options) : [];
+  });
+
+  ipcMain.handle('settings-import-apply', (_event, options: ImportOptions) => {
+    if (!pendingImport) return { error: 'Open a file to import first' };
+    options.windowSize = regionManager.getProfileStatus().windowSize;
+    const current = loadConfig();
+    const changes = diffBundle(current, pendingImport, options);
+    const newConfig = mergeBundle(current, pendingImport, options);
+    pendingImport = null;
+
+    saveConfig(newConfig);
+    if (JSON.stringify(newConfig.keyboardShortcuts) !== JSON.stringify(current.keyboardShortcuts)) {
+      overlayWindow.setShortcuts(newConfig.keyboardShortcuts);
+    }
+    if (newConfig.chatBoxFontSize !== current.chatBoxFontSize) {
+      setChatFontSize(newConfig.chatBoxFontSize ?? 23);
+      overlayWindow.updateChatFontSize(newConfig.chatBoxFontSize ?? 23);
+    }
+    applyConfig(newConfig);
+    sendConfigUpdate(newConfig);
+    console.log(`[settings] Imported ${changes.length} changes`);
+    // Same as saving in the settings window
+    return { applied: changes.length, restartRequired: newConfig.pathfindingQuality !== current.pathfindingQuality };
+  });
+
+  ipcMain.on('settings-import-cancel', () => {
+    pendingImport = null;
   });
 
   // Handle edit mode toggle from settings window
@@ -199,12 +437,125 @@ async function main(): Promise<void> {
     return overlayWindow.isEditMode();
   });
 
+  // Auto-calibration: regions found in a screenshot are proposed in the overlay and only saved once applied there
+  ipcMain.handle('regions-auto-calibrate', async () => {
+    const screenshot = screenshotManager.captureScreenshot();
+    if (!screenshot) {
+      return { found: 0, missing: [], error: 'Could not capture the game window' };
+    }
+    try {
+      const proposal = await detectRegions(screenshot, regionManager.regions, {
+        dpiScale: getTargetDpiScale(),
+        ocrMethod: ocrMethod === 'template' ? 'auto' : ocrMethod,
+      });
+      const found = Object.keys(proposal.regions).length;
+      console.log(`[calibrate] Proposing ${found} regions, missing: ${proposal.missing.join(', ') || 'none'}`);
+      if (found > 0) {
+        overlayWindow.proposeRegions(proposal.regions);
+      }
+      return { found, missing: proposal.missing };
+    } catch (err) {
+      console.error('[calibrate] Auto-calibration failed:', err);
+      return { found: 0, missing: [], error: String(err) };
+    }
+  });
+
+  ipcMain.on('regions-proposal-apply', (_event, regions: Regions) => {
+    for (const [id, region] of Object.entries(regions)) {
+      regionManager.updateRegion({ ...regionManager.regions[id], ...region, id });
+    }
+    console.log(`[calibrate] Applied ${Object.keys(regions).length} proposed regions`);
+    if (overlayWindow.isEditMode()) {
+      overlayWindow.toggleEditMode();
+    }
+  });
+
+  ipcMain.on('regions-proposal-discard', (_event) => {
+    console.log('[calibrate] Proposed regions discarded');
+  });
+
+  // Planner tab: what-if queries against the pathfinder pool, and pinning a route for the overlay
+  ipcMain.handle('planner-find-routes', (_event, query: PlannerQuery) => {
+    return ocrProcessor.planRoutes(query);
+  });
+
+  ipcMain.on('planner-pin-route', (_event, route: FindBestResult) => {
+    ocrProcessor.pinRoute(route);
+  });
+
+  ipcMain.on('planner-unpin-route', (_event) => {
+    ocrProcessor.unpinRoute('user');
+    ocrProcessor.forceOptimalRecalculation();
+  });
+
+  // Session tab: run history aggregates persisted across launches
+  ipcMain.handle('session-get-history', () => {
+    return ocrProcessor.getSessionHistory();
+  });
+
+  // Map tab: the world graph and the route drawn on it
+  ipcMain.handle('map-get-world', () => {
+    return buildWorldMap();
+  });
+
+  ipcMain.handle('map-get-route', () => {
+    return ocrProcessor.getRouteMap();
+  });
+
+  // Learned travel times
+  ipcMain.handle('recordings-get-status', () => {
+    const recordings = listRecordings();
+    return {
+      count: recordings.length,
+      bytes: recordings.reduce((sum, recording) => sum + recording.bytes, 0),
+      maxBytes: MAX_RECORDINGS_BYTES,
+    };
+  });
+
+  ipcMain.handle('calibration-get-status', () => {
+    return ocrProcessor.getTravelCalibrationStatus();
+  });
+
+  ipcMain.on('calibration-reset', (_event) => {
+    ocrProcessor.resetTravelCalibration();
+    ocrProcessor.forceOptimalRecalculation();
+  });
+
+  // OCR word templates captured from the player's screen for the template backend
+  ipcMain.on('templates-capture', (_event) => {
+    ocrProcessor.captureTemplates();
+  });
+
+  ipcMain.handle('templates-get-status', () => {
+    return ocrProcessor.getTemplateStatus();
+  });
+
+  ipcMain.on('templates-reset', (_event) => {
+    ocrProcessor.resetTemplates();
+  });
+
   // Handle chat font size updates from settings window
   ipcMain.on('update-chat-font-size', (_event, fontSize: number) => {
     console.log('[settings] Chat font size updated:', fontSize);
     overlayWindow.updateChatFontSize(fontSize);
   });
 
+  // Regions follow the game window: switch to the profile for its size whenever it changes
+  const syncRegionsToWindow = () => {
+    const dpiScale = getTargetDpiScale();
+    const { width, height } = OverlayController.targetBounds;
+    if (regionManager.setWindowSize(width / dpiScale, height / dpiScale, dpiScale)) {
+      overlayWindow.updateRegions(regionManager.regions);
+    }
+  };
+  OverlayController.events.on('attach', syncRegionsToWindow);
+  OverlayController.events.on('moveresize', syncRegionsToWindow);
+  OverlayController.events.on('fullscreen', syncRegionsToWindow);
+
+  ipcMain.handle('regions-get-profile', () => {
+    return regionManager.getProfileStatus();
+  });
+
   // Handle settings window visibility around overlay attachment
   // When overlay attaches to game window, it can cause settings to hide on macOS
   OverlayController.events.on('attach', () => {
@@ -17,16 +17,60 @@ export function generateOverlayHTML(chatTitle: string, regionElements: string):
       <style>
         * { font-family: 'Lora', serif; word-spacing: 3px; }
         .resize-handle { position: absolute; width: 10px; height: 10px; cursor: nwse-resize; }
+        .proposal-bar { position: absolute; top: 8px; left: 50%; transform: translateX(-50%); display: none; gap: 10px; align-items: center; padding: 8px 14px; background: rgba(20, 20, 20, 0.92); border: 1px solid rgba(255, 200, 60, 0.9); border-radius: 8px; color: white; font-size: 15px; z-index: 1000; }
+        .proposal-bar button { padding: 4px 12px; font-size: 14px; cursor: pointer; }
+        .proposed { outline: 2px dashed rgba(255, 200, 60, 0.95); outline-offset: -2px; }
       </style>
     </head>
     <body style="padding: 0; margin: 0;">
       ${regionElements}
+      <div class="proposal-bar">
+        <span>Proposed regions: drag or resize to adjust, then</span>
+        <button type="button" onclick="applyProposal()">Apply</button>
+        <button type="button" onclick="discardProposal()">Discard</button>
+      </div>
       <script>
         const electron = require('electron');
         const chatTitle = "${chatTitle}";
         let currentEditMode = false;
         let activeRegion = null;
 
+        // Auto-calibration proposal, shown in edit mode and only saved when applied
+        let pendingProposal = null;
+        let regionsBeforeProposal = {};
+
+        function setRegionBounds(id, region) {
+          const el = document.getElementById(id);
+          if (!el) return;
+          el.style.left = region.x + 'px';
+          el.style.top = region.y + 'px';
+          el.style.width = region.width + 'px';
+          el.style.height = region.height + 'px';
+        }
+
+        function clearProposal() {
+          pendingProposal = null;
+          regionsBeforeProposal = {};
+          document.querySelectorAll('.proposed').forEach(el => el.classList.remove('proposed'));
+          document.querySelector('.proposal-bar').style.display = 'none';
+        }
+
+        function applyProposal() {
+          if (!pendingProposal) return;
+          const regions = pendingProposal;
+          clearProposal();
+          electron.ipcRenderer.send('regions-proposal-apply', regions);
+        }
+
+        function discardProposal() {
+          if (!pendingProposal) return;
+          for (const [id, region] of Object.entries(regionsBeforeProposal)) {
+            setRegionBounds(id, region);
+          }
+          clearProposal();
+          electron.ipcRenderer.send('regions-proposal-discard');
+        }
+
         function formatBountyName(key) {
           // Convert SNAKE_CASE to Title Case with spaces
           return key.split('_')
@@ -238,10 +282,26 @@ export function generateOverlayHTML(chatTitle: string, regionElements: string):
               chatRegion.appendChild(handle);
             }
           } else {
+            // Leaving edit mode without applying discards the proposal
+            discardProposal();
             updateOverlays(ocrData || {});
           }
         });
 
+        electron.ipcRenderer.on('regions-proposal', (e, regions) => {
+          if (pendingProposal) discardProposal();
+          pendingProposal = {};
+          for (const [id, region] of Object.entries(regions)) {
+            const el = document.getElementById(id);
+            if (!el) continue;
+            regionsBeforeProposal[id] = { x: el.offsetLeft, y: el.offsetTop, width: el.offsetWidth, height: el.offsetHeight };
+            pendingProposal[id] = { x: region.x, y: region.y, width: region.width, height: region.height };
+            setRegionBounds(id, region);
+            el.classList.add('proposed');
+          }
+          document.querySelector('.proposal-bar').style.display = 'flex';
+        });
+
         electron.ipcRenderer.on('ocr-data-update', (e, ocrData) => {
           if(!currentEditMode) { 
             updateOverlays(ocrData || {}); 
@@ -256,13 +316,7 @@ export function generateOverlayHTML(chatTitle: string, regionElements: string):
 
         electron.ipcRenderer.on('regions-update', (e, regions) => {
           for (const [id, region] of Object.entries(regions)) {
-            const el = document.getElementById(id);
-            if (el) {
-              el.style.left = region.x + 'px';
-              el.style.top = region.y + 'px';
-              el.style.width = region.width + 'px';
-              el.style.height = region.height + 'px';
-            }
+            setRegionBounds(id, region);
           }
         });
 
@@ -296,13 +350,18 @@ export function generateOverlayHTML(chatTitle: string, regionElements: string):
 
         document.addEventListener('mouseup', () => {
           if(!activeRegion) return;
-          electron.ipcRenderer.send('update-region', {
-            id: activeRegion.id,
+          const bounds = {
             x: activeRegion.offsetLeft,
             y: activeRegion.offsetTop,
             width: activeRegion.offsetWidth,
             height: activeRegion.offsetHeight
-          });
+          };
+          if (pendingProposal && pendingProposal[activeRegion.id]) {
+            // Adjusting a proposed region, saved with the rest when applied
+            pendingProposal[activeRegion.id] = bounds;
+          } else {
+            electron.ipcRenderer.send('update-region', { id: activeRegion.id, ...bounds });
+          }
           activeRegion.isDragging = false;
           activeRegion.isResizing = false;
           activeRegion = null;
@@ -4,12 +4,13 @@ import { OCRData, KeyboardShortcuts, Regions } from '../config/types';
 import { RegionManager } from './region-manager';
 import { OCRProcessor } from '../core/ocr-processor';
 import { generateOverlayHTML } from './html-generator';
-import { formatSteps } from '../utils/formatting';
+import { formatSteps, formatAlternatives } from '../utils/formatting';
 import { WINDOW_TITLE } from '../config/constants';
 import { createSettingsWindow } from './settings-window';
 
 // Default shortcuts (used as fallback)
 const DEFAULT_SHORTCUTS: KeyboardShortcuts = {
+  cycleAlternatives: 'CmdOrCtrl+L',
   forceRecalculateBounties: 'CmdOrCtrl+N',
   openSettings: 'CmdOrCtrl+,',
   toggleEditMode: 'CmdOrCtrl+J',
@@ -26,7 +27,7 @@ export class OverlayWindow {
     private ocrProcessor: OCRProcessor,
     shortcuts?: KeyboardShortcuts
   ) {
-    this.shortcuts = shortcuts ?? DEFAULT_SHORTCUTS;
+    this.shortcuts = { ...DEFAULT_SHORTCUTS, ...shortcuts };
   }
 
   async create(): Promise<void> {
@@ -68,6 +69,17 @@ export class OverlayWindow {
     }
   }
 
+  /**
+   * Register a different set of shortcuts in place of the current ones (e.g. after switching profile)
+   */
+  setShortcuts(shortcuts?: KeyboardShortcuts): void {
+    for (const accelerator of Object.values(this.shortcuts)) {
+      globalShortcut.unregister(accelerator);
+    }
+    this.shortcuts = { ...DEFAULT_SHORTCUTS, ...shortcuts };
+    this.setupGlobalShortcuts();
+  }
+
   private setupGlobalShortcuts(): void {
     globalShortcut.register(this.shortcuts.toggleEditMode, () => this.toggleEditMode());
     globalShortcut.register(this.shortcuts.toggleVisibility, () => {
@@ -77,6 +89,14 @@ export class OverlayWindow {
     globalShortcut.register(this.shortcuts.openSettings, () => {
       createSettingsWindow();
     });
+    globalShortcut.register(this.shortcuts.cycleAlternatives, () => this.cycleAlternatives());
+  }
+
+  private cycleAlternatives(): void {
+    this.ocrProcessor.cycleAlternative();
+    if (!this.editMode) {
+      this.window?.webContents.send('ocr-data-update', this.getOCRDataPayload());
+    }
   }
 
   private forceOptimalCalculation(): void {
@@ -104,7 +124,9 @@ export class OverlayWindow {
           this.ocrProcessor.displayKp || this.ocrProcessor.kp,
           this.ocrProcessor.displayDistanceSeconds || this.ocrProcessor.distanceSeconds,
           this.ocrProcessor.runCompleted,
-          this.ocrProcessor.runEndsWithTeleportToMarket
+          this.ocrProcessor.runEndsWithTeleportToMarket,
+          this.ocrProcessor.getRouteProgress(),
+          this.ocrProcessor.displayP90Seconds || this.ocrProcessor.p90Seconds
         );
 
     // If board is open and user has optimal bounties, add confirmation message
@@ -116,6 +138,10 @@ export class OverlayWindow {
       stepsText += '<br><br>You have the optimal bounties';
     }
 
+    if (this.ocrProcessor.shouldShowAlternatives()) {
+      stepsText += '<br><br>' + formatAlternatives(this.ocrProcessor.alternatives, this.ocrProcessor.selectedAlternative);
+    }
+
     return {
       steps: stepsText,
       activeDrops: this.ocrProcessor.activeDrops,
@@ -167,6 +193,17 @@ export class OverlayWindow {
     return this.editMode;
   }
 
+  /**
+   * Show proposed regions in edit mode for the user to adjust, then apply or discard from the overlay.
+   * Nothing is saved until the overlay sends 'regions-proposal-apply'
+   */
+  proposeRegions(regions: Regions): void {
+    if (!this.editMode) {
+      this.toggleEditMode();
+    }
+    this.window?.webContents.send('regions-proposal', regions);
+  }
+
   updateRegions(regions: Regions): void {
     // Update the region manager
     Object.assign(this.regionManager.regions, regions);
@@ -1,16 +1,67 @@
 import * as fs from 'fs';
-import { Region, Regions, Config } from '../config/types';
+import { Region, Regions, Config, RegionProfile, RelativeRegion } from '../config/types';
+
+export interface WindowSize {
+  width: number;
+  height: number;
+  dpiScale: number;
+}
+
+/**
+ * Profile key for a game window size, e.g. "1920x1080@1.25"
+ */
+export function getProfileKey(size: WindowSize): string {
+  return `${Math.round(size.width)}x${Math.round(size.height)}@${Number(size.dpiScale.toFixed(2))}`;
+}
+
+/**
+ * How different two window shapes and sizes are; the aspect ratio matters most
+ */
+function windowDistance(profile: RegionProfile, size: WindowSize): number {
+  const aspect = Math.abs(Math.log((profile.windowWidth / profile.windowHeight) / (size.width / size.height)));
+  const area = Math.abs(Math.log((profile.windowWidth * profile.windowHeight) / (size.width * size.height)));
+  return aspect * 10 + area;
+}
+
+/**
+ * Key of the saved profile whose window is most like this size, or null if there are none
+ */
+export function nearestProfile(profiles: { [key: string]: RegionProfile }, size: WindowSize): string | null {
+  const nearest = Object.keys(profiles).sort((a, b) => windowDistance(profiles[a], size) - windowDistance(profiles[b], size))[0];
+  return nearest ?? null;
+}
+
+export function toRelative(region: Region, size: WindowSize): RelativeRegion {
+  return {
+    x: region.x / size.width,
+    y: region.y / size.height,
+    width: region.width / size.width,
+    height: region.height / size.height,
+  };
+}
 
 export class RegionManager {
   regions: Regions;
   configPath: string;
+  private initialRegions: Regions;
+  private windowSize: WindowSize | null = null;
+  /** Where the current regions came from, for the settings window */
+  private source: { profile: string | null; scaledFrom: string | null } = { profile: null, scaledFrom: null };
 
   constructor(initialRegions: Regions, configPath: string, config?: Config) {
     this.configPath = configPath;
-    // Deep copy initial regions to preserve color and title constants
+    this.initialRegions = initialRegions;
     this.regions = {};
-    for (const key in initialRegions) {
-      this.regions[key] = { ...initialRegions[key] };
+    this.loadAbsoluteRegions(config);
+  }
+
+  /**
+   * Regions in DIP from config.regions, used until the game window's size is known
+   */
+  private loadAbsoluteRegions(config?: Config): void {
+    // Deep copy initial regions to preserve color and title constants
+    for (const key in this.initialRegions) {
+      this.regions[key] = { ...this.initialRegions[key] };
     }
 
     const regionData = config?.regions;
@@ -32,6 +83,113 @@ export class RegionManager {
     }
   }
 
+  /**
+   * Switch to the regions for a game window size (DIP) and DPI.
+   *
+   * Uses the profile saved for that size, else scales the profile of the most similar window, else
+   * keeps the current DIP regions and saves them as this size's profile (existing configs migrate
+   * this way, on the assumption that their regions were placed for the current window).
+   *
+   * @returns Whether the regions changed
+   */
+  setWindowSize(width: number, height: number, dpiScale: number): boolean {
+    if (width <= 0 || height <= 0) return false;
+    const size = { width, height, dpiScale };
+    const key = getProfileKey(size);
+    if (this.windowSize && getProfileKey(this.windowSize) === key) return false;
+    this.windowSize = size;
+    return this.applyProfile(key);
+  }
+
+  /**
+   * Re-read regions after the config file was changed elsewhere (e.g. reset to defaults)
+   */
+  reload(config: Config): boolean {
+    const before = JSON.stringify(this.regions);
+    this.loadAbsoluteRegions(config);
+    if (this.windowSize) {
+      this.applyProfile(getProfileKey(this.windowSize));
+    }
+    return JSON.stringify(this.regions) !== before;
+  }
+
+  getProfileStatus() {
+    return {
+      windowSize: this.windowSize,
+      profile: this.source.profile,
+      scaledFrom: this.source.scaledFrom,
+      savedProfiles: Object.keys(this.readConfigFile().regionProfiles ?? {}),
+    };
+  }
+
+  private applyProfile(key: string): boolean {
+    const size = this.windowSize!;
+    const profiles: { [key: string]: RegionProfile } = this.readConfigFile().regionProfiles ?? {};
+
+    const profileKey = profiles[key] ? key : nearestProfile(profiles, size);
+
+    if (!profileKey) {
+      this.source = { profile: key, scaledFrom: null };
+      this.saveProfile();
+      console.log(`[RegionManager] Saved current regions as profile ${key}`);
+      return false;
+    }
+
+    const before = JSON.stringify(this.regions);
+    const profile = profiles[profileKey];
+    for (const id in this.regions) {
+      const relative = profile.regions[id];
+      if (!relative) continue;
+      this.regions[id] = {
+        ...this.regions[id],
+        x: Math.round(relative.x * size.width),
+        y: Math.round(relative.y * size.height),
+        width: Math.round(relative.width * size.width),
+        height: Math.round(relative.height * size.height),
+      };
+    }
+    this.source = { profile: profileKey === key ? key : null, scaledFrom: profileKey === key ? null : profileKey };
+    console.log(profileKey === key
+      ? `[RegionManager] Using profile ${key}`
+      : `[RegionManager] No profile for ${key}, scaling profile ${profileKey}`);
+    return JSON.stringify(this.regions) !== before;
+  }
+
+  private readConfigFile(): any {
+    if (!fs.existsSync(this.configPath)) return {};
+    try {
+      return JSON.parse(fs.readFileSync(this.configPath, 'utf8'));
+    } catch (e) {
+      console.error("[RegionManager] Error reading config file:", e);
+      return {};
+    }
+  }
+
+  /**
+   * Save all current regions as the profile for the current window size
+   */
+  private saveProfile(): void {
+    const size = this.windowSize!;
+    const key = getProfileKey(size);
+    const regions: { [key: string]: RelativeRegion } = {};
+    for (const [id, region] of Object.entries(this.regions)) {
+      regions[id] = toRelative(region, size);
+    }
+
+    const configData = this.readConfigFile();
+    configData.regionProfiles = {
+      ...configData.regionProfiles,
+      [key]: { windowWidth: size.width, windowHeight: size.height, dpiScale: size.dpiScale, regions },
+    };
+    this.source = { profile: key, scaledFrom: null };
+
+    try {
+      fs.writeFileSync(this.configPath, JSON.stringify(configData, null, 2));
+    } catch (err) {
+      console.error("Error writing config file:", err);
+    }
+  }
+
   private mergeRegions(regionData: Regions): void {
     let mergedCount = 0;
     for (const key in this.regions) {
@@ -56,6 +214,12 @@ export class RegionManager {
       title: this.regions[newRegion.id]?.title || ""
     };
 
+    // Once the window size is known, edits are saved to its profile
+    if (this.windowSize) {
+      this.saveProfile();
+      return;
+    }
+
     let configData: any = {};
     if (fs.existsSync(this.configPath)) {
       try {
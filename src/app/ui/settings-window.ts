@@ -1,11 +1,18 @@
 import { BrowserWindow, ipcMain, app, dialog, shell } from 'electron';
 import * as fs from 'fs';
 import * as os from 'os';
-import { Config } from '../config/types';
-import { loadConfig, saveConfig, getDefaultRegions } from '../config/config';
+import { Config, PlayerState, RouteMap } from '../config/types';
+import { loadConfig, saveConfig, getDefaultRegions, getConfigIssues, clearConfigIssues } from '../config/config';
 import { getLogPath } from '../utils/logger';
+import { getRecordingsDir } from '../utils/paths';
 import { APP_VERSION, GIT_HASH } from '../version';
 import { checkForUpdates, UpdateInfo, getGitHubRepoUrl, getGitHubReleasesUrl } from '../utils/update-checker';
+import { bounties } from '../../algorithm/bounties';
+import { getGameDataStatus } from '../../algorithm/game-data';
+import { unlocks } from '../../algorithm/nodes';
+import GPS from '../../algorithm/gps';
+import pathfinder from '../../algorithm/pathfinder';
+import { getDistanceMatrixPath, readDistanceMatrix } from '../utils/distance-matrix-cache';
 
 let settingsWindow: BrowserWindow | null = null;
 let logWatcher: fs.FSWatcher | null = null;
@@ -84,6 +91,24 @@ export function sendSessionUpdate(data: any): void {
   }
 }
 
+/**
+ * Redraw the route on the Map tab
+ */
+export function sendRouteMapUpdate(routeMap: RouteMap | null): void {
+  if (settingsWindow && !settingsWindow.isDestroyed()) {
+    settingsWindow.webContents.send('map-route-update', routeMap);
+  }
+}
+
+/**
+ * Refresh the settings form, e.g. after switching profile
+ */
+export function sendConfigUpdate(config: Config): void {
+  if (settingsWindow && !settingsWindow.isDestroyed()) {
+    settingsWindow.webContents.send('config-updated', config);
+  }
+}
+
 function setupLogWatcher(): void {
   const logPath = getLogPath();
   if (!logPath || !fs.existsSync(logPath)) return;
@@ -110,6 +135,7 @@ export function setupSettingsIPC(onConfigChanged: (config: Config) => void, getO
   ipcMain.on('settings-reset-regions', (_event) => {
     const config = loadConfig();
     config.regions = getDefaultRegions();
+    config.regionProfiles = {};
     saveConfig(config);
     onConfigChanged(config);
     if (settingsWindow && !settingsWindow.isDestroyed()) {
@@ -121,6 +147,14 @@ export function setupSettingsIPC(onConfigChanged: (config: Config) => void, getO
     return loadConfig();
   });
 
+  ipcMain.handle('settings-get-config-issues', () => {
+    return getConfigIssues();
+  });
+
+  ipcMain.on('settings-dismiss-config-issues', () => {
+    clearConfigIssues();
+  });
+
   ipcMain.handle('settings-get-log', () => {
     const logPath = getLogPath();
     if (!logPath || !fs.existsSync(logPath)) return '';
@@ -157,6 +191,12 @@ export function setupSettingsIPC(onConfigChanged: (config: Config) => void, getO
     }
   });
 
+  ipcMain.on('open-recordings-folder', () => {
+    const recordingsDir = getRecordingsDir();
+    fs.mkdirSync(recordingsDir, { recursive: true });
+    shell.openPath(recordingsDir);
+  });
+
   ipcMain.on('restart-app', () => {
     app.relaunch();
     app.exit(0);
@@ -272,7 +312,66 @@ export function setupSettingsIPC(onConfigChanged: (config: Config) => void, getO
   });
 }
 
+function escapeAttribute(text: string): string {
+  return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * A field for every unlock in the game data: a level for each skill and a checkbox for each quest and item.
+ * Each field carries the unlock's default so the form can show it when the config has no value.
+ */
+function generatePlayerStateFields(playerState: PlayerState = {}): string {
+  type Unlock = { name: string; default?: number | boolean; max?: number };
+  const fields: string[] = [];
+  for (const [key, skill] of Object.entries(unlocks.skills as Record<string, Unlock>)) {
+    const fallback = (skill.default as number | undefined) ?? skill.max!;
+    fields.push(`
+      <div class="form-group">
+        <label for="skill-${escapeAttribute(key)}">${escapeAttribute(skill.name)} Level (1-${skill.max})</label>
+        <input type="number" id="skill-${escapeAttribute(key)}" class="player-skill" data-key="${escapeAttribute(key)}" data-default="${fallback}"
+          min="1" max="${skill.max}" value="${playerState.skills?.[key] ?? fallback}">
+      </div>`);
+  }
+  for (const [kind, suffix] of [['quests', ' Completed'], ['items', '']] as const) {
+    for (const [key, unlock] of Object.entries(unlocks[kind] as Record<string, Unlock>)) {
+      const fallback = unlock.default === true;
+      const id = `${kind === 'quests' ? 'quest' : 'item'}-${escapeAttribute(key)}`;
+      fields.push(`
+      <div class="form-group checkbox-group">
+        <input type="checkbox" id="${id}" class="player-${kind === 'quests' ? 'quest' : 'item'}" data-key="${escapeAttribute(key)}" data-default="${fallback}"
+          ${(playerState[kind]?.[key] ?? fallback) ? 'checked' : ''}>
+        <label for="${id}">${kind === 'items' ? 'Have ' : ''}${escapeAttribute(unlock.name)}${suffix}</label>
+      </div>`);
+    }
+  }
+  return fields.join('');
+}
+
+// Building a GPS is slow, so the portal is only looked up again when the settings it depends on change
+let endPortal: { key: string; name: string } | null = null;
+
+/**
+ * Name of the portal an 'end-at-portal' run teleports to, the one the pathfinder picks for this player
+ */
+function getEndPortalName(config: Config): string {
+  const playerState = config.playerState ?? {};
+  const key = JSON.stringify([playerState, config.routingRisk]);
+  if (endPortal?.key !== key) {
+    const matrix = readDistanceMatrix(getDistanceMatrixPath(playerState, config.routingRisk));
+    const gps = new GPS(playerState, matrix, {}, config.routingRisk);
+    endPortal = { key, name: (pathfinder.getPortalClosestToBoard(gps) as { name: string }).name };
+  }
+  return endPortal.name;
+}
+
 function generateSettingsHTML(config: Config, version: string, gitHash: string, logPath: string, githubRepoUrl: string, githubReleasesUrl: string): string {
+  const gameData = getGameDataStatus();
+
+  // Bounties the planner can pick from, by Merchant level then name
+  const plannerCatalog = Object.entries(bounties as Record<string, { level: number }>)
+    .map(([key, bounty]) => ({ key, level: bounty.level }))
+    .sort((a, b) => a.level - b.level || a.key.localeCompare(b.key));
+
   return `<!DOCTYPE html>
 <html>
 <head>
@@ -401,6 +500,41 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
       white-space: nowrap;
     }
     .restart-banner .btn-restart:hover { background: #c2410c; }
+
+    /* Config Issues Banner */
+    .config-issues-banner {
+      display: none;
+      background: #4a2020;
+      border: 1px solid #8b2b2b;
+      border-radius: 6px;
+      padding: 12px 16px;
+      margin: 16px 24px;
+      gap: 12px;
+    }
+    .config-issues-banner.visible { display: flex; }
+    .config-issues-banner .message {
+      flex: 1;
+      color: #f87171;
+      font-size: 13px;
+    }
+    .config-issues-banner ul {
+      margin: 6px 0 0 18px;
+      color: #ddd;
+      font-size: 12px;
+    }
+    .config-issues-banner .path {
+      font-family: monospace;
+      color: #fca5a5;
+    }
+    .config-issues-banner .btn-dismiss {
+      background: none;
+      border: none;
+      color: #888;
+      cursor: pointer;
+      font-size: 18px;
+      align-self: flex-start;
+    }
+    .config-issues-banner .btn-dismiss:hover { color: #ccc; }
     
     /* Tab Content */
     .tab-content {
@@ -705,6 +839,33 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
       color: #ccc;
       white-space: pre-wrap;
     }
+    .history-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 12px;
+      font-variant-numeric: tabular-nums;
+    }
+    .history-table th {
+      text-align: right;
+      color: #888;
+      font-weight: 500;
+      font-size: 11px;
+      text-transform: uppercase;
+      letter-spacing: 0.3px;
+      padding: 6px 8px;
+      border-bottom: 1px solid #2a2a2a;
+    }
+    .history-table td {
+      text-align: right;
+      color: #ccc;
+      padding: 6px 8px;
+      border-bottom: 1px solid #1f1f1f;
+    }
+    .history-table th:first-child,
+    .history-table td:first-child { text-align: left; }
+    .history-table tr.empty td { color: #555; }
+    .history-table .slower { color: #f87171; }
+    .history-table .faster { color: #4ade80; }
     .status-badge {
       display: inline-block;
       padding: 5px 12px;
@@ -716,6 +877,7 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
     .status-badge.optimal { background: #1a3a2a; color: #4ade80; }
     .status-badge.not-optimal { background: #3a1a1a; color: #f87171; }
     .status-badge.idle { background: #2a2a2a; color: #888; }
+    .status-badge.pinned { background: #1a2a3a; color: #60a5fa; }
     .bounty-list {
       display: flex;
       flex-wrap: wrap;
@@ -771,11 +933,101 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
     .collapsible-section.expanded .collapsible-content {
       display: block;
     }
+
+    /* Planner Tab */
+    .planner-picker {
+      display: grid;
+      grid-template-columns: 2fr 1fr 70px;
+      gap: 8px;
+      margin-bottom: 10px;
+    }
+    .planner-actions { display: flex; gap: 8px; flex-wrap: wrap; }
+    .bounty-tag .remove {
+      margin-left: 6px;
+      cursor: pointer;
+      color: #888;
+    }
+    .bounty-tag .remove:hover { color: #f87171; }
+    .planner-results {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(220px, 1fr));
+      gap: 12px;
+    }
+    .planner-route {
+      background: #1a1a1a;
+      border: 1px solid #2a2a2a;
+      border-radius: 8px;
+      padding: 12px;
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+    .planner-route.pinned { border-color: #2563eb; }
+    .planner-route .route-title { color: #fff; font-weight: 600; }
+    .planner-route .route-metrics {
+      color: #4ade80;
+      font-size: 12px;
+      font-variant-numeric: tabular-nums;
+    }
+    .planner-route .route-bounties { font-size: 12px; color: #999; line-height: 1.6; }
+    .planner-route ol {
+      padding-left: 20px;
+      font-family: 'SF Mono', Monaco, monospace;
+      font-size: 12px;
+      line-height: 1.7;
+      color: #ccc;
+      flex: 1;
+    }
+    .planner-route ol .time { color: #666; }
+    .map-container {
+      background: #1a1a1a;
+      border: 1px solid #2a2a2a;
+      border-radius: 8px;
+      padding: 8px;
+    }
+    .map-container svg { width: 100%; height: auto; display: block; }
+    .map-legend {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 14px;
+      font-size: 12px;
+      color: #888;
+      margin-bottom: 10px;
+    }
+    .map-legend .swatch {
+      display: inline-block;
+      width: 10px;
+      height: 10px;
+      border-radius: 50%;
+      margin-right: 5px;
+      vertical-align: middle;
+    }
+    .map-legend .swatch.line { width: 16px; height: 0; border-radius: 0; border-top: 2px solid; }
+    .map-edge { stroke: #444; stroke-width: 2; }
+    .map-edge.hostile { stroke: rgb(230,126,34); stroke-dasharray: 6 4; }
+    .map-door { fill: #555; }
+    .map-market { fill: #777; }
+    .map-portal { fill: rgb(165,105,189); }
+    .map-board { fill: rgb(241,196,15); }
+    .map-label { fill: #aaa; font-size: 12px; pointer-events: none; }
+    .map-route { stroke: rgb(52,152,219); stroke-width: 4; stroke-linecap: round; fill: none; }
+    .map-route.teleport { stroke: rgb(165,105,189); stroke-width: 3; stroke-dasharray: 2 6; }
+    .map-route.done { opacity: 0.25; }
+    .map-route.current { stroke-dasharray: 10 8; animation: map-route-flow 0.8s linear infinite; }
+    .map-stop { fill: none; stroke-width: 3; }
+    .map-stop.buy { stroke: rgb(231,76,60); }
+    .map-stop.sell { stroke: rgb(46,204,113); }
+    .map-stop.done { opacity: 0.3; }
+    .map-player { fill: #fff; animation: map-player-pulse 1.2s ease-in-out infinite; }
+    @keyframes map-route-flow { to { stroke-dashoffset: -18; } }
+    @keyframes map-player-pulse { 50% { opacity: 0.3; } }
   </style>
 </head>
 <body>
   <div class="tabs">
     <button class="tab active" data-tab="session">Session</button>
+    <button class="tab" data-tab="map">Map</button>
+    <button class="tab" data-tab="planner">Planner</button>
     <button class="tab" data-tab="settings">Settings</button>
     <button class="tab" data-tab="log">Log</button>
     <button class="tab" data-tab="about">About</button>
@@ -794,6 +1046,14 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
     <button class="btn-restart" onclick="restartApp()">Restart Now</button>
   </div>
 
+  <div id="configIssuesBanner" class="config-issues-banner">
+    <div class="message">
+      <strong>⚠️ Problems found in your config file</strong>
+      <ul id="configIssuesList"></ul>
+    </div>
+    <button class="btn-dismiss" onclick="dismissConfigIssues()">×</button>
+  </div>
+
   <div id="session" class="tab-content active">
     <!-- Board Timer -->
     <div class="stat-card highlight" style="margin-bottom: 20px; padding: 24px;">
@@ -824,6 +1084,7 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
       <h2>Current Status</h2>
       <div style="display: flex; align-items: center; gap: 10px;">
         <span id="statusBadge" class="status-badge idle">Idle</span>
+        <span id="pinnedBadge" class="status-badge pinned" style="display: none;">📌 Pinned</span>
         <span id="boardStatus" style="color: #888; font-size: 13px;">Board: Closed</span>
       </div>
     </div>
@@ -849,6 +1110,22 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
       </div>
     </div>
 
+    <div class="section">
+      <h2>History</h2>
+      <div id="historySummary" style="color: #888; font-size: 12px; margin-bottom: 8px;">No runs recorded yet</div>
+      <table class="history-table" id="historyDays"></table>
+    </div>
+
+    <div class="section">
+      <h2>Weekly History</h2>
+      <table class="history-table" id="historyWeeks"></table>
+    </div>
+
+    <div class="section">
+      <h2>Recent Runs</h2>
+      <table class="history-table" id="historyRuns"></table>
+    </div>
+
     <div class="collapsible-section" id="ocrDebugSection">
       <div class="collapsible-header" onclick="toggleCollapsible('ocrDebugSection')">
         <h2>Advanced - OCR Debug</h2>
@@ -871,21 +1148,163 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
     </div>
   </div>
 
+  <div id="map" class="tab-content">
+    <div class="section">
+      <h2>World Map</h2>
+      <div class="map-legend">
+        <span><span class="swatch" style="background: rgb(241,196,15)"></span>Bounty Board</span>
+        <span><span class="swatch" style="background: rgb(165,105,189)"></span>Portal</span>
+        <span><span class="swatch" style="background: #777"></span>Market</span>
+        <span><span class="swatch" style="border: 2px solid rgb(231,76,60)"></span>Buy</span>
+        <span><span class="swatch" style="border: 2px solid rgb(46,204,113)"></span>Sell</span>
+        <span><span class="swatch line" style="border-color: rgb(52,152,219)"></span>Route</span>
+        <span><span class="swatch line" style="border-top-style: dashed; border-color: rgb(230,126,34)"></span>Hostile</span>
+      </div>
+      <div class="map-container"><svg id="worldMap"></svg></div>
+      <div id="mapStatus" class="hint">No active route</div>
+      <div class="hint">The map is a schematic of the pathfinding graph, not the in-game map. Hover a point for its name.</div>
+    </div>
+  </div>
+
+  <div id="planner" class="tab-content">
+    <div class="section">
+      <h2>Pick Bounties</h2>
+      <div class="planner-picker">
+        <select id="plannerBounty"></select>
+        <select id="plannerRarity">
+          <option value="">Normal</option>
+          <option value="uncommon">Uncommon</option>
+          <option value="rare">Rare</option>
+          <option value="epic">Epic</option>
+        </select>
+        <input type="number" id="plannerQuantity" min="1" max="30" value="6" title="Items the bounty asks for">
+      </div>
+      <div class="planner-actions">
+        <button type="button" class="btn-toggle" onclick="addPlannerBounty('active')">Add to Active</button>
+        <button type="button" class="btn-toggle" onclick="addPlannerBounty('board')">Add to Board</button>
+        <button type="button" class="btn-secondary" onclick="loadPlannerFromGame()">Load from Game</button>
+        <button type="button" class="btn-secondary" onclick="clearPlanner()">Clear</button>
+      </div>
+      <div class="hint">Uses your Game Settings (levels, inventory space, run ending). Quantity is how many items the bounty asks for.</div>
+    </div>
+
+    <div class="section">
+      <h2>Active Bounties</h2>
+      <div id="plannerActive" class="bounty-list"></div>
+    </div>
+
+    <div class="section">
+      <h2>Board Bounties</h2>
+      <div id="plannerBoard" class="bounty-list"></div>
+    </div>
+
+    <div class="section">
+      <h2>Compare Routes</h2>
+      <div style="display: flex; gap: 8px; align-items: center;">
+        <select id="plannerCount" style="width: auto;">
+          <option value="1">Best route</option>
+          <option value="2">Top 2</option>
+          <option value="3" selected>Top 3</option>
+          <option value="5">Top 5</option>
+        </select>
+        <button type="button" id="btnPlannerFind" class="btn-toggle" onclick="findPlannerRoutes()">Find Routes</button>
+        <span id="plannerStatus" style="color: #888; font-size: 13px;"></span>
+      </div>
+      <div id="plannerPinned" class="hint" style="display: none;">
+        📌 The overlay is following a pinned route until the run completes.
+        <button type="button" class="btn-link" onclick="unpinPlannerRoute()">Unpin</button>
+      </div>
+    </div>
+
+    <div id="plannerResults" class="planner-results"></div>
+  </div>
+
   <div id="settings" class="tab-content">
     <h1>Settings</h1>
     
+    <div class="section">
+      <h2>Profiles</h2>
+      <div class="form-group">
+        <label for="profileSelect">Active Profile</label>
+        <select id="profileSelect" class="profile-control" onchange="switchProfile(this.value)"></select>
+        <div class="hint">Each profile has its own settings, region layout, shortcuts and run history, e.g. one per character. Switching applies it straight away.</div>
+      </div>
+      <div class="form-group">
+        <label for="profileName">Profile Name</label>
+        <input type="text" id="profileName" class="profile-control" placeholder="New name">
+        <div style="display: flex; gap: 8px; margin-top: 8px;">
+          <button type="button" class="btn-secondary" onclick="createProfile(false)">New</button>
+          <button type="button" class="btn-secondary" onclick="createProfile(true)">Clone Active</button>
+          <button type="button" class="btn-secondary" onclick="renameProfile()">Rename Active</button>
+          <button type="button" class="btn-danger" onclick="deleteProfile()">Delete...</button>
+        </div>
+        <div class="hint" id="profileStatus" style="margin-top: 6px;"></div>
+      </div>
+    </div>
+
+    <div class="section">
+      <h2>Share Settings</h2>
+      <div class="form-group">
+        <label>Include</label>
+        <div class="form-group checkbox-group" style="margin-bottom: 4px;">
+          <input type="checkbox" id="bundleSettings" class="bundle-control" checked onchange="refreshImportPreview()">
+          <label for="bundleSettings">Game settings (levels, inventory, route options, chat font size)</label>
+        </div>
+        <div class="form-group checkbox-group" style="margin-bottom: 4px;">
+          <input type="checkbox" id="bundleShortcuts" class="bundle-control" checked onchange="refreshImportPreview()">
+          <label for="bundleShortcuts">Keyboard shortcuts</label>
+        </div>
+        <div class="form-group checkbox-group" style="margin-bottom: 4px;">
+          <input type="checkbox" id="bundleRegions" class="bundle-control" checked onchange="refreshImportPreview()">
+          <label for="bundleRegions">Region layout (all saved window sizes)</label>
+        </div>
+        <div style="display: flex; gap: 8px; margin-top: 8px;">
+          <button type="button" class="btn-secondary" onclick="exportSettings()">Export...</button>
+          <button type="button" class="btn-secondary" onclick="openImport()">Import...</button>
+        </div>
+        <div class="hint">Exports the active profile to a file teammates can import. The OCR engine and other settings that depend on the computer are never included.</div>
+        <div class="hint" id="bundleStatus" style="margin-top: 6px;"></div>
+      </div>
+      <div id="importPreview" style="display: none;">
+        <div class="form-group">
+          <label id="importSummary"></label>
+          <ul id="importIssues" class="hint" style="margin-left: 18px;"></ul>
+        </div>
+        <div class="form-group">
+          <label for="importRegionProfiles">Saved Window Sizes</label>
+          <select id="importRegionProfiles" class="bundle-control" onchange="refreshImportPreview()">
+            <option value="merge">Merge: keep my window sizes the file doesn't have</option>
+            <option value="replace">Replace: use only the file's window sizes</option>
+          </select>
+        </div>
+        <table class="history-table" id="importChanges"></table>
+        <div style="display: flex; gap: 8px; margin-top: 12px;">
+          <button type="button" class="btn-toggle" id="importApplyBtn" onclick="applyImport()">Apply</button>
+          <button type="button" class="btn-secondary" onclick="cancelImport()">Cancel</button>
+        </div>
+      </div>
+    </div>
+
     <div class="section">
       <h2>Game Settings</h2>
       <div class="form-group">
-        <label for="detectiveLevel">Detective Level (1-500)</label>
-        <input type="number" id="detectiveLevel" min="1" max="500" value="${config.detectiveLevel ?? 500}">
+        <label for="merchantLevel">Merchant Level (1-500)</label>
+        <input type="number" id="merchantLevel" min="1" max="500" value="${config.merchantLevel ?? 500}">
+        <div class="hint">Bounties above this level are ignored, and KP is scaled to your level</div>
       </div>
-      <div class="form-group checkbox-group">
-        <input type="checkbox" id="isBattleOfFortuneholdCompleted" ${config.isBattleOfFortuneholdCompleted ? 'checked' : ''}>
-        <label for="isBattleOfFortuneholdCompleted">Battle of Fortunehold Completed</label>
+      <div class="form-group">
+        <label for="inventorySpace">Inventory Space (6-100)</label>
+        <input type="number" id="inventorySpace" min="6" max="100" value="${config.inventorySpace ?? 24}">
+        <div class="hint">Slots free for bounty items, including backpack upgrades</div>
       </div>
     </div>
 
+    <div class="section">
+      <h2>Player Progress</h2>
+      <div class="hint">Paths that need a skill level, quest or item you don't have are left out of routes</div>
+      ${generatePlayerStateFields(config.playerState)}
+    </div>
+
     <div class="section">
       <h2>OCR Settings</h2>
       <div class="form-group">
@@ -894,9 +1313,25 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
           <option value="auto" ${config.ocrMethod === 'auto' ? 'selected' : ''}>Auto</option>
           <option value="native" ${config.ocrMethod === 'native' ? 'selected' : ''}>Native (Tesseract CLI)</option>
           <option value="tesseract-js" ${config.ocrMethod === 'tesseract-js' ? 'selected' : ''}>Tesseract.js</option>
+          <option value="template" ${config.ocrMethod === 'template' ? 'selected' : ''}>Template matching (capture below first)</option>
         </select>
         <div class="hint">Auto will use native Tesseract if available, otherwise Tesseract.js</div>
       </div>
+      <div class="form-group">
+        <label>Template Capture</label>
+        <div class="hint">Template matching reads bounties by comparing each word with samples captured from your own screen, which is much faster than Tesseract. Anything it can't read confidently is still read with Tesseract.</div>
+        <ol class="hint" style="margin: 6px 0 0 18px; padding: 0;">
+          <li>Open the Guild Bounty Board in game</li>
+          <li>Click Capture and keep the board open for a few seconds</li>
+          <li>Repeat with different bounties on the board until most words are covered</li>
+          <li>Select Template matching above and restart</li>
+        </ol>
+        <div class="hint" id="templateStatus" style="margin-top: 6px;"></div>
+        <div style="display: flex; gap: 8px; margin-top: 8px;">
+          <button type="button" class="btn-secondary" id="captureTemplatesBtn" onclick="captureTemplates()">Capture</button>
+          <button type="button" class="btn-secondary" onclick="resetTemplates()">Reset Templates</button>
+        </div>
+      </div>
     </div>
 
     <div class="section">
@@ -912,6 +1347,41 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
         </select>
         <div class="hint">Higher quality = better routes but slower calculation. Level 5 evaluates all combinations.</div>
       </div>
+      <div class="form-group">
+        <label for="runEnding">Run Ending</label>
+        <select id="runEnding">
+          <option value="return-to-board" ${(config.runEnding ?? 'return-to-board') === 'return-to-board' ? 'selected' : ''}>Return to Guild Bounty Board (default)</option>
+          <option value="end-anywhere" ${config.runEnding === 'end-anywhere' ? 'selected' : ''}>End anywhere</option>
+          <option value="end-at-portal" ${config.runEnding === 'end-at-portal' ? 'selected' : ''}>Teleport back to ${escapeAttribute(getEndPortalName(config))}</option>
+        </select>
+        <div class="hint">What happens after the final sale. Routes and times include the walk or teleport back.</div>
+      </div>
+      <div class="form-group">
+        <label for="riskMode">Hostile Areas</label>
+        <select id="riskMode">
+          <option value="expected" ${(config.routingRisk?.mode ?? 'expected') === 'expected' ? 'selected' : ''}>Fastest on average (default)</option>
+          <option value="avoid-hostile" ${config.routingRisk?.mode === 'avoid-hostile' ? 'selected' : ''}>Avoid when there's a way around</option>
+          <option value="worst-case" ${config.routingRisk?.mode === 'worst-case' ? 'selected' : ''}>Plan for an encounter every time</option>
+        </select>
+        <div class="hint">Paths through hostile areas can be slowed by mob encounters. The overlay shows the time 90% of runs finish within (p90) when it differs from the estimate.</div>
+      </div>
+      <div class="form-group">
+        <label for="encounterChance">Encounter Chance (x0-5)</label>
+        <input type="number" id="encounterChance" min="0" max="5" step="0.1" value="${config.routingRisk?.encounterChance ?? 1}">
+      </div>
+      <div class="form-group">
+        <label for="encounterTime">Encounter Time (x0-10)</label>
+        <input type="number" id="encounterTime" min="0" max="10" step="0.1" value="${config.routingRisk?.encounterTime ?? 1}">
+        <div class="hint">Multiply the game data's encounter chance and fight time, e.g. 2 if fights take you twice as long</div>
+      </div>
+      <div class="form-group checkbox-group">
+        <input type="checkbox" id="travelCalibration" ${config.travelCalibration !== false ? 'checked' : ''}>
+        <label for="travelCalibration">Learn travel times from completed runs</label>
+      </div>
+      <div class="form-group">
+        <div class="hint" id="calibrationStatus">Compares each run's timing with the estimate and adjusts walking times to match your pace.</div>
+        <button type="button" class="btn-secondary" style="margin-top: 8px;" onclick="resetCalibration()">Reset Learned Travel Times</button>
+      </div>
     </div>
 
     <div class="section">
@@ -941,6 +1411,13 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
           <input type="text" id="openSettings" value="${config.keyboardShortcuts?.openSettings ?? 'CmdOrCtrl+,'}">
         </div>
       </div>
+      <div class="shortcut-group">
+        <div class="form-group">
+          <label for="cycleAlternatives">Cycle Alternatives</label>
+          <div class="hint">Follow the next best bounty set while the board is open</div>
+          <input type="text" id="cycleAlternatives" value="${config.keyboardShortcuts?.cycleAlternatives ?? 'CmdOrCtrl+L'}">
+        </div>
+      </div>
     </div>
 
     <div class="section">
@@ -966,6 +1443,30 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
           <div class="hint">Reset all overlay region positions and sizes</div>
         </div>
       </div>
+      <div class="form-group">
+        <label>Window Size Profiles</label>
+        <div class="hint">Regions are saved relative to the game window, separately for each window size and display scaling, and switch automatically when the window is resized or goes fullscreen.</div>
+        <div class="hint" id="regionProfileStatus" style="margin-top: 6px;"></div>
+      </div>
+      <div class="form-group">
+        <label>Auto-Calibrate Regions</label>
+        <div class="hint">Finds the board title, board slots and active bounties in a screenshot of the game and shows them in edit mode. Open the Guild Bounty Board with a few active bounties first, then check the proposed regions and click Apply in the overlay.</div>
+        <div class="hint" id="autoCalibrateStatus" style="margin-top: 6px;"></div>
+        <button type="button" class="btn-secondary" id="autoCalibrateBtn" style="margin-top: 8px;" onclick="autoCalibrateRegions()">Auto-Calibrate</button>
+      </div>
+    </div>
+
+    <div class="section">
+      <h2>Debugging</h2>
+      <div class="form-group checkbox-group">
+        <input type="checkbox" id="debugRecording" ${config.debugRecording ? 'checked' : ''}>
+        <label for="debugRecording">Record screenshots and OCR results</label>
+      </div>
+      <div class="form-group">
+        <div class="hint">Saves every processed frame to a new folder for bug reports. Uses a lot of disk space, so only enable it while reproducing a problem.</div>
+        <div class="hint" id="recordingsStatus"></div>
+        <button type="button" class="btn-secondary" style="margin-top: 8px;" onclick="openRecordingsFolder()">Open Recordings Folder</button>
+      </div>
     </div>
 
     <div class="section">
@@ -1034,6 +1535,15 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
           <div class="label">Node.js</div>
           <div class="value">${process.versions.node}</div>
         </div>
+        <div class="info-item">
+          <div class="label">Game Data</div>
+          <div class="value">${gameData.dataVersion}</div>
+          <div class="hint">${gameData.overrideApplied
+            ? `Includes the override pack at ${gameData.overridePath}`
+            : gameData.errors.length > 0
+              ? `Override pack ignored: ${gameData.errors.join('; ').replace(/</g, '&lt;')}`
+              : `Place a pack at ${gameData.overridePath} to override it`}</div>
+        </div>
       </div>
     </div>
 
@@ -1095,6 +1605,18 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
         if (tab.dataset.tab === 'log') {
           loadLog();
         }
+        if (tab.dataset.tab === 'settings') {
+          updateCalibrationStatus();
+          updateRecordingsStatus();
+          updateTemplateStatus();
+          updateRegionProfileStatus();
+        }
+        if (tab.dataset.tab === 'session') {
+          loadHistory();
+        }
+        if (tab.dataset.tab === 'map') {
+          loadWorldMap();
+        }
         if (tab.dataset.tab === 'about') {
           startPerformanceUpdates();
         } else {
@@ -1162,9 +1684,216 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
 
     // Session data updates
     ipcRenderer.on('session-update', (e, data) => {
+      // A completed bounty may have finished a run, so the history needs refreshing
+      const completed = data && data.sessionStats ? data.sessionStats.totalBountiesCompleted : null;
+      const prevCompleted = lastSessionData && lastSessionData.sessionStats ? lastSessionData.sessionStats.totalBountiesCompleted : null;
+      lastSessionData = data;
       updateSessionDisplay(data);
+      if (completed !== prevCompleted) {
+        loadHistory();
+      }
     });
 
+    // Map tab: the world graph with the current route drawn over it
+    const SVG_NS = 'http://www.w3.org/2000/svg';
+    let worldMap = null;
+    let worldMapNodes = null;
+    let worldMapEdges = null;
+    let lastRouteMap = null;
+    let lastRouteMapSignature = null;
+
+    function svgElement(tag, attrs, parent) {
+      const el = document.createElementNS(SVG_NS, tag);
+      for (const name in attrs) el.setAttribute(name, attrs[name]);
+      if (parent) parent.appendChild(el);
+      return el;
+    }
+
+    function addMapTitle(el, text) {
+      svgElement('title', {}, el).textContent = text;
+    }
+
+    function loadWorldMap() {
+      if (worldMap) {
+        drawRouteMap(lastRouteMap);
+        return;
+      }
+      ipcRenderer.invoke('map-get-world').then(map => {
+        worldMap = map;
+        drawWorldMap();
+        return ipcRenderer.invoke('map-get-route');
+      }).then(routeMap => {
+        lastRouteMap = routeMap;
+        lastRouteMapSignature = JSON.stringify(routeMap);
+        drawRouteMap(routeMap);
+      }).catch(err => {
+        document.getElementById('mapStatus').textContent = 'Failed to load the map: ' + (err && err.message ? err.message : err);
+      });
+    }
+
+    function drawWorldMap() {
+      const svg = document.getElementById('worldMap');
+      svg.textContent = '';
+      svg.setAttribute('viewBox', '0 0 ' + worldMap.width + ' ' + worldMap.height);
+
+      worldMapNodes = new Map();
+      for (const node of worldMap.nodes) worldMapNodes.set(node.node, node);
+      worldMapEdges = new Set();
+
+      const edgeLayer = svgElement('g', {}, svg);
+      for (const edge of worldMap.edges) {
+        const a = worldMapNodes.get(edge.nodes[0]);
+        const b = worldMapNodes.get(edge.nodes[1]);
+        worldMapEdges.add(edge.nodes[0] + '-' + edge.nodes[1]);
+        if (!edge.directed) worldMapEdges.add(edge.nodes[1] + '-' + edge.nodes[0]);
+        const line = svgElement('line', { x1: a.x, y1: a.y, x2: b.x, y2: b.y, class: 'map-edge' + (edge.hostile ? ' hostile' : '') }, edgeLayer);
+        if (edge.hostile) addMapTitle(line, 'Hostile: ' + edge.nodes[0] + ' - ' + edge.nodes[1]);
+      }
+
+      svgElement('g', { id: 'mapRoute' }, svg);
+
+      const nodeLayer = svgElement('g', {}, svg);
+      for (const node of worldMap.nodes) {
+        const circle = svgElement('circle', { cx: node.x, cy: node.y, r: node.kind === 'door' ? 3 : 6, class: 'map-' + node.kind }, nodeLayer);
+        addMapTitle(circle, (node.name ? node.name + ' ' : '') + '#' + node.node);
+        if (node.kind === 'board' || node.kind === 'portal') {
+          svgElement('text', { x: node.x + 9, y: node.y + 4, class: 'map-label' }, nodeLayer).textContent = node.name;
+        }
+      }
+
+      svgElement('g', { id: 'mapStops' }, svg);
+    }
+
+    function drawRouteMap(routeMap) {
+      const status = document.getElementById('mapStatus');
+      if (!worldMap) return;
+      const routeLayer = document.getElementById('mapRoute');
+      const stopLayer = document.getElementById('mapStops');
+      routeLayer.textContent = '';
+      stopLayer.textContent = '';
+
+      if (!routeMap || routeMap.legs.length === 0) {
+        status.textContent = 'No active route';
+        return;
+      }
+
+      const current = routeMap.currentStep;
+      const legState = (leg) => current === null ? '' : leg.step < current ? ' done' : leg.step === current ? ' current' : '';
+
+      const labelled = new Set();
+      for (const leg of routeMap.legs) {
+        const state = legState(leg);
+        for (let i = 1; i < leg.nodes.length; i++) {
+          const a = worldMapNodes.get(leg.nodes[i - 1]);
+          const b = worldMapNodes.get(leg.nodes[i]);
+          if (!a || !b) continue;
+          // Hops that aren't an edge are teleports to a portal
+          const walked = worldMapEdges.has(leg.nodes[i - 1] + '-' + leg.nodes[i]);
+          svgElement('line', { x1: a.x, y1: a.y, x2: b.x, y2: b.y, class: 'map-route' + (walked ? '' : ' teleport') + state }, routeLayer);
+        }
+
+        const end = worldMapNodes.get(leg.nodes[leg.nodes.length - 1]);
+        if (!end || (leg.type !== 'buy' && leg.type !== 'sell')) continue;
+        const ring = svgElement('circle', { cx: end.x, cy: end.y, r: leg.type === 'buy' ? 10 : 14, class: 'map-stop ' + leg.type + state }, stopLayer);
+        addMapTitle(ring, (leg.type === 'buy' ? 'Buy at ' : 'Sell at ') + leg.location);
+        if (!labelled.has(end.node)) {
+          labelled.add(end.node);
+          svgElement('text', { x: end.x + 16, y: end.y + 4, class: 'map-label' }, stopLayer).textContent = leg.location;
+        }
+      }
+
+      // Where the player is: the start of the step they're on
+      if (current !== null && current < routeMap.legs.length) {
+        const leg = routeMap.legs[current];
+        const at = leg.nodes.length > 0 ? worldMapNodes.get(leg.nodes[0]) : null;
+        if (at) svgElement('circle', { cx: at.x, cy: at.y, r: 5, class: 'map-player' }, stopLayer);
+        status.textContent = 'Step ' + (current + 1) + ' of ' + routeMap.legs.length + ': ' + leg.type.toUpperCase() + ' at ' + leg.location;
+      } else if (current !== null) {
+        status.textContent = 'Run complete';
+      } else {
+        status.textContent = routeMap.legs.length + ' steps, waiting for the run to start';
+      }
+    }
+
+    ipcRenderer.on('map-route-update', (e, routeMap) => {
+      const signature = JSON.stringify(routeMap);
+      if (signature === lastRouteMapSignature) return;
+      lastRouteMap = routeMap;
+      lastRouteMapSignature = signature;
+      if (document.getElementById('map').classList.contains('active')) {
+        drawRouteMap(routeMap);
+      }
+    });
+
+    // Run history (persisted across launches)
+    function formatHistoryDuration(seconds) {
+      const total = Math.round(seconds);
+      const hours = Math.floor(total / 3600);
+      const minutes = Math.floor((total % 3600) / 60);
+      const secs = total % 60;
+      if (hours > 0) return hours + 'h ' + minutes + 'm';
+      return minutes + 'm ' + (secs < 10 ? '0' : '') + secs + 's';
+    }
+
+    function formatEstimateDiff(estimated, actual) {
+      if (!estimated) return '--';
+      const diff = actual - estimated;
+      const pct = (diff / estimated) * 100;
+      const cls = diff > 0 ? 'slower' : 'faster';
+      return '<span class="' + cls + '">' + (diff >= 0 ? '+' : '') + pct.toFixed(0) + '%</span>';
+    }
+
+    function renderAggregateTable(tableId, rows, periodLabel) {
+      let html = '<tr><th>' + periodLabel + '</th><th>Runs</th><th>Bounties</th><th>KP</th><th>KP / Hour</th><th>Run Time</th><th>vs Est.</th></tr>';
+      for (const row of rows) {
+        if (row.runs === 0) {
+          html += '<tr class="empty"><td>' + row.periodStart + '</td><td>0</td><td>--</td><td>--</td><td>--</td><td>--</td><td>--</td></tr>';
+          continue;
+        }
+        const kpPerHour = row.actualSeconds > 0 ? (row.kp / (row.actualSeconds / 3600)) / 100 : 0;
+        html += '<tr><td>' + row.periodStart + '</td>' +
+          '<td>' + row.runs + '</td>' +
+          '<td>' + row.bounties + '</td>' +
+          '<td>' + (row.kp / 100).toFixed(2) + '</td>' +
+          '<td>' + kpPerHour.toFixed(2) + '</td>' +
+          '<td>' + formatHistoryDuration(row.actualSeconds) + '</td>' +
+          '<td>' + formatEstimateDiff(row.estimatedSeconds, row.actualSeconds) + '</td></tr>';
+      }
+      document.getElementById(tableId).innerHTML = html;
+    }
+
+    async function loadHistory() {
+      try {
+        const history = await ipcRenderer.invoke('session-get-history');
+        if (!history) return;
+
+        document.getElementById('historySummary').textContent = history.totalRuns > 0
+          ? history.totalRuns + ' runs recorded'
+          : 'No runs recorded yet';
+        renderAggregateTable('historyDays', history.days, 'Day');
+        renderAggregateTable('historyWeeks', history.weeks, 'Week Of');
+
+        let html = '<tr><th>Finished</th><th>Bounties</th><th>KP</th><th>Run Time</th><th>Estimate</th><th>vs Est.</th></tr>';
+        for (const run of history.recentRuns) {
+          const finished = new Date(run.completedAt);
+          const bountyNames = run.bounties.map((b, i) => formatBountyName(b, run.rarities[i])).join(', ');
+          html += '<tr><td>' + finished.toLocaleDateString() + ' ' + finished.toLocaleTimeString() + '</td>' +
+            '<td style="text-align: left;">' + bountyNames + '</td>' +
+            '<td>' + (run.kp / 100).toFixed(2) + '</td>' +
+            '<td>' + formatHistoryDuration(run.actualSeconds) + '</td>' +
+            '<td>' + formatHistoryDuration(run.estimatedSeconds) + '</td>' +
+            '<td>' + formatEstimateDiff(run.estimatedSeconds, run.actualSeconds) + '</td></tr>';
+        }
+        if (history.recentRuns.length === 0) {
+          html += '<tr class="empty"><td colspan="6">No runs recorded yet</td></tr>';
+        }
+        document.getElementById('historyRuns').innerHTML = html;
+      } catch (err) {
+        console.error('Failed to load history:', err);
+      }
+    }
+    loadHistory();
+
     function updateSessionDisplay(data) {
       if (!data) return;
 
@@ -1205,6 +1934,9 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
         statusBadge.className = 'status-badge idle';
       }
 
+      document.getElementById('pinnedBadge').style.display = data.routePinned ? 'inline-block' : 'none';
+      document.getElementById('plannerPinned').style.display = data.routePinned ? 'block' : 'none';
+
       // Board status
       document.getElementById('boardStatus').textContent = 
         data.boardOpen ? 'Board: Open' : 'Board: Closed';
@@ -1274,6 +2006,7 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
           const rarity = data.activeBountyRarities && data.activeBountyRarities[i] ? data.activeBountyRarities[i] : null;
           const matchType = data.matchTypes && data.matchTypes[key] ? data.matchTypes[key] : null;
           const fuzzyMatches = data.fuzzyDebug && data.fuzzyDebug[key] ? data.fuzzyDebug[key] : null;
+          const rarityDisagreement = data.rarityDisagreements && data.rarityDisagreements[key] ? data.rarityDisagreements[key] : null;
           
           activeOcrHtml += '<div style="margin-bottom: 12px;">';
           activeOcrHtml += '<span style="color: #60a5fa;">Slot ' + i + ':</span> ';
@@ -1297,6 +2030,9 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
             }
             activeOcrHtml += '</div>';
           }
+          if (rarityDisagreement) {
+            activeOcrHtml += '<div style="margin-left: 20px; margin-top: 4px; font-size: 11px; color: #fbbf24;">' + formatRarityDisagreement(rarityDisagreement) + '</div>';
+          }
           activeOcrHtml += '</div>';
         }
         activeOcrDebugEl.innerHTML = activeOcrHtml || '<span style="color: #666;">No data</span>';
@@ -1311,6 +2047,7 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
           const rarity = data.boardBountyRarities && data.boardBountyRarities[i] ? data.boardBountyRarities[i] : null;
           const matchType = data.matchTypes && data.matchTypes[key] ? data.matchTypes[key] : null;
           const fuzzyMatches = data.fuzzyDebug && data.fuzzyDebug[key] ? data.fuzzyDebug[key] : null;
+          const rarityDisagreement = data.rarityDisagreements && data.rarityDisagreements[key] ? data.rarityDisagreements[key] : null;
           
           boardOcrHtml += '<div style="margin-bottom: 12px;">';
           boardOcrHtml += '<span style="color: #60a5fa;">Slot ' + i + ':</span> ';
@@ -1334,12 +2071,22 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
             }
             boardOcrHtml += '</div>';
           }
+          if (rarityDisagreement) {
+            boardOcrHtml += '<div style="margin-left: 20px; margin-top: 4px; font-size: 11px; color: #fbbf24;">' + formatRarityDisagreement(rarityDisagreement) + '</div>';
+          }
           boardOcrHtml += '</div>';
         }
         boardOcrDebugEl.innerHTML = boardOcrHtml || '<span style="color: #666;">No data</span>';
       }
     }
 
+    function formatRarityDisagreement(evidence) {
+      const label = (rarity) => rarity || 'normal';
+      return 'Rarity: text says ' + label(evidence.textRarity) +
+        ', colour says ' + label(evidence.imageRarity) + ' (' + Math.round(evidence.imageConfidence * 100) + '%)' +
+        ', using ' + label(evidence.rarity) + ' (' + Math.round(evidence.confidence * 100) + '%)';
+    }
+
     function formatBountyName(key, rarity) {
       // Convert SNAKE_CASE to Title Case with spaces
       const name = key.split('_')
@@ -1355,6 +2102,174 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
       return name;
     }
 
+    // Planner: hand-picked bounties, compared without the game open
+    const BOUNTY_CATALOG = ${JSON.stringify(plannerCatalog)};
+    const plannerBounties = { active: [], board: [] };
+    let plannerRoutes = [];
+    let pinnedPlannerRoute = null;
+    let lastSessionData = null;
+
+    const plannerBountySelect = document.getElementById('plannerBounty');
+    for (const { key, level } of BOUNTY_CATALOG) {
+      const option = document.createElement('option');
+      option.value = key;
+      option.textContent = formatBountyName(key) + ' (Lv ' + level + ')';
+      plannerBountySelect.appendChild(option);
+    }
+
+    function addPlannerBounty(list) {
+      const quantity = parseInt(document.getElementById('plannerQuantity').value, 10);
+      plannerBounties[list].push({
+        bountyKey: plannerBountySelect.value,
+        rarity: document.getElementById('plannerRarity').value || null,
+        quantity: isNaN(quantity) ? 6 : Math.max(1, Math.min(30, quantity)),
+      });
+      renderPlannerBounties();
+    }
+
+    function removePlannerBounty(list, index) {
+      plannerBounties[list].splice(index, 1);
+      renderPlannerBounties();
+    }
+
+    function clearPlanner() {
+      plannerBounties.active = [];
+      plannerBounties.board = [];
+      plannerRoutes = [];
+      renderPlannerBounties();
+      renderPlannerRoutes();
+    }
+
+    // Start from what OCR currently sees
+    function loadPlannerFromGame() {
+      const data = lastSessionData;
+      const toPlanner = (detected, rarities) => Object.entries(detected || {})
+        .filter(([_, bountyKey]) => bountyKey)
+        .map(([index, bountyKey]) => ({ bountyKey, rarity: (rarities && rarities[index]) || null }));
+      plannerBounties.active = data ? toPlanner(data.activeBounties, data.activeBountyRarities) : [];
+      plannerBounties.board = data && data.boardOpen ? toPlanner(data.boardBounties, data.boardBountyRarities) : [];
+      renderPlannerBounties();
+    }
+
+    function renderPlannerBounties() {
+      for (const list of ['active', 'board']) {
+        const el = document.getElementById(list === 'active' ? 'plannerActive' : 'plannerBoard');
+        if (plannerBounties[list].length === 0) {
+          el.innerHTML = '<span style="color: #666;">None</span>';
+          continue;
+        }
+        el.innerHTML = plannerBounties[list]
+          .map((b, index) => '<span class="bounty-tag ' + list + '">' +
+            formatBountyName(b.bountyKey, b.rarity) + (b.quantity && b.quantity !== 6 ? ' ×' + b.quantity : '') +
+            '<span class="remove" onclick="removePlannerBounty(\\'' + list + '\\', ' + index + ')">×</span></span>')
+          .join('');
+      }
+    }
+
+    async function findPlannerRoutes() {
+      const button = document.getElementById('btnPlannerFind');
+      const status = document.getElementById('plannerStatus');
+      if (plannerBounties.active.length + plannerBounties.board.length === 0) {
+        status.textContent = 'Add some bounties first';
+        return;
+      }
+
+      button.disabled = true;
+      status.textContent = '⏳ Computing...';
+      const startedAt = Date.now();
+      try {
+        plannerRoutes = await ipcRenderer.invoke('planner-find-routes', {
+          activeBounties: plannerBounties.active,
+          boardBounties: plannerBounties.board,
+          count: parseInt(document.getElementById('plannerCount').value, 10),
+        });
+        status.textContent = 'Found ' + plannerRoutes.length + ' route(s) in ' + ((Date.now() - startedAt) / 1000).toFixed(1) + 's';
+      } catch (err) {
+        plannerRoutes = [];
+        status.textContent = 'Failed: ' + String(err && err.message || err).replace(/^Error invoking remote method '[^']+': (Error: )?/, '');
+      } finally {
+        button.disabled = false;
+      }
+      renderPlannerRoutes();
+    }
+
+    function formatPlannerTime(seconds) {
+      const minutes = Math.floor(seconds / 60);
+      const secs = Math.round(seconds - minutes * 60);
+      return minutes + ':' + (secs < 10 ? '0' : '') + secs;
+    }
+
+    function formatPlannerStep(step) {
+      if (step.type === 'buy') return '<b style="color: rgb(231,76,60)">BUY</b> ' + formatBountyName(step.item) + ' @ ' + step.location;
+      if (step.type === 'sell') return '<b style="color: rgb(46,204,113)">SELL</b> ' + formatBountyName(step.item) + ' @ ' + step.location;
+      if (step.type === 'teleport') return '<b style="color: rgb(165,105,189)">TELE</b> ' + step.location;
+      if (step.type === 'return') return 'Return to ' + step.location;
+      return step.location;
+    }
+
+    // Which picked bounties a route keeps, accepts from the board, or drops
+    function describePlannerBounties(route) {
+      const remaining = route.bounties.slice();
+      const take = (bountyKey) => {
+        const index = remaining.indexOf(bountyKey);
+        if (index === -1) return false;
+        remaining.splice(index, 1);
+        return true;
+      };
+      const keep = [];
+      const drop = [];
+      for (const b of plannerBounties.active) {
+        (take(b.bountyKey) ? keep : drop).push(formatBountyName(b.bountyKey, b.rarity));
+      }
+      const accept = [];
+      for (const b of plannerBounties.board) {
+        if (take(b.bountyKey)) accept.push(formatBountyName(b.bountyKey, b.rarity));
+      }
+
+      const lines = [];
+      if (keep.length > 0) lines.push('<span style="color: #4ade80;">Keep:</span> ' + keep.join(', '));
+      if (accept.length > 0) lines.push('<span style="color: #60a5fa;">Accept:</span> ' + accept.join(', '));
+      if (drop.length > 0) lines.push('<span style="color: #f87171;">Drop:</span> ' + drop.join(', '));
+      return lines.join('<br>');
+    }
+
+    function renderPlannerRoutes() {
+      const el = document.getElementById('plannerResults');
+      el.innerHTML = plannerRoutes.map((route, index) => {
+        const pinned = pinnedPlannerRoute === route;
+        const steps = route.actions
+          .filter(step => step.type !== 'walk')
+          .map(step => '<li>' + formatPlannerStep(step) + ' <span class="time">' + formatPlannerTime(step.distance) + '</span></li>')
+          .join('');
+        return '<div class="planner-route' + (pinned ? ' pinned' : '') + '">' +
+          '<div class="route-title">#' + (index + 1) + '</div>' +
+          '<div class="route-metrics">' + formatPlannerTime(route.distance) +
+            ' | KP = ' + (route.kp / 100).toFixed(2) +
+            ' | KP/D = ' + (route.kp / Math.max(1, route.distance)).toFixed(2) + '</div>' +
+          '<div class="route-bounties">' + describePlannerBounties(route) + '</div>' +
+          '<ol>' + steps + '</ol>' +
+          '<button type="button" class="' + (pinned ? 'btn-secondary' : 'btn-toggle') + '" onclick="pinPlannerRoute(' + index + ')"' + (pinned ? ' disabled' : '') + '>' +
+            (pinned ? '📌 Pinned' : 'Pin to Overlay') + '</button>' +
+          '</div>';
+      }).join('');
+    }
+
+    function pinPlannerRoute(index) {
+      pinnedPlannerRoute = plannerRoutes[index];
+      ipcRenderer.send('planner-pin-route', pinnedPlannerRoute);
+      document.getElementById('plannerPinned').style.display = 'block';
+      renderPlannerRoutes();
+    }
+
+    function unpinPlannerRoute() {
+      pinnedPlannerRoute = null;
+      ipcRenderer.send('planner-unpin-route');
+      document.getElementById('plannerPinned').style.display = 'none';
+      renderPlannerRoutes();
+    }
+
+    renderPlannerBounties();
+
     // Update board timer every second
     setInterval(() => {
       const nowSec = Date.now() / 1000;
@@ -1398,6 +2313,10 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
       ipcRenderer.send('open-log-folder');
     }
 
+    function openRecordingsFolder() {
+      ipcRenderer.send('open-recordings-folder');
+    }
+
     ipcRenderer.on('log-update', (e, log) => {
       const logContent = document.getElementById('logContent');
       if (logContent) {
@@ -1407,11 +2326,38 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
     });
 
     function getFormData() {
-      const detectiveLevelInput = document.getElementById('detectiveLevel');
-      let detectiveLevel = parseInt(detectiveLevelInput.value);
-      if (isNaN(detectiveLevel) || detectiveLevel < 1) detectiveLevel = 1;
-      if (detectiveLevel > 500) detectiveLevel = 500;
+      const playerState = { quests: {}, skills: {}, items: {} };
+      document.querySelectorAll('.player-skill').forEach(input => {
+        let level = parseInt(input.value);
+        if (isNaN(level) || level < 1) level = 1;
+        if (level > parseInt(input.max)) level = parseInt(input.max);
+        playerState.skills[input.dataset.key] = level;
+      });
+      document.querySelectorAll('.player-quest').forEach(input => {
+        playerState.quests[input.dataset.key] = input.checked;
+      });
+      document.querySelectorAll('.player-item').forEach(input => {
+        playerState.items[input.dataset.key] = input.checked;
+      });
+
+      const merchantLevelInput = document.getElementById('merchantLevel');
+      let merchantLevel = parseInt(merchantLevelInput.value);
+      if (isNaN(merchantLevel) || merchantLevel < 1) merchantLevel = 1;
+      if (merchantLevel > 500) merchantLevel = 500;
       
+      const inventorySpaceInput = document.getElementById('inventorySpace');
+      let inventorySpace = parseInt(inventorySpaceInput.value);
+      if (isNaN(inventorySpace) || inventorySpace < 6) inventorySpace = 6;
+      if (inventorySpace > 100) inventorySpace = 100;
+      
+      let encounterChance = parseFloat(document.getElementById('encounterChance').value);
+      if (isNaN(encounterChance) || encounterChance < 0) encounterChance = 0;
+      if (encounterChance > 5) encounterChance = 5;
+
+      let encounterTime = parseFloat(document.getElementById('encounterTime').value);
+      if (isNaN(encounterTime) || encounterTime < 0) encounterTime = 0;
+      if (encounterTime > 10) encounterTime = 10;
+
       const chatBoxFontSizeInput = document.getElementById('chatBoxFontSize');
       let chatBoxFontSize = parseInt(chatBoxFontSizeInput.value);
       if (isNaN(chatBoxFontSize) || chatBoxFontSize < 10) chatBoxFontSize = 10;
@@ -1420,15 +2366,25 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
       return {
         chatBoxFontSize,
         checkForUpdatesOnStartup: document.getElementById('checkForUpdatesOnStartup').checked,
-        detectiveLevel,
-        isBattleOfFortuneholdCompleted: document.getElementById('isBattleOfFortuneholdCompleted').checked,
+        debugRecording: document.getElementById('debugRecording').checked,
+        inventorySpace,
+        merchantLevel,
         ocrMethod: document.getElementById('ocrMethod').value,
         pathfindingQuality: parseInt(document.getElementById('pathfindingQuality').value),
+        playerState,
+        routingRisk: {
+          mode: document.getElementById('riskMode').value,
+          encounterChance,
+          encounterTime,
+        },
+        runEnding: document.getElementById('runEnding').value,
+        travelCalibration: document.getElementById('travelCalibration').checked,
         keyboardShortcuts: {
           toggleEditMode: document.getElementById('toggleEditMode').value,
           toggleVisibility: document.getElementById('toggleVisibility').value,
           forceRecalculateBounties: document.getElementById('forceRecalculateBounties').value,
           openSettings: document.getElementById('openSettings').value,
+          cycleAlternatives: document.getElementById('cycleAlternatives').value,
         }
       };
     }
@@ -1455,6 +2411,116 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
       }
     }
 
+    async function updateCalibrationStatus() {
+      try {
+        const status = await ipcRenderer.invoke('calibration-get-status');
+        document.getElementById('calibrationStatus').textContent = status.runs > 0
+          ? 'Learned from ' + status.runs + ' runs, ' + status.edges + ' paths adjusted to your pace.'
+          : 'Nothing learned yet. Complete a few runs with the overlay open.';
+      } catch (err) {
+        console.error('Failed to get calibration status:', err);
+      }
+    }
+
+    async function updateRecordingsStatus() {
+      try {
+        const status = await ipcRenderer.invoke('recordings-get-status');
+        const megabytes = (bytes) => Math.round(bytes / 1024 / 1024) + ' MB';
+        document.getElementById('recordingsStatus').textContent = status.count + ' recording(s) using ' + megabytes(status.bytes) +
+          '. The oldest are deleted to stay under ' + megabytes(status.maxBytes) + '.';
+      } catch (err) {
+        console.error('Failed to get recordings status:', err);
+      }
+    }
+
+    async function updateRegionProfileStatus() {
+      try {
+        const status = await ipcRenderer.invoke('regions-get-profile');
+        let text;
+        if (!status.windowSize) {
+          text = 'Game window not found yet.';
+        } else {
+          const size = Math.round(status.windowSize.width) + 'x' + Math.round(status.windowSize.height) +
+            ' (' + Math.round(status.windowSize.dpiScale * 100) + '% scaling)';
+          text = status.scaledFrom
+            ? 'Game window ' + size + ': no regions saved for this size, scaled from ' + status.scaledFrom + '. Moving a region saves them for this size.'
+            : 'Game window ' + size + ': using the regions saved for this size.';
+        }
+        document.getElementById('regionProfileStatus').textContent = text + ' ' + status.savedProfiles.length + ' window size(s) saved.';
+      } catch (err) {
+        console.error('Failed to get region profile status:', err);
+      }
+    }
+
+    function resetCalibration() {
+      if (confirm('Forget all learned travel times and go back to the default estimates?')) {
+        ipcRenderer.send('calibration-reset');
+        setTimeout(updateCalibrationStatus, 200);
+      }
+    }
+
+    let templatePollTimer = null;
+
+    async function updateTemplateStatus() {
+      try {
+        const status = await ipcRenderer.invoke('templates-get-status');
+        let text = status.templates > 0
+          ? status.words + ' words learned (' + status.vocabularyCovered + ' of ' + status.vocabularySize + ' bounty, market and rarity words), '
+            + status.glyphsCovered + ' of ' + status.glyphSetSize + ' quantity characters.'
+          : 'No templates captured yet.';
+        if (status.hits + status.fallbacks > 0) {
+          text += ' This session: ' + status.hits + ' regions read with templates, ' + status.fallbacks + ' with Tesseract.';
+        }
+        document.getElementById('templateStatus').textContent = status.capturing ? 'Capturing... ' + text : text;
+        document.getElementById('captureTemplatesBtn').disabled = status.capturing;
+
+        // Keep the status live until the capture is done
+        if (status.capturing && !templatePollTimer) {
+          templatePollTimer = setInterval(updateTemplateStatus, 1000);
+        } else if (!status.capturing && templatePollTimer) {
+          clearInterval(templatePollTimer);
+          templatePollTimer = null;
+        }
+      } catch (err) {
+        console.error('Failed to get template status:', err);
+      }
+    }
+
+    function captureTemplates() {
+      ipcRenderer.send('templates-capture');
+      setTimeout(updateTemplateStatus, 200);
+    }
+
+    function resetTemplates() {
+      if (confirm('Delete all captured OCR templates?')) {
+        ipcRenderer.send('templates-reset');
+        setTimeout(updateTemplateStatus, 200);
+      }
+    }
+
+    async function autoCalibrateRegions() {
+      const status = document.getElementById('autoCalibrateStatus');
+      const button = document.getElementById('autoCalibrateBtn');
+      status.textContent = 'Reading the game window...';
+      button.disabled = true;
+      try {
+        const result = await ipcRenderer.invoke('regions-auto-calibrate');
+        if (result.error) {
+          status.textContent = 'Auto-calibration failed: ' + result.error;
+        } else if (result.found === 0) {
+          status.textContent = 'No regions found. Missing: ' + result.missing.join(', ') + '.';
+        } else {
+          status.textContent = 'Proposed ' + result.found + ' regions, check them in the overlay and click Apply.' +
+            (result.missing.length > 0 ? ' Missing: ' + result.missing.join(', ') + '.' : '');
+        }
+      } catch (err) {
+        status.textContent = 'Auto-calibration failed: ' + err;
+      } finally {
+        button.disabled = false;
+        setTimeout(updateEditModeSwitch, 200);
+      }
+    }
+
     function resetRegions() {
       if (confirm('Reset all UI regions to default positions?')) {
         ipcRenderer.send('settings-reset-regions');
@@ -1478,8 +2544,20 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
     // Update edit mode switch state periodically (in case it changes via keyboard shortcut)
     setInterval(updateEditModeSwitch, 1000);
 
-    function validateDetectiveLevel() {
-      const input = document.getElementById('detectiveLevel');
+    loadProfiles();
+    loadConfigIssues();
+
+    function validateSkillLevel(input) {
+      const value = parseInt(input.value);
+      if (isNaN(value) || value < 1 || value > parseInt(input.max)) {
+        input.classList.add('invalid');
+      } else {
+        input.classList.remove('invalid');
+      }
+    }
+
+    function validateMerchantLevel() {
+      const input = document.getElementById('merchantLevel');
       const value = parseInt(input.value);
       if (isNaN(value) || value < 1 || value > 500) {
         input.classList.add('invalid');
@@ -1488,6 +2566,25 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
       }
     }
 
+    function validateInventorySpace() {
+      const input = document.getElementById('inventorySpace');
+      const value = parseInt(input.value);
+      if (isNaN(value) || value < 6 || value > 100) {
+        input.classList.add('invalid');
+      } else {
+        input.classList.remove('invalid');
+      }
+    }
+
+    function validateMultiplier(input) {
+      const value = parseFloat(input.value);
+      if (isNaN(value) || value < 0 || value > parseFloat(input.max)) {
+        input.classList.add('invalid');
+      } else {
+        input.classList.remove('invalid');
+      }
+    }
+
     function validateChatBoxFontSize() {
       const input = document.getElementById('chatBoxFontSize');
       const value = parseInt(input.value);
@@ -1498,11 +2595,18 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
       }
     }
 
-    document.querySelectorAll('#settings input, #settings select').forEach(el => {
+    // Profile controls act through their own buttons, saving them would write the old profile's form into the new one
+    document.querySelectorAll('#settings input:not(.profile-control):not(.bundle-control), #settings select:not(.profile-control):not(.bundle-control)').forEach(el => {
       el.addEventListener('change', saveConfig);
       el.addEventListener('input', () => {
-        if (el.id === 'detectiveLevel') {
-          validateDetectiveLevel();
+        if (el.classList.contains('player-skill')) {
+          validateSkillLevel(el);
+        } else if (el.id === 'merchantLevel') {
+          validateMerchantLevel();
+        } else if (el.id === 'inventorySpace') {
+          validateInventorySpace();
+        } else if (el.id === 'encounterChance' || el.id === 'encounterTime') {
+          validateMultiplier(el);
         } else if (el.id === 'chatBoxFontSize') {
           validateChatBoxFontSize();
         }
@@ -1544,6 +2648,191 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
       ipcRenderer.send('restart-app');
     }
 
+    function renderProfiles(result) {
+      const select = document.getElementById('profileSelect');
+      select.innerHTML = '';
+      for (const name of result.profiles) {
+        const option = document.createElement('option');
+        option.value = name;
+        option.textContent = name;
+        select.appendChild(option);
+      }
+      select.value = result.active;
+      document.getElementById('profileStatus').textContent = result.error ?? '';
+      return !result.error;
+    }
+
+    async function loadConfigIssues() {
+      const { issues, backups } = await ipcRenderer.invoke('settings-get-config-issues');
+      const list = document.getElementById('configIssuesList');
+      list.innerHTML = '';
+      for (const issue of issues) {
+        const item = document.createElement('li');
+        const where = document.createElement('span');
+        where.className = 'path';
+        where.textContent = issue.path ? issue.path : issue.file;
+        item.appendChild(where);
+        item.appendChild(document.createTextNode(': ' + issue.message + (issue.path ? ' (' + issue.file + ')' : '')));
+        list.appendChild(item);
+      }
+      for (const backup of backups) {
+        const item = document.createElement('li');
+        item.textContent = 'Original saved to ' + backup;
+        list.appendChild(item);
+      }
+      document.getElementById('configIssuesBanner').classList.toggle('visible', issues.length > 0);
+    }
+
+    function dismissConfigIssues() {
+      ipcRenderer.send('settings-dismiss-config-issues');
+      document.getElementById('configIssuesBanner').classList.remove('visible');
+    }
+
+    function getBundleSections() {
+      const sections = [];
+      if (document.getElementById('bundleSettings').checked) sections.push('settings');
+      if (document.getElementById('bundleShortcuts').checked) sections.push('shortcuts');
+      if (document.getElementById('bundleRegions').checked) sections.push('regions');
+      return sections;
+    }
+
+    function getImportOptions() {
+      return { sections: getBundleSections(), regionProfiles: document.getElementById('importRegionProfiles').value };
+    }
+
+    async function exportSettings() {
+      const sections = getBundleSections();
+      const status = document.getElementById('bundleStatus');
+      if (sections.length === 0) {
+        status.textContent = 'Choose something to export.';
+        return;
+      }
+      const result = await ipcRenderer.invoke('settings-export', sections);
+      if (result.canceled) return;
+      status.textContent = result.error ? 'Export failed: ' + result.error : 'Exported to ' + result.path;
+    }
+
+    async function openImport() {
+      const status = document.getElementById('bundleStatus');
+      const result = await ipcRenderer.invoke('settings-import-open');
+      if (result.canceled) return;
+      if (result.error) {
+        status.textContent = 'Import failed: ' + result.error;
+        cancelImport();
+        return;
+      }
+      status.textContent = '';
+      const exportedAt = result.exportedAt ? new Date(result.exportedAt).toLocaleString() : 'unknown date';
+      document.getElementById('importSummary').textContent = 'From profile "' + result.profile + '" (v' + result.appVersion + ', ' + exportedAt + ')';
+
+      // Only what the file has can be imported
+      const checkboxes = { settings: 'bundleSettings', shortcuts: 'bundleShortcuts', regions: 'bundleRegions' };
+      for (const section of Object.keys(checkboxes)) {
+        const checkbox = document.getElementById(checkboxes[section]);
+        checkbox.disabled = !result.sections.includes(section);
+        checkbox.checked = result.sections.includes(section);
+      }
+
+      const issues = document.getElementById('importIssues');
+      issues.innerHTML = '';
+      for (const issue of result.issues) {
+        const item = document.createElement('li');
+        item.textContent = (issue.path ? issue.path + ': ' : '') + issue.message;
+        issues.appendChild(item);
+      }
+      document.getElementById('importPreview').style.display = '';
+      refreshImportPreview();
+    }
+
+    async function refreshImportPreview() {
+      if (document.getElementById('importPreview').style.display === 'none') return;
+      const changes = await ipcRenderer.invoke('settings-import-preview', getImportOptions());
+      const table = document.getElementById('importChanges');
+      table.innerHTML = '<tr><th>Setting</th><th>Current</th><th>Imported</th></tr>';
+      if (changes.length === 0) {
+        table.innerHTML += '<tr class="empty"><td colspan="3">Nothing would change</td></tr>';
+      }
+      for (const change of changes) {
+        const row = document.createElement('tr');
+        for (const text of [change.path, change.current, change.incoming]) {
+          const cell = document.createElement('td');
+          cell.textContent = text;
+          row.appendChild(cell);
+        }
+        table.appendChild(row);
+      }
+      document.getElementById('importApplyBtn').disabled = changes.length === 0;
+    }
+
+    async function applyImport() {
+      const result = await ipcRenderer.invoke('settings-import-apply', getImportOptions());
+      cancelImport();
+      document.getElementById('bundleStatus').textContent = result.error
+        ? 'Import failed: ' + result.error
+        : 'Imported ' + result.applied + ' change(s).';
+      // The form itself is refreshed by 'config-updated'
+      if (result.restartRequired) showRestartBanner();
+      updateRegionProfileStatus();
+    }
+
+    function cancelImport() {
+      ipcRenderer.send('settings-import-cancel');
+      document.getElementById('importPreview').style.display = 'none';
+      for (const id of ['bundleSettings', 'bundleShortcuts', 'bundleRegions']) {
+        document.getElementById(id).disabled = false;
+      }
+    }
+
+    async function loadProfiles() {
+      try {
+        renderProfiles(await ipcRenderer.invoke('profiles-list'));
+      } catch (err) {
+        console.error('Failed to load profiles:', err);
+      }
+    }
+
+    async function switchProfile(name) {
+      const result = await ipcRenderer.invoke('profiles-switch', name);
+      if (!renderProfiles(result)) return;
+      if (result.restartRequired) showRestartBanner();
+      // The form itself is refreshed by 'config-updated'
+      updateCalibrationStatus();
+      updateTemplateStatus();
+      updateRegionProfileStatus();
+      loadHistory();
+    }
+
+    async function createProfile(clone) {
+      const name = document.getElementById('profileName').value;
+      const active = document.getElementById('profileSelect').value;
+      const result = await ipcRenderer.invoke('profiles-create', name, clone ? active : undefined);
+      if (renderProfiles(result)) {
+        document.getElementById('profileName').value = '';
+        document.getElementById('profileStatus').textContent = 'Created "' + name.trim() + '". Select it above to switch.';
+      }
+    }
+
+    async function renameProfile() {
+      const name = document.getElementById('profileName').value;
+      const active = document.getElementById('profileSelect').value;
+      if (renderProfiles(await ipcRenderer.invoke('profiles-rename', active, name))) {
+        document.getElementById('profileName').value = '';
+      }
+    }
+
+    async function deleteProfile() {
+      const name = document.getElementById('profileName').value.trim();
+      if (!name) {
+        document.getElementById('profileStatus').textContent = 'Type the name of the profile to delete above.';
+        return;
+      }
+      if (confirm('Delete profile "' + name + '" with its settings and run history?')) {
+        if (renderProfiles(await ipcRenderer.invoke('profiles-delete', name))) {
+          document.getElementById('profileName').value = '';
+        }
+      }
+    }
+
     function showRestartBanner() {
       document.getElementById('restartBanner').classList.add('visible');
     }
@@ -1633,16 +2922,34 @@ function generateSettingsHTML(config: Config, version: string, gitHash: string,
     });
 
     ipcRenderer.on('config-updated', (e, config) => {
+      loadConfigIssues();
       document.getElementById('chatBoxFontSize').value = config.chatBoxFontSize ?? 23;
-      document.getElementById('detectiveLevel').value = config.detectiveLevel ?? 500;
-      document.getElementById('isBattleOfFortuneholdCompleted').checked = config.isBattleOfFortuneholdCompleted ?? true;
+      const playerState = config.playerState || {};
+      document.querySelectorAll('.player-skill').forEach(input => {
+        input.value = (playerState.skills || {})[input.dataset.key] ?? input.dataset.default;
+      });
+      document.querySelectorAll('.player-quest').forEach(input => {
+        input.checked = (playerState.quests || {})[input.dataset.key] ?? input.dataset.default === 'true';
+      });
+      document.querySelectorAll('.player-item').forEach(input => {
+        input.checked = (playerState.items || {})[input.dataset.key] ?? input.dataset.default === 'true';
+      });
+      document.getElementById('merchantLevel').value = config.merchantLevel ?? 500;
+      document.getElementById('inventorySpace').value = config.inventorySpace ?? 24;
       document.getElementById('ocrMethod').value = config.ocrMethod ?? 'auto';
       document.getElementById('pathfindingQuality').value = config.pathfindingQuality ?? 5;
+      document.getElementById('runEnding').value = config.runEnding ?? 'return-to-board';
+      document.getElementById('riskMode').value = config.routingRisk?.mode ?? 'expected';
+      document.getElementById('encounterChance').value = config.routingRisk?.encounterChance ?? 1;
+      document.getElementById('encounterTime').value = config.routingRisk?.encounterTime ?? 1;
+      document.getElementById('travelCalibration').checked = config.travelCalibration !== false;
       document.getElementById('checkForUpdatesOnStartup').checked = config.checkForUpdatesOnStartup !== false;
+      document.getElementById('debugRecording').checked = config.debugRecording === true;
       document.getElementById('toggleEditMode').value = config.keyboardShortcuts?.toggleEditMode ?? '';
       document.getElementById('toggleVisibility').value = config.keyboardShortcuts?.toggleVisibility ?? '';
       document.getElementById('forceRecalculateBounties').value = config.keyboardShortcuts?.forceRecalculateBounties ?? '';
       document.getElementById('openSettings').value = config.keyboardShortcuts?.openSettings ?? '';
+      document.getElementById('cycleAlternatives').value = config.keyboardShortcuts?.cycleAlternatives ?? '';
     });
   </script>
 </body>
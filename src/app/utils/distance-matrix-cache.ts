@@ -0,0 +1,68 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import GPS from '../../algorithm/gps';
+import { playerStateKey, resolvePlayerState } from '../../algorithm/unlocks';
+import { resolveRisk } from '../../algorithm/risk';
+import { EdgeAdjustments, PlayerState, RoutingRisk } from '../config/types';
+import { DEFAULT_ROUTING_RISK } from '../config/constants';
+import { getAppDataDir } from './paths';
+
+/**
+ * Get the cache directory for derived data that can be rebuilt at any time
+ */
+export function getCacheDir(): string {
+  return path.join(getAppDataDir(), 'cache');
+}
+
+/**
+ * Get the on-disk location of the distance matrix for a player state and routing risk.
+ * States that resolve to the same unlocks share a file
+ */
+export function getDistanceMatrixPath(playerState: PlayerState, routingRisk: RoutingRisk = DEFAULT_ROUTING_RISK): string {
+  const key = playerStateKey(resolvePlayerState(playerState)) + JSON.stringify(resolveRisk(routingRisk));
+  const hash = crypto.createHash('sha1').update(key).digest('hex').slice(0, 12);
+  return path.join(getCacheDir(), `distance-matrix-${hash}.json`);
+}
+
+/**
+ * Read a serialized distance matrix, returning null if it is missing or unreadable
+ */
+export function readDistanceMatrix(filePath: string | null | undefined): any | null {
+  if (!filePath) return null;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Make sure an up-to-date distance matrix exists on disk and return its path.
+ * The file is rebuilt when missing or when the graph no longer matches its signature
+ * (e.g. after an update changes the game data, or learned edge adjustments change).
+ */
+export function ensureDistanceMatrix(
+  playerState: PlayerState,
+  edgeAdjustments: EdgeAdjustments = {},
+  routingRisk: RoutingRisk = DEFAULT_ROUTING_RISK
+): string {
+  const filePath = getDistanceMatrixPath(playerState, routingRisk);
+  const start = Date.now();
+
+  const existing = readDistanceMatrix(filePath);
+  const gps = new GPS(playerState, existing, edgeAdjustments, routingRisk);
+  if (existing && existing.signature === gps.signature) {
+    console.log(`[distance-matrix] Loaded ${path.basename(filePath)} in ${Date.now() - start}ms`);
+    return filePath;
+  }
+
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(gps.toJSON()), 'utf8');
+    console.log(`[distance-matrix] Built ${path.basename(filePath)} in ${Date.now() - start}ms`);
+  } catch (e: any) {
+    console.warn(`[distance-matrix] Failed to write ${filePath}: ${e?.message ?? e}`);
+  }
+  return filePath;
+}
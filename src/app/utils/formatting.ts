@@ -1,4 +1,4 @@
-import { Step } from '../config/types';
+import { Step, FindBestResult } from '../config/types';
 
 function formatNonCommand(text: string): string {
   return text
@@ -8,12 +8,43 @@ function formatNonCommand(text: string): string {
     .join(' ');
 }
 
+/** Where the player is in the route, see OCRProcessor.getRouteProgress */
+export interface RouteProgress {
+  /** Index into the steps being formatted */
+  currentStep: number;
+  /** Seconds behind the estimate (negative = ahead) */
+  deltaSeconds: number | null;
+}
+
+function formatProgressDelta(deltaSeconds: number): string {
+  const total = Math.round(Math.abs(deltaSeconds));
+  const minutes = Math.floor(total / 60);
+  const amount = minutes > 0 ? `${minutes}m ${total - minutes * 60}s` : `${total}s`;
+  return deltaSeconds > 0
+    ? `<span style="color: rgb(231,76,60)">${amount} behind</span>`
+    : `<span style="color: rgb(46,204,113)">${amount} ahead</span>`;
+}
+
+/**
+ * The route's 90th percentile time when encounters make it differ from the estimate, e.g. " (p90 12m 40s)"
+ */
+function formatP90(distanceSeconds: number, p90Seconds: number): string {
+  if (isNaN(p90Seconds) || Math.abs(p90Seconds - distanceSeconds) < 1) {
+    return '';
+  }
+  const total = Math.round(p90Seconds);
+  const minutes = Math.floor(total / 60);
+  return ` (p90 ${minutes}m ${total - minutes * 60}s)`;
+}
+
 export function formatSteps(
   steps: Step[], 
   kp: number, 
   distanceSeconds: number,
   runCompleted: boolean = false,
-  endsWithTeleportToMarket: boolean = false
+  endsWithTeleportToMarket: boolean = false,
+  progress: RouteProgress | null = null,
+  p90Seconds: number = NaN
 ): string {
   // If run completed, show completion message with preserved metrics
   if (runCompleted) {
@@ -43,6 +74,17 @@ export function formatSteps(
   const tokens: string[] = [];
   let i = 0;
 
+  // Completed steps are dimmed and the one the player is on is highlighted
+  const addToken = (html: string, stepIndices: number[]) => {
+    if (progress && stepIndices.every(index => index < progress.currentStep)) {
+      tokens.push(`<span style="opacity: 0.45">${html}</span>`);
+    } else if (progress && stepIndices.includes(progress.currentStep)) {
+      tokens.push(`<span style="background: rgba(255,255,255,0.18); border-radius: 3px; padding: 0 3px">${html}</span>`);
+    } else {
+      tokens.push(html);
+    }
+  };
+
   while (i < steps.length) {
     const step = steps[i] as any;
     if (step?.type === 'buy') {
@@ -52,29 +94,20 @@ export function formatSteps(
         buySequenceEnd++;
       }
       
-      // Count occurrences of each item in this buy sequence
-      const itemCounts = new Map<string, number>();
+      // Steps buying each item in this buy sequence
+      const itemSteps = new Map<string, number[]>();
       for (let j = i; j < buySequenceEnd; j++) {
         const buyStep = steps[j] as any;
         const item = buyStep.item;
-        itemCounts.set(item, (itemCounts.get(item) || 0) + 1);
+        itemSteps.set(item, [...(itemSteps.get(item) || []), j]);
       }
       
       // Format each unique item with its count
-      const buyTokens: string[] = [];
-      const seenItems = new Set<string>();
-      for (let j = i; j < buySequenceEnd; j++) {
-        const buyStep = steps[j] as any;
-        const item = buyStep.item;
-        if (!seenItems.has(item)) {
-          seenItems.add(item);
-          const count = itemCounts.get(item) || 1;
-          const countStr = count > 1 ? `${count}x ` : '';
-          buyTokens.push(`<b style="color: rgb(231,76,60)">BUY</b> ${formatNonCommand(`${countStr}${item}`)}`);
-        }
+      for (const [item, indices] of itemSteps) {
+        const countStr = indices.length > 1 ? `${indices.length}x ` : '';
+        addToken(`<b style="color: rgb(231,76,60)">BUY</b> ${formatNonCommand(`${countStr}${item}`)}`, indices);
       }
       
-      tokens.push(...buyTokens);
       i = buySequenceEnd;
     } else if (step?.type === 'sell') {
       let count = 1;
@@ -83,25 +116,94 @@ export function formatSteps(
         count++;
       }
       
-      tokens.push(`<b style="color: rgb(46,204,113)">SELL</b> ${formatNonCommand(step.item)}`);
+      addToken(
+        `<b style="color: rgb(46,204,113)">SELL</b> ${formatNonCommand(step.item)}`,
+        Array.from({ length: count }, (_, k) => i + k)
+      );
       i += count;
     } else if (step?.type === 'teleport') {
       let loc = step.location;
       if (loc === 'Crenopolis Market') loc = 'Market';
       else if (loc === 'Crenopolis Outskirts') loc = 'Outskirts';
-      tokens.push(`<b style="color: rgb(165,105,189)">TELE</b> ${formatNonCommand(loc)}`);
+      addToken(`<b style="color: rgb(165,105,189)">TELE</b> ${formatNonCommand(loc)}`, [i]);
       i++;
     } else if (step?.type === 'return') {
-      tokens.push(formatNonCommand('Done 💰'));
+      addToken(formatNonCommand('Done 💰'), [i]);
       i++;
     } else {
       i++;
     }
   }
 
+  // Open-ended runs (end anywhere / end at portal) have no explicit return step
+  const lastStep = steps[steps.length - 1] as any;
+  if (tokens.length > 0 && lastStep?.type !== 'return') {
+    tokens.push(formatNonCommand('Done 💰'));
+  }
+
   if (!isNaN(distance)) {
-    const timeInfo = `[${minutes}m ${seconds.toFixed(0)}s | KP = ${(kp / 100).toFixed(2)} | KP/D = ${(kp / Math.max(1, distance)).toFixed(2)}]`;
+    const progressInfo = progress?.deltaSeconds != null && Math.abs(progress.deltaSeconds) >= 1
+      ? ` | ${formatProgressDelta(progress.deltaSeconds)}`
+      : '';
+    const timeInfo = `[${minutes}m ${seconds.toFixed(0)}s${formatP90(distance, p90Seconds)} | KP = ${(kp / 100).toFixed(2)} | KP/D = ${(kp / Math.max(1, distance)).toFixed(2)}${progressInfo}]`;
     return `${timeInfo}\n${tokens.join(' → ')}`;
   }
   return tokens.join(' → ');
 }
+
+function formatSignedNumber(value: number): string {
+  return `${value >= 0 ? '+' : '−'}${Math.abs(value).toFixed(2)}`;
+}
+
+function formatSignedDuration(seconds: number): string {
+  const sign = seconds >= 0 ? '+' : '−';
+  const total = Math.round(Math.abs(seconds));
+  const minutes = Math.floor(total / 60);
+  return minutes > 0 ? `${sign}${minutes}m ${total - minutes * 60}s` : `${sign}${total}s`;
+}
+
+/**
+ * Bounties an alternative takes and leaves compared with the best set, e.g. "(+Soap −Ribs)"
+ */
+function formatBountyDifference(best: string[], alternative: string[]): string {
+  const remaining = best.slice();
+  const added: string[] = [];
+  for (const bounty of alternative) {
+    const index = remaining.indexOf(bounty);
+    if (index === -1) {
+      added.push(bounty);
+    } else {
+      remaining.splice(index, 1);
+    }
+  }
+  const parts = [
+    ...added.map(bounty => `+${formatNonCommand(bounty)}`),
+    ...remaining.map(bounty => `−${formatNonCommand(bounty)}`),
+  ];
+  return parts.length > 0 ? `(${parts.join(' ')})` : '';
+}
+
+/**
+ * Compact list of the top bounty sets. The best set shows its totals, the others
+ * their KP/D, time and KP compared with it. The set being followed is marked.
+ */
+export function formatAlternatives(alternatives: FindBestResult[], selectedIndex: number): string {
+  if (alternatives.length < 2) {
+    return '';
+  }
+
+  const best = alternatives[0];
+  const bestEfficiency = best.kp / Math.max(1, best.distance);
+
+  return alternatives.map((alternative, index) => {
+    const marker = index === selectedIndex ? '▶' : '  ';
+    const efficiency = alternative.kp / Math.max(1, alternative.distance);
+    if (index === 0) {
+      const minutes = Math.floor(best.distance / 60);
+      const seconds = best.distance - minutes * 60;
+      return `${marker} #1 KP/D = ${efficiency.toFixed(2)} | ${minutes}m ${seconds.toFixed(0)}s | KP = ${(best.kp / 100).toFixed(2)}`;
+    }
+    const difference = formatBountyDifference(best.bounties, alternative.bounties);
+    return `${marker} #${index + 1} KP/D ${formatSignedNumber(efficiency - bestEfficiency)} | ${formatSignedDuration(alternative.distance - best.distance)} | KP ${formatSignedNumber((alternative.kp - best.kp) / 100)} ${difference}`.trimEnd();
+  }).join('<br>');
+}
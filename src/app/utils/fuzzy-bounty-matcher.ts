@@ -1,4 +1,4 @@
-import { bounties } from '../../algorithm/bounties';
+import { bounties, DEFAULT_BOUNTY_QUANTITY } from '../../algorithm/bounties';
 import { BOUNTY_NAMES } from '../config/constants';
 import { resolveBountyKeyFromName } from './bounty-resolver';
 
@@ -34,6 +34,89 @@ interface FuzzyMatchResult {
   topMatches: FuzzyMatchDebug[];
 }
 
+// Largest item count a bounty can plausibly ask for, anything bigger is OCR noise
+const MAX_BOUNTY_QUANTITY = 30;
+
+// Rarity multipliers shown on bounties (2x, 3x, 4x KP), not item counts
+const RARITY_MULTIPLIER_REGEX = /(?<!\d)[234]\s*x(?![a-z0-9])/g;
+
+// Progress like "3/8", where the second number is how many items the bounty asks for
+const PROGRESS_REGEX = /(?<!\d)\d{1,2}\s*\/\s*(\d{1,2})(?!\d)/;
+
+// A count like "x12" or "12x"
+const COUNT_REGEX = /x\s*(\d{1,2})(?!\d)|(?<!\d)(\d{1,2})\s*x/;
+
+// Quantity forms that can be anywhere in a bounty's text: progress (0/6), a count (x6, 6x) or a rarity
+// multiplier (2x, 3x, 4x). Expects whitespace removed
+const QUANTITY_FORM_REGEX = /\d{1,2}\/\d{1,2}|x\d{1,2}|\d{1,2}x/;
+
+// Characters allowed between a bounty's name and a bare count or progress next to it
+const MAX_NAME_QUANTITY_GAP = 3;
+
+// A bare count, or progress whose slash OCR dropped ("06" for 0/6), right after or before the name
+const COUNT_AFTER_NAME_REGEX = new RegExp(`^\\D{0,${MAX_NAME_QUANTITY_GAP}}\\d{1,4}(?!\\d)`);
+const COUNT_BEFORE_NAME_REGEX = new RegExp(`(?<!\\d)\\d{1,4}\\D{0,${MAX_NAME_QUANTITY_GAP}}$`);
+
+/**
+ * Check if OCR text shows a bounty's progress, count or rarity multiplier, so stray digits don't count.
+ * Bare numbers only count next to the bounty's name
+ * @param text Lowercase text with whitespace removed
+ * @param nameStart Where the bounty's name starts in the text
+ * @param nameEnd Where the bounty's name ends in the text
+ */
+function hasQuantityIndicator(text: string, nameStart: number, nameEnd: number): boolean {
+  return QUANTITY_FORM_REGEX.test(text) ||
+    COUNT_AFTER_NAME_REGEX.test(text.slice(nameEnd)) ||
+    COUNT_BEFORE_NAME_REGEX.test(text.slice(0, nameStart));
+}
+
+/**
+ * Items a bounty asks for from a run of digits. OCR can drop the slash of progress, so "38" is read
+ * as 3/8 and "012" as 0/12: the earliest split where the total is a plausible count of at least the
+ * progress. A single digit is the count itself
+ */
+function quantityFromDigits(digits: string): number {
+  for (let split = 1; split < digits.length; split++) {
+    const total = digits.slice(split);
+    if (total.startsWith('0')) continue;
+    const progress = parseInt(digits.slice(0, split), 10);
+    const quantity = parseInt(total, 10);
+    if (quantity <= MAX_BOUNTY_QUANTITY && progress <= quantity) {
+      return quantity;
+    }
+  }
+  return parseInt(digits, 10);
+}
+
+/**
+ * Parse how many items a bounty asks for from its OCR text, e.g. "Carrots 3/8", "Carrots x12",
+ * or "Carrots 38" when OCR dropped the slash of the progress.
+ * Progress gives the total, not the items already bought. Rarity multipliers are ignored.
+ * Falls back to the usual 6 when no count is readable.
+ */
+export function parseBountyQuantity(ocrText: string): number {
+  const text = ocrText.toLowerCase().replace(RARITY_MULTIPLIER_REGEX, ' ');
+
+  let quantity: number;
+  const progress = text.match(PROGRESS_REGEX);
+  const count = text.match(COUNT_REGEX);
+  const digits = text.match(/(?<!\d)\d{1,4}(?!\d)/);
+  if (progress) {
+    quantity = parseInt(progress[1], 10);
+  } else if (count) {
+    quantity = parseInt(count[1] ?? count[2], 10);
+  } else if (digits) {
+    quantity = quantityFromDigits(digits[0]);
+  } else {
+    return DEFAULT_BOUNTY_QUANTITY;
+  }
+
+  if (quantity < 1 || quantity > MAX_BOUNTY_QUANTITY) {
+    return DEFAULT_BOUNTY_QUANTITY;
+  }
+  return quantity;
+}
+
 /**
  * Calculate Levenshtein distance between two strings (edit distance)
  */
@@ -81,26 +164,35 @@ function stringSimilarity(a: string, b: string): number {
 }
 
 /**
- * Check if text contains a substring with fuzzy matching
+ * Find the substring of text most similar to a search string
+ * @returns The similarity (1 for an exact match) and where the best match starts
  */
-function fuzzyContains(text: string, search: string, threshold: number = 0.7): number {
+function fuzzyFind(text: string, search: string): { score: number; index: number } {
   const textLower = text.toLowerCase();
   const searchLower = search.toLowerCase();
   
   // Exact match
-  if (textLower.includes(searchLower)) {
-    return 1.0;
+  const exactIndex = textLower.indexOf(searchLower);
+  if (exactIndex !== -1) {
+    return { score: 1.0, index: exactIndex };
   }
   
   // Try sliding window fuzzy match
-  let bestScore = 0;
+  let best = { score: 0, index: 0 };
   for (let i = 0; i <= textLower.length - searchLower.length; i++) {
     const window = textLower.substring(i, i + searchLower.length);
     const score = stringSimilarity(window, searchLower);
-    bestScore = Math.max(bestScore, score);
+    if (score > best.score) best = { score, index: i };
   }
   
-  return bestScore;
+  return best;
+}
+
+/**
+ * Check if text contains a substring with fuzzy matching
+ */
+function fuzzyContains(text: string, search: string, threshold: number = 0.7): number {
+  return fuzzyFind(text, search).score;
 }
 
 /**
@@ -118,9 +210,8 @@ export function fuzzyMatchBounty(ocrText: string): string | null {
 export function fuzzyMatchBountyWithDebug(ocrText: string): FuzzyMatchResult {
   const text = ocrText.replace(/\s/g, '').toLowerCase();
   
-  // Check for quantity indicator (6, 6x, x6, etc.) or rarity multipliers (2x, 3x, 4x)
-  const hasQuantity = /6|x6|6x|2x|3x|4x/.test(text);
-  if (!hasQuantity) {
+  // Bounties always show a quantity or rarity multiplier, so text without digits can't be one
+  if (!/\d/.test(text)) {
     return { bountyKey: null, topMatches: [] };
   }
   
@@ -191,11 +282,73 @@ export function fuzzyMatchBountyWithDebug(ocrText: string): FuzzyMatchResult {
   // Get top 3 for debug info
   const topMatches = scores.slice(0, 3);
   
-  // Return the best match if score is above threshold
+  // Return the best match if score is above threshold and the text shows a quantity indicator (0/6, 6x, x12,
+  // etc.) or rarity multiplier (2x, 3x, 4x)
   const bestMatch = scores[0];
   if (bestMatch.score > 0.5) {
-    return { bountyKey: bestMatch.bountyKey, topMatches };
+    const bountyName = bounties[bestMatch.bountyKey].name.toLowerCase();
+    const { index } = fuzzyFind(text, bountyName);
+    if (hasQuantityIndicator(text, index, index + bountyName.length)) {
+      return { bountyKey: bestMatch.bountyKey, topMatches };
+    }
   }
   
   return { bountyKey: null, topMatches };
 }
+
+interface BountyTextMatch {
+  bountyKey: string | null;
+  matchType: 'exact' | 'fuzzy' | null;
+  topMatches: FuzzyMatchDebug[];
+}
+
+// Longest first so "PortraitPainting" is matched before "Painting"
+const BOUNTY_NAMES_LONGEST_FIRST = Array.from(BOUNTY_NAMES).sort((a, b) => b.length - a.length);
+
+/**
+ * Find a bounty name written out exactly, but only if it appears early in the text
+ * (this prevents false matches like "Soap" appearing in "SoapStall" at the end)
+ * @param text Lowercase text with whitespace removed
+ */
+function findExactBountyName(text: string): { bountyName: string; index: number } | null {
+  for (const bountyName of BOUNTY_NAMES_LONGEST_FIRST) {
+    const index = text.indexOf(bountyName.toLowerCase());
+    // Name must appear in the first 40% of the text to be the actual bounty name
+    if (index !== -1 && index / text.length < 0.4) {
+      return { bountyName, index };
+    }
+  }
+  return null;
+}
+
+/**
+ * Match a bounty's name alone, for text that doesn't include the rest of the bounty (e.g. one line of a
+ * screenshot read during calibration)
+ * @returns The bounty key, or null if no bounty name is written out exactly
+ */
+export function matchBountyName(ocrText: string): string | null {
+  const found = findExactBountyName(ocrText.replace(/\s/g, '').toLowerCase());
+  return found ? resolveBountyKeyFromName(found.bountyName) : null;
+}
+
+/**
+ * Match the OCR text of one bounty region, the way the overlay does.
+ * Tries an exact name match first, with a quantity indicator next to it or anywhere in the text,
+ * then falls back to {@link fuzzyMatchBountyWithDebug}.
+ */
+export function matchBountyText(ocrText: string): BountyTextMatch {
+  // Always get fuzzy match debug info for display
+  const fuzzyResult = fuzzyMatchBountyWithDebug(ocrText);
+
+  const text = ocrText.replace(/\s/g, '').toLowerCase();
+  const exact = findExactBountyName(text);
+  if (exact && hasQuantityIndicator(text, exact.index, exact.index + exact.bountyName.length)) {
+    return { bountyKey: resolveBountyKeyFromName(exact.bountyName), matchType: 'exact', topMatches: fuzzyResult.topMatches };
+  }
+
+  return {
+    bountyKey: fuzzyResult.bountyKey,
+    matchType: fuzzyResult.bountyKey ? 'fuzzy' : null,
+    topMatches: fuzzyResult.topMatches,
+  };
+}
@@ -35,6 +35,41 @@ export function getLogsDir(): string {
   return path.join(getAppDataDir(), 'logs');
 }
 
+/**
+ * Get the directory holding the run history
+ */
+export function getHistoryDir(): string {
+  return path.join(getAppDataDir(), 'history');
+}
+
+/**
+ * Get the file holding travel times learned from completed runs
+ */
+export function getCalibrationPath(): string {
+  return path.join(getAppDataDir(), 'calibration.json');
+}
+
+/**
+ * Get the file holding word templates for the template OCR backend
+ */
+export function getTemplatesPath(): string {
+  return path.join(getAppDataDir(), 'ocr-templates.json');
+}
+
+/**
+ * Get the user's game data override pack, applied on top of the data shipped with the app
+ */
+export function getGameDataOverridePath(): string {
+  return path.join(getAppDataDir(), 'game-data.json');
+}
+
+/**
+ * Get the directory holding debug recordings, one folder per session
+ */
+export function getRecordingsDir(): string {
+  return path.join(getAppDataDir(), 'recordings');
+}
+
 /**
  * Get the config directory
  */
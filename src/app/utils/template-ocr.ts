@@ -0,0 +1,415 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { bounties } from '../../algorithm/bounties';
+import { getTemplatesPath } from './paths';
+
+const sharp = require('sharp') as typeof import('sharp');
+
+// Bump when the file layout or normalisation changes so old templates are discarded
+const TEMPLATES_VERSION = 1;
+
+// Words are scaled to this height before comparing
+const NORM_HEIGHT = 16;
+
+// Lines shorter than this (in source pixels) are noise, not text
+const MIN_LINE_HEIGHT = 5;
+
+// Gap between words, relative to the line height. Letter gaps are much narrower in the game font
+const WORD_GAP_FRACTION = 0.3;
+
+// Templates whose width differs more than this from the word can't be the same word
+const MAX_WIDTH_DIFFERENCE = 0.2;
+
+// Score a word needs to count as recognised
+const MIN_WORD_SCORE = 0.75;
+
+// A new sample this similar to an existing one adds nothing
+const DUPLICATE_SCORE = 0.95;
+
+const MAX_SAMPLES_PER_WORD = 3;
+
+// Characters of quantities (0/6, x12) and multipliers (3x), learned one by one since the numbers vary
+const GLYPH_SET = '0123456789/x';
+
+// Words shown on rare bounties besides the bounty and market names
+const RARITY_WORDS = ['uncommon', 'rare', 'epic'];
+
+interface WordTemplate {
+  word: string;
+  width: number;
+  /** NORM_HEIGHT x width ink levels (0-255), base64 */
+  pixels: string;
+}
+
+interface TemplatesFile {
+  version: number;
+  templates: WordTemplate[];
+}
+
+interface Glyphs {
+  width: number;
+  pixels: Uint8Array;
+}
+
+interface Segment {
+  line: number;
+  glyphs: Glyphs;
+  /** The word's characters, split where there's a gap between them, scaled with the word's height */
+  chars: Glyphs[];
+}
+
+export interface TemplateOcrResult {
+  text: string;
+  /** Score of the worst word or character (0-1), 0 if any word wasn't recognised */
+  confidence: number;
+}
+
+let templates: (WordTemplate & { decoded: Uint8Array })[] | null = null;
+let vocabulary: Set<string> | null = null;
+let hits = 0;
+let fallbacks = 0;
+
+function loadTemplates(): (WordTemplate & { decoded: Uint8Array })[] {
+  if (templates) return templates;
+  templates = [];
+  const filePath = getTemplatesPath();
+  try {
+    if (fs.existsSync(filePath)) {
+      const data: TemplatesFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (data?.version === TEMPLATES_VERSION && Array.isArray(data.templates)) {
+        // Older versions also learned whole numbers and misreads, which only cause wrong matches
+        templates = data.templates
+          .filter(t => isVocabularyWord(t.word) || isGlyph(t.word))
+          .map(t => ({ ...t, decoded: new Uint8Array(Buffer.from(t.pixels, 'base64')) }));
+        console.log(`[OCR] Loaded ${templates.length} word templates`);
+      } else {
+        console.warn(`[OCR] Ignoring ${filePath}: unsupported format`);
+      }
+    }
+  } catch (err) {
+    console.error('[OCR] Failed to load word templates:', err);
+  }
+  return templates;
+}
+
+function saveTemplates(): void {
+  const filePath = getTemplatesPath();
+  try {
+    const data: TemplatesFile = {
+      version: TEMPLATES_VERSION,
+      templates: loadTemplates().map(({ word, width, pixels }) => ({ word, width, pixels })),
+    };
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data), 'utf8');
+    fs.renameSync(tmpPath, filePath);
+  } catch (err) {
+    console.error('[OCR] Failed to save word templates:', err);
+  }
+}
+
+/**
+ * Otsu threshold of a greyscale image. Whichever side has fewer pixels is taken to be the text
+ */
+function toInkMask(grey: Buffer, width: number, height: number): Uint8Array {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < grey.length; i++) histogram[grey[i]]++;
+
+  const total = grey.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+  let sumBelow = 0;
+  let countBelow = 0;
+  let bestVariance = -1;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    countBelow += histogram[t];
+    if (countBelow === 0) continue;
+    const countAbove = total - countBelow;
+    if (countAbove === 0) break;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sumAll - sumBelow) / countAbove;
+    const variance = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+
+  let above = 0;
+  for (let i = 0; i < grey.length; i++) if (grey[i] > threshold) above++;
+  const inkIsLight = above <= total / 2;
+
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < grey.length; i++) {
+    mask[i] = (grey[i] > threshold) === inkIsLight ? 1 : 0;
+  }
+  return mask;
+}
+
+/**
+ * Runs of indices where `hasInk` is true, merging gaps up to `maxGap` long
+ */
+function findRuns(length: number, hasInk: (i: number) => boolean, maxGap: number): [number, number][] {
+  const runs: [number, number][] = [];
+  let start = -1;
+  let lastInk = -1;
+  for (let i = 0; i < length; i++) {
+    if (!hasInk(i)) continue;
+    if (start === -1) {
+      start = i;
+    } else if (i - lastInk - 1 > maxGap) {
+      runs.push([start, lastInk + 1]);
+      start = i;
+    }
+    lastInk = i;
+  }
+  if (start !== -1) runs.push([start, lastInk + 1]);
+  return runs;
+}
+
+/**
+ * Scale a word to NORM_HEIGHT. Words are cropped to their own ink, not the line's, since a line's
+ * height depends on which letters are in it while a word always looks the same
+ */
+function normalise(mask: Uint8Array, stride: number, x0: number, x1: number, y0: number, y1: number): Glyphs {
+  const scale = NORM_HEIGHT / (y1 - y0);
+  const width = Math.max(1, Math.round((x1 - x0) * scale));
+  const pixels = new Uint8Array(NORM_HEIGHT * width);
+  for (let ny = 0; ny < NORM_HEIGHT; ny++) {
+    const sy0 = y0 + Math.floor(ny / scale);
+    const sy1 = Math.max(sy0 + 1, y0 + Math.floor((ny + 1) / scale));
+    for (let nx = 0; nx < width; nx++) {
+      const sx0 = x0 + Math.floor(nx / scale);
+      const sx1 = Math.max(sx0 + 1, x0 + Math.floor((nx + 1) / scale));
+      let ink = 0;
+      let count = 0;
+      for (let sy = sy0; sy < Math.min(sy1, y1); sy++) {
+        for (let sx = sx0; sx < Math.min(sx1, x1); sx++) {
+          ink += mask[sy * stride + sx];
+          count++;
+        }
+      }
+      pixels[ny * width + nx] = count > 0 ? Math.round(ink / count * 255) : 0;
+    }
+  }
+  return { width, pixels };
+}
+
+/**
+ * Split a region image into words, line by line
+ */
+async function segmentWords(image: Buffer): Promise<Segment[]> {
+  const { data, info } = await sharp(image).greyscale().raw().toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const mask = toInkMask(data, width, height);
+
+  const rowHasInk = (y: number) => {
+    for (let x = 0; x < width; x++) if (mask[y * width + x]) return true;
+    return false;
+  };
+
+  const segments: Segment[] = [];
+  const lines = findRuns(height, rowHasInk, 0).filter(([y0, y1]) => y1 - y0 >= MIN_LINE_HEIGHT);
+  lines.forEach(([y0, y1], line) => {
+    const columnHasInk = (x: number) => {
+      for (let y = y0; y < y1; y++) if (mask[y * width + x]) return true;
+      return false;
+    };
+    const maxGap = Math.max(1, Math.round((y1 - y0) * WORD_GAP_FRACTION));
+    for (const [x0, x1] of findRuns(width, columnHasInk, maxGap)) {
+      const wordRowHasInk = (y: number) => {
+        for (let x = x0; x < x1; x++) if (mask[y * width + x]) return true;
+        return false;
+      };
+      const rows = findRuns(y1 - y0, (i) => wordRowHasInk(y0 + i), y1 - y0);
+      const [top, bottom] = rows[0];
+      const charColumnHasInk = (x: number) => {
+        for (let y = y0 + top; y < y0 + bottom; y++) if (mask[y * width + x]) return true;
+        return false;
+      };
+      const chars = findRuns(x1 - x0, (i) => charColumnHasInk(x0 + i), 0)
+        .map(([c0, c1]) => normalise(mask, width, x0 + c0, x0 + c1, y0 + top, y0 + bottom));
+      segments.push({ line, glyphs: normalise(mask, width, x0, x1, y0 + top, y0 + bottom), chars });
+    }
+  });
+  return segments;
+}
+
+/**
+ * Similarity of two normalised words (0-1), the template stretched to the word's width
+ */
+function compare(word: Glyphs, template: WordTemplate & { decoded: Uint8Array }): number {
+  if (Math.abs(template.width - word.width) / Math.max(template.width, word.width) > MAX_WIDTH_DIFFERENCE) {
+    return 0;
+  }
+  let difference = 0;
+  let union = 0;
+  for (let y = 0; y < NORM_HEIGHT; y++) {
+    for (let x = 0; x < word.width; x++) {
+      const tx = Math.min(template.width - 1, Math.floor(x * template.width / word.width));
+      const a = word.pixels[y * word.width + x];
+      const b = template.decoded[y * template.width + tx];
+      difference += Math.abs(a - b);
+      union += Math.max(a, b);
+    }
+  }
+  return union === 0 ? 0 : 1 - difference / union;
+}
+
+/**
+ * Best template for a word or character
+ */
+function bestMatch(glyphs: Glyphs, candidates: (WordTemplate & { decoded: Uint8Array })[]): { word: string; score: number } {
+  let best = { word: '', score: 0 };
+  for (const template of candidates) {
+    const score = compare(glyphs, template);
+    if (score > best.score) best = { word: template.word, score };
+  }
+  return best;
+}
+
+/**
+ * Read a region by matching each word against templates captured from the user's screen.
+ * Words that aren't bounty, market or rarity words (quantities, multipliers) are read a character at a time.
+ * Words are separated by spaces and lines by newlines, like Tesseract output.
+ */
+export async function recognizeWithTemplates(image: Buffer): Promise<TemplateOcrResult> {
+  const known = loadTemplates();
+  const segments = await segmentWords(image);
+  if (known.length === 0 || segments.length === 0) {
+    return { text: '', confidence: 0 };
+  }
+  const glyphTemplates = known.filter(t => isGlyph(t.word));
+
+  const lines: string[][] = [];
+  let confidence = 1;
+  for (const { line, glyphs, chars } of segments) {
+    const best = bestMatch(glyphs, known);
+    if (best.score >= MIN_WORD_SCORE) {
+      confidence = Math.min(confidence, best.score);
+      (lines[line] ??= []).push(best.word);
+      continue;
+    }
+
+    let word = '';
+    for (const char of chars) {
+      const bestChar = bestMatch(char, glyphTemplates);
+      // Anything unreadable sends the whole region to Tesseract, once
+      if (bestChar.score < MIN_WORD_SCORE) {
+        return { text: '', confidence: 0 };
+      }
+      confidence = Math.min(confidence, bestChar.score);
+      word += bestChar.word;
+    }
+    (lines[line] ??= []).push(word);
+  }
+
+  return { text: lines.map(words => words.join(' ')).join('\n'), confidence };
+}
+
+/**
+ * Count a region read by templates (`true`) or handed to Tesseract, for the status shown in settings
+ */
+export function recordTemplateOutcome(matched: boolean): void {
+  if (matched) hits++;
+  else fallbacks++;
+}
+
+/**
+ * Learn word templates from a region whose text is known (e.g. read by Tesseract and matched to a bounty).
+ * Bounty, market and rarity words are learned whole, quantities and multipliers a character at a time.
+ * Anything else is left to Tesseract
+ * @returns Number of templates added. 0 when the image doesn't split into the same lines and words as the text
+ */
+export async function learnTemplates(image: Buffer, text: string): Promise<number> {
+  const textLines = text.split('\n').map(line => line.trim().split(/\s+/).filter(Boolean)).filter(words => words.length > 0);
+  const segments = await segmentWords(image);
+
+  const imageLines: Segment[][] = [];
+  for (const segment of segments) (imageLines[segment.line] ??= []).push(segment);
+  if (imageLines.length !== textLines.length || imageLines.some((words, i) => words.length !== textLines[i].length)) {
+    return 0;
+  }
+
+  const known = loadTemplates();
+  let added = 0;
+  const learn = (word: string, glyphs: Glyphs) => {
+    const samples = known.filter(t => t.word === word);
+    if (samples.length >= MAX_SAMPLES_PER_WORD || samples.some(t => compare(glyphs, t) >= DUPLICATE_SCORE)) {
+      return;
+    }
+    known.push({ word, width: glyphs.width, pixels: Buffer.from(glyphs.pixels).toString('base64'), decoded: glyphs.pixels });
+    added++;
+  };
+  imageLines.forEach((words, line) => {
+    words.forEach(({ glyphs, chars }, i) => {
+      const word = textLines[line][i];
+      if (isVocabularyWord(word)) {
+        learn(word, glyphs);
+      } else if ([...word].every(isGlyph) && chars.length === word.length) {
+        chars.forEach((char, c) => learn(word[c], char));
+      }
+    });
+  });
+
+  if (added > 0) saveTemplates();
+  return added;
+}
+
+/**
+ * Words that appear in bounty names, market names and rarities, which with {@link GLYPH_SET} is all the
+ * template backend needs to read
+ */
+function getVocabulary(): Set<string> {
+  if (vocabulary) return vocabulary;
+  const words = new Set<string>();
+  for (const bounty of Object.values(bounties) as any[]) {
+    for (const name of [bounty.name, bounty.seller?.name, bounty.buyer?.name]) {
+      if (!name) continue;
+      // Bounty names are CamelCase without spaces, market names have spaces
+      for (const word of name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/'/g, '').split(/\s+/)) {
+        if (word) words.add(word.toLowerCase());
+      }
+    }
+  }
+  for (const word of RARITY_WORDS) words.add(word);
+  vocabulary = words;
+  return words;
+}
+
+function isVocabularyWord(word: string): boolean {
+  return getVocabulary().has(word.replace(/'/g, '').toLowerCase());
+}
+
+function isGlyph(word: string): boolean {
+  return word.length === 1 && GLYPH_SET.includes(word);
+}
+
+export function getTemplateStatus() {
+  const known = loadTemplates();
+  const learned = new Set(known.filter(t => !isGlyph(t.word)).map(t => t.word.replace(/'/g, '').toLowerCase()));
+  const vocabulary = getVocabulary();
+  const covered = [...vocabulary].filter(word => learned.has(word)).length;
+  const glyphs = new Set(known.filter(t => isGlyph(t.word)).map(t => t.word));
+  return {
+    templates: known.length,
+    words: learned.size,
+    vocabularyCovered: covered,
+    vocabularySize: vocabulary.size,
+    glyphsCovered: glyphs.size,
+    glyphSetSize: GLYPH_SET.length,
+    hits,
+    fallbacks,
+  };
+}
+
+export function resetTemplates(): void {
+  templates = [];
+  hits = 0;
+  fallbacks = 0;
+  saveTemplates();
+  console.log('[OCR] Reset word templates');
+}
@@ -3,6 +3,24 @@ import * as os from 'os';
 import { createWorker, createScheduler, PSM } from 'tesseract.js';
 
 type OCRMethod = 'native' | 'tesseract-js' | 'auto';
+type OutputFormat = 'text' | 'tsv';
+
+/**
+ * A word Tesseract found, with its bounding box in image pixels
+ */
+export interface OCRWord {
+  text: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  /** 0-100 */
+  confidence: number;
+  /** Words with the same block, paragraph and line number are on one line */
+  block: number;
+  paragraph: number;
+  line: number;
+}
 
 let tesseractScheduler: ReturnType<typeof createScheduler> | null = null;
 let resolvedMethod: 'native' | 'tesseract-js' | null = null;
@@ -110,7 +128,7 @@ async function initTesseractJS(): Promise<void> {
       const worker = await createWorker('eng');
       await worker.setParameters({
         tessedit_pageseg_mode: PSM.SINGLE_BLOCK,
-        tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789:'
+        tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789:/'
       });
       tesseractScheduler!.addWorker(worker);
     });
@@ -125,13 +143,15 @@ async function initTesseractJS(): Promise<void> {
 /**
  * Execute OCR using native tesseract binary
  */
-function execNativeTesseract(imageBuffer: Buffer): Promise<string> {
+function execNativeTesseract(imageBuffer: Buffer, format: OutputFormat = 'text'): Promise<string> {
   return new Promise((resolve, reject) => {
     const child = spawn(nativeTesseractPath, [
       '-', 'stdout',
-      '--psm', '6',
+      // Whole screenshots are read as sparse text, regions as a single block
+      '--psm', format === 'tsv' ? '11' : '6',
       '--oem', '3',
-      '-c', 'tessedit_char_whitelist=ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789:'
+      '-c', 'tessedit_char_whitelist=ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789:/',
+      ...(format === 'tsv' ? ['tsv'] : []),
     ]);
 
     let output = '';
@@ -154,11 +174,15 @@ function execNativeTesseract(imageBuffer: Buffer): Promise<string> {
 /**
  * Execute OCR using tesseract.js (via scheduler for parallel processing)
  */
-async function execTesseractJS(imageBuffer: Buffer): Promise<string> {
+async function execTesseractJS(imageBuffer: Buffer, format: OutputFormat = 'text'): Promise<string> {
   if (!tesseractScheduler) {
     await initTesseractJS();
   }
   
+  if (format === 'tsv') {
+    const { data: { tsv } } = await tesseractScheduler!.addJob('recognize', imageBuffer, {}, { tsv: true });
+    return tsv ?? '';
+  }
   const { data: { text } } = await tesseractScheduler!.addJob('recognize', imageBuffer);
   return text;
 }
@@ -172,12 +196,54 @@ export async function execTesseractFromBuffer(
   imageBuffer: Buffer,
   method: OCRMethod = 'native'
 ): Promise<string> {
+  return execTesseract(imageBuffer, method, 'text');
+}
+
+/**
+ * OCR a whole image and return each word with its bounding box (Tesseract's TSV output)
+ * @param imageBuffer - Image buffer to process
+ * @param method - OCR method: 'native' (default), 'tesseract-js', or 'auto'
+ */
+export async function execTesseractWordsFromBuffer(
+  imageBuffer: Buffer,
+  method: OCRMethod = 'native'
+): Promise<OCRWord[]> {
+  return parseTsv(await execTesseract(imageBuffer, method, 'tsv'));
+}
+
+/**
+ * Parse Tesseract's TSV output into words, skipping the page/block/line rows and empty words
+ */
+export function parseTsv(tsv: string): OCRWord[] {
+  const words: OCRWord[] = [];
+  for (const row of tsv.split('\n')) {
+    const cols = row.split('\t');
+    // level 5 is a word: level page block par line word left top width height conf text
+    if (cols.length < 12 || cols[0] !== '5') continue;
+    const text = cols.slice(11).join('\t').trim();
+    if (!text) continue;
+    words.push({
+      text,
+      block: Number(cols[2]),
+      paragraph: Number(cols[3]),
+      line: Number(cols[4]),
+      left: Number(cols[6]),
+      top: Number(cols[7]),
+      width: Number(cols[8]),
+      height: Number(cols[9]),
+      confidence: Number(cols[10]),
+    });
+  }
+  return words;
+}
+
+async function execTesseract(imageBuffer: Buffer, method: OCRMethod, format: OutputFormat): Promise<string> {
   // If we've already resolved a method, use it (sticky)
   if (resolvedMethod) {
     if (resolvedMethod === 'native') {
-      return await execNativeTesseract(imageBuffer);
+      return await execNativeTesseract(imageBuffer, format);
     }
-    return await execTesseractJS(imageBuffer);
+    return await execTesseractJS(imageBuffer, format);
   }
 
   // Auto mode: check native availability and decide
@@ -190,7 +256,7 @@ export async function execTesseractFromBuffer(
   // Try native first if requested
   if (method === 'native') {
     try {
-      const result = await execNativeTesseract(imageBuffer);
+      const result = await execNativeTesseract(imageBuffer, format);
       if (!resolvedMethod) {
         console.log('[OCR] Using native tesseract binary');
         resolvedMethod = 'native';
@@ -207,7 +273,7 @@ export async function execTesseractFromBuffer(
     console.log('[OCR] Using tesseract.js');
     resolvedMethod = 'tesseract-js';
   }
-  return await execTesseractJS(imageBuffer);
+  return await execTesseractJS(imageBuffer, format);
 }
 
 /**
@@ -8,10 +8,12 @@
 
 import GPS from '../../algorithm/gps';
 import pathfinder from '../../algorithm/pathfinder';
-import { markets, bountyBoard } from '../../algorithm/nodes';
+import { readDistanceMatrix } from '../utils/distance-matrix-cache';
+import { PlayerState, RoutingRisk } from '../config/types';
 
 interface ComboTask {
   combo: string[];
+  quantities: (number | null)[];
   kp: number;
   estimatedEfficiency: number;
 }
@@ -21,15 +23,23 @@ interface ComboResult {
   kp: number;
   actions: any[];
   distance: number;
+  variance: number;
+  p90: number;
 }
 
 let cachedGps: GPS | null = null;
 let cachedGpsKey: string | null = null;
 
-function getGps(detectiveLevel: number, battleOfFortuneholdCompleted: boolean): GPS {
-  const key = `${detectiveLevel}:${battleOfFortuneholdCompleted}`;
+function getGps(
+  playerState: PlayerState,
+  routingRisk: RoutingRisk,
+  distanceMatrixPath?: string,
+  edgeAdjustments: { [edgeKey: string]: number } = {}
+): GPS {
+  const key = JSON.stringify([playerState, routingRisk, edgeAdjustments]);
   if (cachedGpsKey === key && cachedGps) return cachedGps;
-  cachedGps = new GPS(detectiveLevel, battleOfFortuneholdCompleted);
+  // Load the matrix the main process wrote to disk; GPS recomputes it if missing or stale
+  cachedGps = new GPS(playerState, readDistanceMatrix(distanceMatrixPath), edgeAdjustments, routingRisk);
   cachedGpsKey = key;
   return cachedGps;
 }
@@ -40,14 +50,7 @@ process.parentPort?.on('message', (event) => {
 
   if (msg.type === 'warmup') {
     try {
-      const gps = getGps(msg.detectiveLevel, msg.battleOfFortuneholdCompleted);
-      const marketNodes = Object.values(markets).map((m: any) => m.node);
-      marketNodes.push(bountyBoard.node);
-      for (const from of marketNodes) {
-        for (const to of marketNodes) {
-          if (from !== to) gps.distance(from, to);
-        }
-      }
+      getGps(msg.playerState, msg.routingRisk, msg.distanceMatrixPath, msg.edgeAdjustments);
       process.parentPort?.postMessage({ id: msg.id, ok: true });
     } catch (e: any) {
       process.parentPort?.postMessage({ id: msg.id, ok: false, error: e?.stack ?? String(e) });
@@ -58,9 +61,10 @@ process.parentPort?.on('message', (event) => {
   if (msg.type !== 'evaluateChunk') return;
 
   try {
-    const { id, tasks, detectiveLevel, battleOfFortuneholdCompleted, roundTrip, numResults, pruningThreshold } = msg;
+    const { id, tasks, playerState, routingRisk, distanceMatrixPath, edgeAdjustments = {}, runEnding, inventorySpace = 24, numResults, pruningThreshold, minEfficiency = 0 } = msg;
     const computeStart = Date.now();
-    const gps = getGps(detectiveLevel, battleOfFortuneholdCompleted);
+    const gps = getGps(playerState, routingRisk, distanceMatrixPath, edgeAdjustments);
+    pathfinder.inventorySpace = inventorySpace;
     let results: ComboResult[] = [];
     let evaluated = 0;
 
@@ -70,15 +74,20 @@ process.parentPort?.on('message', (event) => {
         if (task.estimatedEfficiency < worstEfficiency * pruningThreshold) break;
       }
 
-      const threshold = results.length >= numResults ? results[results.length - 1].distance : Number.MAX_SAFE_INTEGER;
-      const route = pathfinder.findBestRoute(task.combo, gps, threshold, roundTrip);
+      // A combo only makes the list if it beats the worst KP/D so far (here or in earlier chunks), which caps its distance
+      const worstEfficiency = results.length >= numResults
+        ? Math.max(minEfficiency, results[results.length - 1].kp / results[results.length - 1].distance)
+        : minEfficiency;
+      const threshold = worstEfficiency > 0 ? task.kp / worstEfficiency : Number.MAX_SAFE_INTEGER;
+      const route = pathfinder.findBestRoute(task.combo, gps, threshold, runEnding, task.quantities);
       evaluated++;
       if (route === null) continue;
 
-      results.push({ combo: task.combo, kp: task.kp, actions: route.actions, distance: route.distance });
+      results.push({ combo: task.combo, kp: task.kp, actions: route.actions, distance: route.distance, variance: route.variance, p90: route.p90 });
 
+      // Keep sorted so the last entry is always the worst
+      results.sort((a, b) => b.kp / b.distance - a.kp / a.distance);
       if (results.length > numResults) {
-        results.sort((a, b) => b.kp / b.distance - a.kp / a.distance);
         results = results.slice(0, numResults);
       }
     }
@@ -1,18 +1,36 @@
 import * as path from 'path';
 import { utilityProcess, UtilityProcess, MessagePortMain } from 'electron';
-import { FindBestArgs, FindBestResult } from '../config/types';
+import { EdgeAdjustments, FindBestArgs, FindBestResult, PlayerState, RoutingRisk, RunEnding } from '../config/types';
+import { DEFAULT_ROUTING_RISK } from '../config/constants';
+import { ensureDistanceMatrix } from '../utils/distance-matrix-cache';
+
+// Minimum number of best combinations each process keeps
+const NUM_RESULTS = 5;
+
+// Combinations sent per message when streaming in optimal mode
+const STREAM_CHUNK_SIZE = 128;
 
 interface ComboTask {
   combo: string[];
+  /** Items each bounty of the combo asks for, null if unknown */
+  quantities: (number | null)[];
   kp: number;
   estimatedEfficiency: number;
 }
 
+interface BountySlot {
+  bountyKey: string;
+  rarity: 'uncommon' | 'rare' | 'epic' | null;
+  quantity: number | null;
+}
+
 interface ComboResult {
   combo: string[];
   kp: number;
   actions: any[];
   distance: number;
+  variance: number;
+  p90: number;
 }
 
 interface UtilityResponse {
@@ -28,6 +46,17 @@ interface UtilityResponse {
   };
 }
 
+function toFindBestResult(result: ComboResult): FindBestResult {
+  return {
+    bounties: result.combo,
+    kp: result.kp,
+    actions: result.actions,
+    distance: result.distance,
+    variance: result.variance,
+    p90: result.p90,
+  };
+}
+
 /**
  * Manages a pool of utility processes for parallel pathfinding.
  * Uses Electron's utilityProcess API which provides better V8 performance
@@ -37,10 +66,15 @@ export class PathfinderUtilityPool {
   private processes: UtilityProcess[] = [];
   private nextId = 1;
   private initialized = false;
-  private detectiveLevel: number = 500;
-  private battleOfFortuneholdCompleted: boolean = true;
+  // Nothing set uses the game data's defaults
+  private playerState: PlayerState = { quests: {}, skills: {}, items: {} };
+  private routingRisk: RoutingRisk = DEFAULT_ROUTING_RISK;
   private maxProcesses: number;
   private scriptPath: string;
+  // Distance matrix files already checked/built this session, keyed by player state and routing risk
+  private distanceMatrixPaths = new Map<string, string>();
+  // Learned travel time factors, sent with every request so processes build the same graph
+  private edgeAdjustments: EdgeAdjustments = {};
 
   constructor(maxProcesses?: number) {
     // Use CPU count - 1 to leave headroom for main process and system
@@ -50,9 +84,32 @@ export class PathfinderUtilityPool {
     this.scriptPath = path.join(__dirname, 'pathfinder-utility-process.js');
   }
 
-  setConfig(detectiveLevel: number, battleOfFortuneholdCompleted: boolean): void {
-    this.detectiveLevel = detectiveLevel;
-    this.battleOfFortuneholdCompleted = battleOfFortuneholdCompleted;
+  setConfig(playerState: PlayerState, routingRisk: RoutingRisk): void {
+    this.playerState = playerState;
+    this.routingRisk = routingRisk;
+  }
+
+  /**
+   * Use learned per-edge travel time factors for future requests
+   */
+  setEdgeAdjustments(edgeAdjustments: EdgeAdjustments): void {
+    this.edgeAdjustments = edgeAdjustments;
+    // The matrices on disk were built with the old factors
+    this.distanceMatrixPaths.clear();
+  }
+
+  /**
+   * Returns the path of the on-disk distance matrix for a graph, building it in the main
+   * process the first time so utility processes only have to load it
+   */
+  private getDistanceMatrixPath(playerState: PlayerState, routingRisk: RoutingRisk): string {
+    const key = JSON.stringify([playerState, routingRisk]);
+    let filePath = this.distanceMatrixPaths.get(key);
+    if (!filePath) {
+      filePath = ensureDistanceMatrix(playerState, this.edgeAdjustments, routingRisk);
+      this.distanceMatrixPaths.set(key, filePath);
+    }
+    return filePath;
   }
 
   private initPool(): void {
@@ -80,6 +137,7 @@ export class PathfinderUtilityPool {
 
     console.log(`[pathfinder-utility] Warming up ${this.processes.length} processes...`);
     const startTime = Date.now();
+    const distanceMatrixPath = this.getDistanceMatrixPath(this.playerState, this.routingRisk);
 
     const warmupPromises = this.processes.map((proc, idx) => {
       return new Promise<void>((resolve, reject) => {
@@ -97,8 +155,10 @@ export class PathfinderUtilityPool {
         proc.postMessage({
           id,
           type: 'warmup',
-          detectiveLevel: this.detectiveLevel,
-          battleOfFortuneholdCompleted: this.battleOfFortuneholdCompleted,
+          playerState: this.playerState,
+          routingRisk: this.routingRisk,
+          distanceMatrixPath,
+          edgeAdjustments: this.edgeAdjustments,
         });
       });
     });
@@ -107,64 +167,102 @@ export class PathfinderUtilityPool {
     console.log(`[pathfinder-utility] Pool warmed up in ${Date.now() - startTime}ms`);
   }
 
-  async findBest(args: FindBestArgs, timeoutMs: number): Promise<FindBestResult> {
-    const { allBounties, detectiveLevel, battleOfFortuneholdCompleted, bountyRarities = {}, pruningOptions = {} } = args;
+  async findBest(args: FindBestArgs, timeoutMs: number, signal?: AbortSignal): Promise<FindBestResult> {
+    const [best] = await this.findTop(args, 1, timeoutMs, signal);
+    return best;
+  }
+
+  /**
+   * Finds the best few bounty combinations and their routes, best KP/D first.
+   * Throws if no valid route exists.
+   */
+  async findTop(args: FindBestArgs, count: number, timeoutMs: number, signal?: AbortSignal): Promise<FindBestResult[]> {
+    const { playerState, routingRisk = DEFAULT_ROUTING_RISK, merchantLevel = 500, runEnding = 'return-to-board', rarities = [], quantities = [], inventorySpace = 24, pruningOptions = {} } = args;
     const { maxCombinations = 400, pruningThreshold = 0.95 } = pruningOptions;
+    const numResults = Math.max(NUM_RESULTS, count);
 
     const t0 = Date.now();
 
-    const combinationsMod = require('../../algorithm/combinations').default;
-    const bountyDataMod = require('../../algorithm/bounties').bounties;
+    const combinationsMod = require('../../algorithm/combinations');
+    const bountiesMod = require('../../algorithm/bounties');
+    const bountyDataMod = bountiesMod.bounties;
+
+    // Two slots can offer the same bounty at a different rarity or quantity, so combinations are made of
+    // slots. Identical slots share an id, so they stay interchangeable in the combinations
+    const slots = new Map<string, BountySlot>();
+    const slotIds: string[] = [];
+    args.allBounties.forEach((bountyKey: string, i: number) => {
+      // Bounties above the player's Merchant level can't be accepted (usually an OCR misread)
+      if (!bountiesMod.isBountyAvailable(bountyKey, merchantLevel)) return;
+      const slot: BountySlot = { bountyKey, rarity: rarities[i] ?? null, quantity: quantities[i] ?? null };
+      const id = JSON.stringify([slot.bountyKey, slot.rarity, slot.quantity]);
+      slots.set(id, slot);
+      slotIds.push(id);
+    });
+    if (slotIds.length < args.allBounties.length) {
+      console.log(`[pathfinder-utility] Skipped ${args.allBounties.length - slotIds.length} bounties above Merchant level ${merchantLevel}`);
+    }
 
-    // Helper function to get KP with rarity multiplier
-    const getBountyKp = (bountyKey: string): number => {
-      const baseKp = bountyDataMod[bountyKey].kp;
-      const rarity = bountyRarities[bountyKey];
-      
-      if (rarity === 'epic') return baseKp * 4;
-      if (rarity === 'rare') return baseKp * 3;
-      if (rarity === 'uncommon') return baseKp * 2;
-      return baseKp;
+    // Level-scaled KP with rarity multiplier
+    const getSlotKp = (slot: BountySlot): number => {
+      const baseKp = bountiesMod.getBountyKp(slot.bountyKey, merchantLevel);
+      return baseKp * (slot.rarity ? bountiesMod.RARITY_MULTIPLIERS[slot.rarity] : 1);
     };
 
-    const maxComboSize = Math.min(allBounties.length, 6);
-    const combos = combinationsMod(allBounties, maxComboSize);
+    const maxComboSize = Math.min(slotIds.length, 6);
+    const totalCombos: number = combinationsMod.countCombinations(slotIds, maxComboSize);
 
-    const comboTasks: ComboTask[] = combos.map((combo: string[]) => {
-      const kp = combo.reduce((acc: number, bounty: string) => acc + getBountyKp(bounty), 0);
+    const toTask = (ids: string[]): ComboTask => {
+      const comboSlots = ids.map(id => slots.get(id)!);
+      const combo = comboSlots.map(slot => slot.bountyKey);
+      const kp = comboSlots.reduce((acc: number, slot: BountySlot) => acc + getSlotKp(slot), 0);
       const uniqueLocations = new Set<number>();
       for (const bounty of combo) {
         uniqueLocations.add(bountyDataMod[bounty].seller.node);
         uniqueLocations.add(bountyDataMod[bounty].buyer.node);
       }
       const estimatedDistance = uniqueLocations.size * 10 + combo.length * 7;
-      return { combo, kp, estimatedEfficiency: kp / estimatedDistance };
-    });
-
-    comboTasks.sort((a, b) => b.estimatedEfficiency - a.estimatedEfficiency);
+      return { combo, quantities: comboSlots.map(slot => slot.quantity), kp, estimatedEfficiency: kp / estimatedDistance };
+    };
 
-    const tasksToProcess = maxCombinations === Infinity
-      ? comboTasks
-      : comboTasks.slice(0, maxCombinations);
+    // Combinations are generated lazily, never as a full list
+    const taskStream = (function* () {
+      for (const combo of combinationsMod.kCombinations(slotIds, maxComboSize)) {
+        yield toTask(combo);
+      }
+    })();
 
-    if (tasksToProcess.length === 0) {
+    if (totalCombos === 0) {
       throw new Error('No combinations to evaluate');
     }
 
     this.initPool();
 
+    // The exact route solver evaluates every combination quickly enough on one process, so
+    // stream them in chunks and share the running KP/D bound between chunks
+    if (maxCombinations === Infinity) {
+      console.log(`[pathfinder-utility] Streaming ${totalCombos} combinations to 1 process (optimal mode)`);
+      const results = await this.streamToProcess(taskStream, 0, playerState, routingRisk, runEnding, inventorySpace, numResults, timeoutMs, signal);
+      console.log(`[pathfinder-utility] Completed in ${((Date.now() - t0) / 1000).toFixed(2)}s`);
+      return results.slice(0, count).map(toFindBestResult);
+    }
+
+    // Otherwise keep only the most promising combinations, best first
+    const tasksToProcess: ComboTask[] = combinationsMod.takeBest(taskStream, maxCombinations, (task: ComboTask) => task.estimatedEfficiency);
+    signal?.throwIfAborted();
+
     const t1 = Date.now();
     const numProcesses = Math.min(this.maxProcesses, Math.ceil(tasksToProcess.length / 10));
 
-    if (maxCombinations === Infinity) {
-      console.log(`[pathfinder-utility] Processing ${tasksToProcess.length} combinations with ${numProcesses} processes (optimal mode)`);
-    } else {
-      console.log(`[pathfinder-utility] Processing ${tasksToProcess.length}/${comboTasks.length} combinations with ${numProcesses} processes`);
-    }
+    console.log(`[pathfinder-utility] Processing ${tasksToProcess.length}/${totalCombos} combinations with ${numProcesses} processes`);
 
     // For small task counts, use single process
     if (tasksToProcess.length <= 20) {
-      return this.runOnProcess(tasksToProcess, 0, detectiveLevel, battleOfFortuneholdCompleted, pruningThreshold, timeoutMs, true) as Promise<FindBestResult>;
+      const results = await this.runOnProcess(tasksToProcess, 0, playerState, routingRisk, runEnding, inventorySpace, numResults, pruningThreshold, timeoutMs, true, signal);
+      if (results.length === 0) {
+        throw new Error('No valid routes found');
+      }
+      return results.slice(0, count).map(toFindBestResult);
     }
 
     // Distribute tasks round-robin
@@ -174,7 +272,7 @@ export class PathfinderUtilityPool {
     }
 
     const processPromises = chunks.map((chunk, idx) =>
-      this.runOnProcess(chunk, idx % this.processes.length, detectiveLevel, battleOfFortuneholdCompleted, pruningThreshold, timeoutMs, false)
+      this.runOnProcess(chunk, idx % this.processes.length, playerState, routingRisk, runEnding, inventorySpace, numResults, pruningThreshold, timeoutMs, false, signal)
     );
 
     const chunkResults = await Promise.all(processPromises);
@@ -189,36 +287,106 @@ export class PathfinderUtilityPool {
       throw new Error('No valid routes found');
     }
 
-    const best = allResults[0];
-    return {
-      bounties: best.combo,
-      kp: best.kp,
-      actions: best.actions,
-      distance: best.distance,
+    return allResults.slice(0, count).map(toFindBestResult);
+  }
+
+  /**
+   * Evaluates a stream of combinations on one process, a chunk at a time.
+   * Each chunk only has to beat the worst of the best results so far, and the stream
+   * can be cancelled between chunks.
+   */
+  private async streamToProcess(
+    tasks: Iterable<ComboTask>,
+    processIdx: number,
+    playerState: PlayerState,
+    routingRisk: RoutingRisk,
+    runEnding: RunEnding,
+    inventorySpace: number,
+    numResults: number,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<ComboResult[]> {
+    const deadline = Date.now() + timeoutMs;
+    let results: ComboResult[] = [];
+    let chunk: ComboTask[] = [];
+
+    const flush = async (): Promise<void> => {
+      signal?.throwIfAborted();
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        throw new Error(`Process timed out after ${timeoutMs}ms`);
+      }
+
+      const minEfficiency = results.length >= numResults
+        ? results[results.length - 1].kp / results[results.length - 1].distance
+        : 0;
+      const chunkResults = await this.runOnProcess(chunk, processIdx, playerState, routingRisk, runEnding, inventorySpace, numResults, 1.0, remainingMs, false, signal, minEfficiency);
+      chunk = [];
+
+      results = results.concat(chunkResults);
+      results.sort((a, b) => b.kp / b.distance - a.kp / a.distance);
+      results = results.slice(0, numResults);
     };
+
+    for (const task of tasks) {
+      chunk.push(task);
+      if (chunk.length >= STREAM_CHUNK_SIZE) {
+        await flush();
+      }
+    }
+    if (chunk.length > 0) {
+      await flush();
+    }
+
+    if (results.length === 0) {
+      throw new Error('No valid routes found');
+    }
+    return results;
   }
 
+  /**
+   * Evaluates combinations on one process and resolves with its best results.
+   * With `failOnError`, a timeout or process error rejects instead of resolving with no results.
+   */
   private runOnProcess(
     tasks: ComboTask[],
     processIdx: number,
-    detectiveLevel: number,
-    battleOfFortuneholdCompleted: boolean,
+    playerState: PlayerState,
+    routingRisk: RoutingRisk,
+    runEnding: RunEnding,
+    inventorySpace: number,
+    numResults: number,
     pruningThreshold: number,
     timeoutMs: number,
-    returnSingle: boolean
-  ): Promise<ComboResult[] | FindBestResult> {
+    failOnError: boolean,
+    signal?: AbortSignal,
+    minEfficiency: number = 0
+  ): Promise<ComboResult[]> {
     return new Promise((resolve, reject) => {
       const proc = this.processes[processIdx];
       if (!proc) {
         reject(new Error(`Process ${processIdx} not found`));
         return;
       }
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
 
       const id = this.nextId++;
 
+      // The process finishes its chunk regardless, we just stop waiting for it
+      const onAbort = () => {
+        clearTimeout(timeout);
+        proc.off('message', messageHandler);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       const timeout = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
         console.warn(`[pathfinder-utility] Process ${processIdx} timed out`);
-        if (returnSingle) {
+        if (failOnError) {
           reject(new Error(`Process timed out after ${timeoutMs}ms`));
         } else {
           resolve([]);
@@ -230,22 +398,13 @@ export class PathfinderUtilityPool {
 
         clearTimeout(timeout);
         proc.off('message', messageHandler);
+        signal?.removeEventListener('abort', onAbort);
 
         if (msg.ok) {
-          if (returnSingle && msg.results && msg.results.length > 0) {
-            const best = msg.results[0];
-            resolve({
-              bounties: best.combo,
-              kp: best.kp,
-              actions: best.actions,
-              distance: best.distance,
-            } as FindBestResult);
-          } else {
-            resolve(msg.results || []);
-          }
+          resolve(msg.results || []);
         } else {
           console.warn(`[pathfinder-utility] Process ${processIdx} error: ${msg.error}`);
-          if (returnSingle) {
+          if (failOnError) {
             reject(new Error(msg.error || 'Process error'));
           } else {
             resolve([]);
@@ -259,11 +418,15 @@ export class PathfinderUtilityPool {
         id,
         type: 'evaluateChunk',
         tasks,
-        detectiveLevel,
-        battleOfFortuneholdCompleted,
-        roundTrip: true,
-        numResults: 5,
+        playerState,
+        routingRisk,
+        distanceMatrixPath: this.getDistanceMatrixPath(playerState, routingRisk),
+        edgeAdjustments: this.edgeAdjustments,
+        runEnding,
+        inventorySpace,
+        numResults,
         pruningThreshold,
+        minEfficiency,
       });
     });
   }
@@ -32,8 +32,7 @@ for (const testCase of testCases) {
   const start = Date.now();
   const result = pathfinder.findBestBounties(
     testCase.bounties,
-    500,  // detective level
-    true, // battle completed
+    { skills: { detective: 500 }, quests: { BATTLE_OF_FORTUNEHOLD: true } }, // player state
     true, // round trip
     5     // num results
   );
@@ -66,8 +65,7 @@ for (let i = 0; i < 5; i++) {
   const start = Date.now();
   const result = pathfinder.findBestBounties(
     randomBounties,
-    500,
-    true,
+    { skills: { detective: 500 }, quests: { BATTLE_OF_FORTUNEHOLD: true } },
     true,
     5
   );
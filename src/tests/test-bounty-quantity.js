@@ -0,0 +1,54 @@
+// Check bounty matching and quantity parsing on OCR text, including progress whose slash OCR dropped
+const { matchBountyText, matchBountyName, parseBountyQuantity } = require('./dist/app/utils/fuzzy-bounty-matcher');
+
+const matchCases = [
+  // [OCR text, expected bounty key]
+  ['Carrots0/6FromGreengrocers', 'CARROTS'],
+  ['Carrots06FromGreengrocers', 'CARROTS'],
+  ['Carrots016FromGreengrocers', 'CARROTS'],
+  ['Carrots38', 'CARROTS'],
+  ['Carrotsx6', 'CARROTS'],
+  ['Carrots3x', 'CARROTS'],
+  ['Carr0ts06FromGreengrocers', 'CARROTS'],
+  ['CarrotsFromGreengrocers', null],
+  ['CarrotsFromGreengrocers1ToMarket9', null],
+];
+
+const quantityCases = [
+  // [OCR text, expected quantity]
+  ['Carrots3/8', 8],
+  ['Carrots0/12', 12],
+  ['Carrots38', 8],
+  ['Carrots012', 12],
+  ['Carrots06', 6],
+  ['Carrots1012', 12],
+  ['Carrotsx12', 12],
+  ['Carrots4x0/8', 8],
+  ['Carrots', 6],
+  ['Carrots99', 9],
+];
+
+let failures = 0;
+const check = (label, actual, expected) => {
+  if (actual !== expected) {
+    failures++;
+    console.log(`FAIL ${label}: got ${actual}, expected ${expected}`);
+  }
+};
+
+console.log('='.repeat(70));
+console.log('Bounty Text Test');
+console.log('='.repeat(70));
+
+for (const [text, expected] of matchCases) {
+  check(`matchBountyText("${text}")`, matchBountyText(text).bountyKey, expected);
+}
+for (const [text, expected] of quantityCases) {
+  check(`parseBountyQuantity("${text}")`, parseBountyQuantity(text), expected);
+}
+// Calibration reads single lines, which hold only the name
+check('matchBountyName("Carrots")', matchBountyName('Carrots'), 'CARROTS');
+
+const total = matchCases.length + quantityCases.length + 1;
+console.log(failures === 0 ? `All ${total} checks passed` : `${failures} of ${total} checks failed`);
+process.exitCode = failures === 0 ? 0 : 1;
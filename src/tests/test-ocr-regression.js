@@ -0,0 +1,199 @@
+// OCR regression test over a corpus of saved screenshots
+// Run with: node test-ocr-regression.js <corpus-dir> [--method native|tesseract-js|auto|template] [--verbose]
+//
+// The corpus directory holds the screenshots plus a ground-truth.json:
+// {
+//   "regions": { "activeBountyRegion1": { "x": 20, "y": 150, "width": 300, "height": 70 }, ... },
+//   "dpiScale": 1,
+//   "screenshots": [
+//     {
+//       "file": "board-open-01.png",
+//       "boardOpen": true,
+//       "regions": { ... },
+//       "expected": {
+//         "activeBountyRegion1": { "bounty": "CARROTS", "rarity": "rare" },
+//         "boardRegion2": "PIZZA",
+//         "boardRegion3": null
+//       }
+//     }
+//   ]
+// }
+//
+// Top-level "regions" and "dpiScale" apply to every screenshot unless a screenshot sets its own
+// (regions default to the app's default regions). Region coordinates are in DIP, so "dpiScale"
+// is the screenshot's physical pixels per DIP. Only regions listed in "expected" are checked:
+// a bounty key, null for a region that should match nothing, or an object with the bounty and
+// (optionally) its rarity. Rarity is null for a normal bounty and is only checked when given,
+// for the combined result as well as the text keyword and the colour classifier on their own.
+//
+// src/tests/ocr-corpus is a small sample corpus to start from. Its screenshots are drawn from the optional
+// "text" of each screenshot by scripts/generate-ocr-corpus.js rather than captured from the game:
+//   npx tsc && cp src/tests/test-ocr-regression.js . && node test-ocr-regression.js src/tests/ocr-corpus
+
+const fs = require('fs');
+const path = require('path');
+const sharp = require('sharp');
+const { recognizeRegion } = require('./dist/app/core/region-recognizer');
+const { matchBountyText } = require('./dist/app/utils/fuzzy-bounty-matcher');
+const { shutdownTesseract } = require('./dist/app/utils/tesseract');
+const { getDefaultRegions } = require('./dist/app/config/config');
+
+const TITLE_REGION = 'bountyBoardTitleRegion';
+
+function parseArgs(argv) {
+  const args = { corpusDir: null, method: 'auto', verbose: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--method') {
+      args.method = argv[++i];
+    } else if (argv[i] === '--verbose') {
+      args.verbose = true;
+    } else {
+      args.corpusDir = argv[i];
+    }
+  }
+  return args;
+}
+
+function normalizeExpected(value) {
+  if (value === null || typeof value === 'string') {
+    return { bounty: value, rarity: undefined };
+  }
+  return { bounty: value.bounty ?? null, rarity: value.rarity };
+}
+
+function pct(numerator, denominator) {
+  return denominator === 0 ? '   -  ' : `${(numerator / denominator * 100).toFixed(1).padStart(5)}%`;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.corpusDir) {
+    console.error('Usage: node test-ocr-regression.js <corpus-dir> [--method native|tesseract-js|auto|template] [--verbose]');
+    process.exit(2);
+  }
+
+  const truth = JSON.parse(fs.readFileSync(path.join(args.corpusDir, 'ground-truth.json'), 'utf8'));
+  const defaultRegions = { ...getDefaultRegions(), ...(truth.regions || {}) };
+
+  console.log('='.repeat(70));
+  console.log(`OCR Regression Test (${truth.screenshots.length} screenshots, method=${args.method})`);
+  console.log('='.repeat(70));
+  console.log();
+
+  // Per-bounty true positives, false positives (matched but wrong) and false negatives (missed)
+  const perBounty = {};
+  const counts = (key) => (perBounty[key] ??= { tp: 0, fp: 0, fn: 0 });
+  const matchTypes = { exact: 0, fuzzy: 0, none: 0 };
+  const rarity = { correct: 0, textCorrect: 0, imageCorrect: 0, total: 0 };
+  const boardOpen = { correct: 0, total: 0 };
+  const misreads = [];
+  let regionsChecked = 0;
+  let regionsCorrect = 0;
+
+  const start = Date.now();
+
+  for (const shot of truth.screenshots) {
+    const regions = { ...defaultRegions, ...(shot.regions || {}) };
+    const dpiScale = shot.dpiScale ?? truth.dpiScale ?? 1;
+
+    const base = sharp(fs.readFileSync(path.join(args.corpusDir, shot.file)));
+    const { width, height } = await base.metadata();
+
+    if (shot.boardOpen !== undefined && regions[TITLE_REGION]) {
+      const title = await recognizeRegion(base, regions[TITLE_REGION], width, height, { dpiScale, ocrMethod: args.method });
+      const detected = title.text.includes('TIES');
+      boardOpen.total++;
+      if (detected === shot.boardOpen) {
+        boardOpen.correct++;
+      } else {
+        misreads.push({ file: shot.file, key: TITLE_REGION, expected: `boardOpen=${shot.boardOpen}`, actual: `boardOpen=${detected}`, text: title.text });
+      }
+    }
+
+    for (const [key, value] of Object.entries(shot.expected || {})) {
+      if (!regions[key]) {
+        console.warn(`[${shot.file}] No region for ${key}, skipping`);
+        continue;
+      }
+      const expected = normalizeExpected(value);
+      const result = await recognizeRegion(base, regions[key], width, height, { dpiScale, ocrMethod: args.method, detectRarity: true });
+      const match = matchBountyText(result.text);
+
+      regionsChecked++;
+      matchTypes[match.matchType ?? 'none']++;
+
+      if (match.bountyKey === expected.bounty) {
+        regionsCorrect++;
+        if (expected.bounty) counts(expected.bounty).tp++;
+      } else {
+        if (match.bountyKey) counts(match.bountyKey).fp++;
+        if (expected.bounty) counts(expected.bounty).fn++;
+        misreads.push({ file: shot.file, key, expected: expected.bounty, actual: match.bountyKey, text: result.text, topMatches: match.topMatches });
+      }
+
+      // Rarity only means something once the bounty itself was read
+      if (expected.rarity !== undefined && expected.bounty && match.bountyKey === expected.bounty) {
+        rarity.total++;
+        if (result.rarityEvidence.textRarity === expected.rarity) rarity.textCorrect++;
+        if (result.rarityEvidence.imageRarity === expected.rarity) rarity.imageCorrect++;
+        if (result.rarity === expected.rarity) {
+          rarity.correct++;
+        } else {
+          const { textRarity, imageRarity, imageConfidence } = result.rarityEvidence;
+          misreads.push({ file: shot.file, key, expected: `rarity=${expected.rarity}`, actual: `rarity=${result.rarity} (text=${textRarity}, colour=${imageRarity} ${imageConfidence.toFixed(2)})`, text: result.text });
+        }
+      }
+
+      if (args.verbose) {
+        console.log(`[${shot.file}] ${key}: "${result.text}" -> ${match.bountyKey} (${match.matchType ?? 'no match'}, rarity=${result.rarity})`);
+      }
+    }
+  }
+
+  const elapsed = Date.now() - start;
+  if (args.verbose) console.log();
+
+  console.log('Per-bounty results:');
+  console.log(`  ${'Bounty'.padEnd(24)} ${'TP'.padStart(4)} ${'FP'.padStart(4)} ${'FN'.padStart(4)}  Precision  Recall`);
+  let tp = 0, fp = 0, fn = 0;
+  for (const key of Object.keys(perBounty).sort()) {
+    const c = perBounty[key];
+    tp += c.tp; fp += c.fp; fn += c.fn;
+    console.log(`  ${key.padEnd(24)} ${String(c.tp).padStart(4)} ${String(c.fp).padStart(4)} ${String(c.fn).padStart(4)}     ${pct(c.tp, c.tp + c.fp)}  ${pct(c.tp, c.tp + c.fn)}`);
+  }
+  console.log();
+
+  if (misreads.length > 0) {
+    console.log('Misreads:');
+    for (const m of misreads) {
+      console.log(`  [${m.file}] ${m.key}: expected ${m.expected}, got ${m.actual} from "${m.text}"`);
+      if (m.topMatches && m.topMatches.length > 0) {
+        console.log(`      fuzzy: ${m.topMatches.map(t => `${t.bountyKey}=${t.score.toFixed(2)}`).join(', ')}`);
+      }
+    }
+    console.log();
+  }
+
+  console.log('='.repeat(70));
+  console.log('SUMMARY');
+  console.log('='.repeat(70));
+  console.log(`Regions: ${regionsCorrect}/${regionsChecked} correct (${pct(regionsCorrect, regionsChecked).trim()})`);
+  console.log(`Precision: ${pct(tp, tp + fp).trim()}  Recall: ${pct(tp, tp + fn).trim()}`);
+  console.log(`Match types: ${matchTypes.exact} exact, ${matchTypes.fuzzy} fuzzy, ${matchTypes.none} none`);
+  if (rarity.total > 0) {
+    console.log(`Rarity: ${rarity.correct}/${rarity.total} correct (${pct(rarity.correct, rarity.total).trim()}), ` +
+      `text alone ${pct(rarity.textCorrect, rarity.total).trim()}, colour alone ${pct(rarity.imageCorrect, rarity.total).trim()}`);
+  }
+  if (boardOpen.total > 0) {
+    console.log(`Board open: ${boardOpen.correct}/${boardOpen.total} correct (${pct(boardOpen.correct, boardOpen.total).trim()})`);
+  }
+  console.log(`Time: ${elapsed}ms (${regionsChecked > 0 ? (elapsed / regionsChecked).toFixed(0) : 0}ms/region)`);
+
+  await shutdownTesseract();
+}
+
+main().catch(async (err) => {
+  console.error('OCR regression test failed:', err);
+  await shutdownTesseract();
+  process.exit(1);
+});
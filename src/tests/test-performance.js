@@ -12,11 +12,11 @@ function getRandomBounties(count) {
 }
 
 // Create a version that evaluates all combinations without early stopping
-function findBestBountiesExhaustive(testBounties, detectiveLevel, battleOfFortuneholdCompleted, roundTrip) {
+function findBestBountiesExhaustive(testBounties, playerState, roundTrip) {
   const GPS = require('./dist/algorithm/gps').default;
   const bountyData = require('./dist/algorithm/bounties').bounties;
   
-  const gps = new GPS(detectiveLevel, battleOfFortuneholdCompleted);
+  const gps = new GPS(playerState);
   const allCombos = combinations(testBounties, Math.min(testBounties.length, 6));
   
   // Pre-calculate KP and estimated distance for sorting
@@ -67,8 +67,7 @@ for (let i = 0; i < numRuns; i++) {
   try {
     const res = pathfinder.findBestBounties(
       testBounties,
-      469,
-      true,
+      { skills: { detective: 469 }, quests: { BATTLE_OF_FORTUNEHOLD: true } },
       true,
       5
     );
@@ -93,7 +92,7 @@ for (let i = 0; i < numRuns; i++) {
     const allCombos = combinations(testBounties, Math.min(testBounties.length, 6));
     console.log(`  Testing all ${allCombos.length} combinations exhaustively...`);
     
-    const bestResult = findBestBountiesExhaustive(testBounties, 469, true, true);
+    const bestResult = findBestBountiesExhaustive(testBounties, { skills: { detective: 469 }, quests: { BATTLE_OF_FORTUNEHOLD: true } }, true);
     
     const elapsedExh = Date.now() - startExh;
     exhaustiveResult = {
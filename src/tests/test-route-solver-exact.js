@@ -0,0 +1,108 @@
+// Check that findBestRoute finds the shortest route, against a brute force over every order of buys and sells.
+// Half the cases use quantities and an inventory small enough that not everything fits at once, and half
+// avoid hostile edges, where travel times don't obey the triangle inequality
+const pathfinder = require('./dist/algorithm/pathfinder').default;
+const { bounties } = require('./dist/algorithm/bounties');
+const { bountyBoard } = require('./dist/algorithm/nodes');
+const GPS = require('./dist/algorithm/gps').default;
+
+const NUM_CASES = 200;
+const MAX_BOUNTIES = 4; // 4 bounties of 6 items always fit in 24 slots, so inventory never limits the order
+const MAX_LIMITED_BOUNTIES = 5;
+
+// Seeded so a failure can be reproduced
+let seed = 12345;
+function random() {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+}
+
+function pickBounties(count) {
+  const keys = Object.keys(bounties);
+  const picked = [];
+  while (picked.length < count) {
+    const key = keys[Math.floor(random() * keys.length)];
+    if (!picked.includes(key)) picked.push(key);
+  }
+  return picked;
+}
+
+/**
+ * Shortest route by trying every order of events where each bounty is bought before it's sold and
+ * the items carried always fit in the inventory.
+ * Charges like the pathfinder: a sale each, buying once per stop, a stop being consecutive events at one node
+ */
+function bruteForce(combo, quantities, inventorySpace, gps, returnToBoard) {
+  const events = combo.flatMap((bounty, i) => [
+    { type: 'buy', index: i, node: bounties[bounty].seller.node },
+    { type: 'sell', index: i, node: bounties[bounty].buyer.node },
+  ]);
+  let best = Infinity;
+
+  const search = (node, bought, sold, carried, boughtHere, distance) => {
+    if (distance >= best) return;
+    if (sold.size === combo.length) {
+      const ending = returnToBoard && node !== bountyBoard.node ? gps.distance(node, bountyBoard.node).distance : 0;
+      best = Math.min(best, distance + ending);
+      return;
+    }
+    for (const event of events) {
+      if (event.type === 'buy' ? bought.has(event.index) : sold.has(event.index) || !bought.has(event.index)) continue;
+      const moved = event.node !== node;
+      let next = distance + (moved ? gps.distance(node, event.node).distance : 0);
+      const alreadyBought = !moved && boughtHere;
+      const quantity = quantities[combo[event.index]];
+      if (event.type === 'buy') {
+        if (carried + quantity > inventorySpace) continue;
+        if (!alreadyBought) next += pathfinder.timeToBuy;
+        search(event.node, new Set([...bought, event.index]), sold, carried + quantity, true, next);
+      } else {
+        next += pathfinder.timeToSell;
+        search(event.node, bought, new Set([...sold, event.index]), carried - quantity, alreadyBought, next);
+      }
+    }
+  };
+
+  search(bountyBoard.node, new Set(), new Set(), 0, false, 0);
+  return best;
+}
+
+const playerState = { skills: { detective: 500 }, quests: { BATTLE_OF_FORTUNEHOLD: true } };
+const expectedGps = new GPS(playerState);
+const avoidingGps = new GPS(playerState, null, {}, { mode: 'avoid-hostile' });
+let mismatches = 0;
+
+console.log('='.repeat(70));
+console.log(`Route Solver Exactness Test (${NUM_CASES} cases of 1-${MAX_LIMITED_BOUNTIES} bounties)`);
+console.log('='.repeat(70));
+
+let limitedByInventory = 0;
+for (let i = 0; i < NUM_CASES; i++) {
+  const limited = i % 2 === 1;
+  const combo = pickBounties(1 + Math.floor(random() * (limited ? MAX_LIMITED_BOUNTIES : MAX_BOUNTIES)));
+  const returnToBoard = random() < 0.5;
+  const gps = i % 4 < 2 ? expectedGps : avoidingGps;
+
+  // Quantities of 3-12 items in 12-20 slots, so the biggest bounty always fits on its own
+  const quantities = {};
+  for (const bounty of combo) {
+    quantities[bounty] = limited ? 3 + Math.floor(random() * 10) : 6;
+  }
+  const inventorySpace = limited ? 12 + Math.floor(random() * 9) : 24;
+  const total = combo.reduce((sum, bounty) => sum + quantities[bounty], 0);
+  if (total > inventorySpace) limitedByInventory++;
+
+  pathfinder.inventorySpace = inventorySpace;
+  const route = pathfinder.findBestRoute(combo, gps, undefined, returnToBoard ? 'return-to-board' : 'end-anywhere', combo.map((bounty) => quantities[bounty]));
+  const expected = bruteForce(combo, quantities, inventorySpace, gps, returnToBoard);
+  if (Math.abs(route.distance - expected) > 1e-6) {
+    mismatches++;
+    const items = combo.map((bounty) => `${bounty} x${quantities[bounty]}`).join(', ');
+    console.log(`MISMATCH ${items} in ${inventorySpace} slots (${returnToBoard ? 'return' : 'end anywhere'}${gps === avoidingGps ? ', avoiding hostile' : ''}): solver ${route.distance.toFixed(2)}s, brute force ${expected.toFixed(2)}s`);
+  }
+}
+
+console.log(`${limitedByInventory} cases couldn't carry every bounty at once`);
+
+console.log(mismatches === 0 ? `All ${NUM_CASES} routes are optimal` : `${mismatches} of ${NUM_CASES} routes differ`);
+process.exitCode = mismatches === 0 ? 0 : 1;
@@ -26,8 +26,7 @@ app.on('ready', async () => {
       const start = Date.now();
       await pool.findBest({
         allBounties: testBounties,
-        detectiveLevel: 500,
-        battleOfFortuneholdCompleted: true,
+        playerState: { skills: { detective: 500 }, quests: { BATTLE_OF_FORTUNEHOLD: true } },
         pruningOptions: { maxCombinations: Infinity, pruningThreshold: 1.0 }
       }, 60000);
       const elapsed = Date.now() - start;
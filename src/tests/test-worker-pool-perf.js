@@ -41,8 +41,7 @@ async function runTests() {
     try {
       const result = await pool.findBest({
         allBounties: testCase.bounties,
-        detectiveLevel: 500,
-        battleOfFortuneholdCompleted: true,
+        playerState: { skills: { detective: 500 }, quests: { BATTLE_OF_FORTUNEHOLD: true } },
         pruningOptions: { maxCombinations: 400, pruningThreshold: 0.95 }
       }, 60000);
       
@@ -64,8 +63,7 @@ async function runTests() {
     try {
       const result = await pool.findBest({
         allBounties: testCase.bounties,
-        detectiveLevel: 500,
-        battleOfFortuneholdCompleted: true,
+        playerState: { skills: { detective: 500 }, quests: { BATTLE_OF_FORTUNEHOLD: true } },
         pruningOptions: { maxCombinations: Infinity, pruningThreshold: 1.0 }
       }, 60000);
       
@@ -89,8 +87,7 @@ async function runTests() {
     try {
       const result = await pool.findBest({
         allBounties: randomBounties,
-        detectiveLevel: 500,
-        battleOfFortuneholdCompleted: true,
+        playerState: { skills: { detective: 500 }, quests: { BATTLE_OF_FORTUNEHOLD: true } },
         pruningOptions: { maxCombinations: 400, pruningThreshold: 0.95 }
       }, 60000);
       
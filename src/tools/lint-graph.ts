@@ -0,0 +1,54 @@
+/**
+ * Checks the world graph in the game data pack and prints a report.
+ *
+ *   npm run lint:graph                                  # the pack shipped with the app
+ *   npm run lint:graph -- --override path/to/pack.json  # with an override pack applied
+ *   npm run lint:graph -- --json                        # findings as JSON
+ *
+ * Exits with 1 if there are errors, so it can run in CI.
+ */
+import * as fs from 'fs';
+import { loadGameData, mergeGameData } from '../algorithm/game-data';
+import { lintGraph, playerStates } from '../algorithm/graph-lint';
+
+function main(args: string[]): number {
+  const json = args.includes('--json');
+  const overrideIndex = args.indexOf('--override');
+  const overridePath = overrideIndex >= 0 ? args[overrideIndex + 1] : null;
+  if (overrideIndex >= 0 && !overridePath) {
+    console.error('Usage: lint-graph [--override <pack.json>] [--json]');
+    return 2;
+  }
+
+  // The user's override pack in the app data directory is never applied here, only the one given
+  let pack = loadGameData(null).pack;
+  if (overridePath) {
+    pack = mergeGameData(pack, JSON.parse(fs.readFileSync(overridePath, 'utf8')));
+  }
+
+  const findings = lintGraph(pack);
+  const errors = findings.filter(f => f.severity === 'error');
+  const warnings = findings.filter(f => f.severity === 'warning');
+
+  if (json) {
+    console.log(JSON.stringify({ dataVersion: pack.dataVersion, findings }, null, 2));
+    return errors.length > 0 ? 1 : 0;
+  }
+
+  const nodes = new Set(pack.edges.flatMap((e: { nodes: number[] }) => e.nodes));
+  console.log(`World graph ${pack.dataVersion}: ${nodes.size} nodes, ${pack.edges.length} edges, ` +
+    `reachability checked for ${playerStates(pack).length} player states`);
+
+  for (const [title, group] of [['Errors', errors], ['Warnings', warnings]] as const) {
+    if (group.length === 0) continue;
+    console.log(`\n${title} (${group.length})`);
+    for (const finding of group) {
+      console.log(`  [${finding.check}] ${finding.message}`);
+    }
+  }
+
+  console.log(`\n${errors.length} errors, ${warnings.length} warnings`);
+  return errors.length > 0 ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));